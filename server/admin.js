@@ -0,0 +1,187 @@
+import express from 'express';
+import { createHash, timingSafeEqual } from 'crypto';
+import { BAN_KINDS } from './bans.js';
+
+/**
+ * API-key-protected moderation endpoints, mounted at /admin.
+ *
+ * Requests must send the key from ADMIN_API_KEY in the `x-admin-key` header.
+ * The router refuses every request when no key is configured, so the admin
+ * API is off by default.
+ */
+
+const REPORT_RESOLUTIONS = ['actioned', 'dismissed'];
+const MAX_NOTICE_LENGTH = 500;
+const MAX_ACTIONS = 500;
+const MAX_STATS_DAYS = 365;
+
+// Hashing first gives equal-length buffers, which timingSafeEqual requires
+function keysMatch(provided, expected) {
+  const a = createHash('sha256').update(provided).digest();
+  const b = createHash('sha256').update(expected).digest();
+  return timingSafeEqual(a, b);
+}
+
+function requireApiKey(apiKey) {
+  return (req, res, next) => {
+    if (!apiKey) {
+      res.status(503).json({ error: 'Admin API is disabled. Set ADMIN_API_KEY to enable it.' });
+      return;
+    }
+    const provided = req.get('x-admin-key');
+    if (!provided || !keysMatch(provided, apiKey)) {
+      res.status(401).json({ error: 'Invalid admin key.' });
+      return;
+    }
+    next();
+  };
+}
+
+/**
+ * `state` exposes the server's live state and actions; see index.js.
+ */
+export function createAdminRouter({ apiKey, state }) {
+  const router = express.Router();
+  router.use(requireApiKey(apiKey));
+  router.use(express.json({ limit: '10kb' }));
+
+  const logAction = (action, target, details) => {
+    state.moderationActions.insert({ actor: 'admin', action, target, details });
+  };
+
+  router.get('/stats', (req, res) => {
+    res.json(state.stats());
+  });
+
+  router.get('/rooms', (req, res) => {
+    res.json(state.rooms());
+  });
+
+  router.post('/rooms/:roomId/end', (req, res) => {
+    if (!state.endRoom(req.params.roomId)) {
+      res.status(404).json({ error: 'No such room.' });
+      return;
+    }
+    logAction('end_room', req.params.roomId);
+    res.json({ ok: true });
+  });
+
+  router.get('/sockets', (req, res) => {
+    res.json(state.sockets());
+  });
+
+  router.get('/reports', (req, res) => {
+    const { status } = req.query;
+    res.json(state.reports.list({ status: typeof status === 'string' ? status : undefined }));
+  });
+
+  router.post('/reports/:reportId/resolve', (req, res) => {
+    const { resolution = 'actioned' } = req.body || {};
+    if (!REPORT_RESOLUTIONS.includes(resolution)) {
+      res.status(400).json({ error: `resolution must be one of ${REPORT_RESOLUTIONS.join(', ')}` });
+      return;
+    }
+    const report = state.reports.resolve(req.params.reportId, resolution);
+    if (!report) {
+      res.status(404).json({ error: 'No such report.' });
+      return;
+    }
+    logAction('resolve_report', report.id, { resolution });
+    res.json(report);
+  });
+
+  router.get('/bans', (req, res) => {
+    res.json(state.bans.list());
+  });
+
+  // Ban by live socket, or directly by address and/or device token
+  router.post('/bans', (req, res) => {
+    const { socketId, address, deviceToken, kind = 'ban', reason, durationMs } = req.body || {};
+
+    if (!BAN_KINDS.includes(kind)) {
+      res.status(400).json({ error: `kind must be one of ${BAN_KINDS.join(', ')}` });
+      return;
+    }
+    if (typeof reason !== 'string' || !reason.trim()) {
+      res.status(400).json({ error: 'reason is required.' });
+      return;
+    }
+    if (durationMs !== undefined && durationMs !== null && !(Number.isSafeInteger(durationMs) && durationMs > 0)) {
+      res.status(400).json({ error: 'durationMs must be a positive integer, or omitted for a permanent ban.' });
+      return;
+    }
+
+    let target = { address, deviceToken };
+    if (socketId !== undefined) {
+      target = state.identify(socketId);
+      if (!target) {
+        res.status(404).json({ error: 'No such socket.' });
+        return;
+      }
+    }
+    if (typeof target.address !== 'string' && typeof target.deviceToken !== 'string') {
+      res.status(400).json({ error: 'Provide a socketId, address or deviceToken.' });
+      return;
+    }
+
+    const ban = state.ban({ ...target, kind, reason: reason.trim(), durationMs });
+    res.status(201).json(ban);
+  });
+
+  router.delete('/bans/:banId', (req, res) => {
+    if (!state.unban(req.params.banId)) {
+      res.status(404).json({ error: 'No such ban.' });
+      return;
+    }
+    logAction('unban', req.params.banId);
+    res.json({ ok: true });
+  });
+
+  router.post('/broadcast', (req, res) => {
+    const { message } = req.body || {};
+    if (typeof message !== 'string' || !message.trim() || message.length > MAX_NOTICE_LENGTH) {
+      res.status(400).json({ error: `message must be 1 to ${MAX_NOTICE_LENGTH} characters.` });
+      return;
+    }
+    state.broadcast(message.trim());
+    logAction('broadcast', null, { message: message.trim() });
+    res.json({ ok: true });
+  });
+
+  router.get('/metrics', (req, res) => {
+    res.json(state.metrics.series());
+  });
+
+  router.get('/daily-stats', (req, res) => {
+    const days = Math.min(Number(req.query.days) || 30, MAX_STATS_DAYS);
+    const since = new Date(Date.now() - (days - 1) * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    res.json(state.dailyStats.listSince(since));
+  });
+
+  router.get('/actions', (req, res) => {
+    const limit = Math.min(Number(req.query.limit) || 100, MAX_ACTIONS);
+    res.json(state.moderationActions.listRecent(limit));
+  });
+
+  router.get('/config', (req, res) => {
+    res.json(state.settings.all());
+  });
+
+  router.put('/config/:key', (req, res) => {
+    const { key } = req.params;
+    const { value } = req.body || {};
+    if (!state.settings.has(key)) {
+      res.status(404).json({ error: 'No such setting.' });
+      return;
+    }
+    if (!Number.isSafeInteger(value) || value <= 0) {
+      res.status(400).json({ error: 'value must be a positive integer.' });
+      return;
+    }
+    state.settings.set(key, value);
+    logAction('set_config', key, { value });
+    res.json(state.settings.all());
+  });
+
+  return router;
+}
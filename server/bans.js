@@ -0,0 +1,117 @@
+import { randomUUID } from 'crypto';
+
+/**
+ * Bans keyed on client address and an anonymous device token held by the client.
+ *
+ * A ban applies when either the address or the device token matches, so
+ * clearing local storage or switching networks alone doesn't get around it.
+ *
+ * Kinds:
+ *  - ban:    refused at connection and join_queue
+ *  - shadow: allowed in, but only ever matched with other shadow-banned users
+ *  - mute:   can chat, but messages are not relayed
+ *
+ * `expiresAt` is null for permanent bans. Expired bans stay in storage as history.
+ */
+
+export const BAN_KINDS = ['ban', 'shadow', 'mute'];
+
+// Events a muted client can't send: anything that reaches other users, and
+// reports, so a mute can't be answered by getting someone else auto-banned.
+// Chunks are included so an upload offered before the mute doesn't finish.
+const MUTED_EVENTS = new Set([
+  'send_message', 'edit_message', 'react_message', 'unreact_message', 'report_message', 'file_offer', 'file_chunk'
+]);
+
+// Whether `ban` matches a client, by address or device token
+export function appliesTo(ban, { address, deviceToken }) {
+  return Boolean((ban.address && ban.address === address) || (ban.deviceToken && ban.deviceToken === deviceToken));
+}
+
+// Whether a ban in a result from `check` has run out since it was read
+function hasLapsed(active, now) {
+  return Object.values(active).some(ban => ban && ban.expiresAt !== null && ban.expiresAt <= now);
+}
+
+export function createBanList({ storage }) {
+  function add({ address, deviceToken, kind = 'ban', reason, durationMs }) {
+    const now = Date.now();
+    const ban = {
+      id: randomUUID(),
+      kind,
+      address: address || null,
+      deviceToken: deviceToken || null,
+      reason,
+      createdAt: now,
+      expiresAt: durationMs ? now + durationMs : null
+    };
+    storage.bans.insert(ban);
+    return ban;
+  }
+
+  function remove(banId) {
+    return storage.bans.delete(banId);
+  }
+
+  function list() {
+    return storage.bans.listActive(Date.now());
+  }
+
+  /**
+   * Active bans for a client, one per kind, preferring the longest-lasting.
+   */
+  function check({ address, deviceToken }) {
+    const result = { ban: null, shadow: null, mute: null };
+
+    for (const ban of storage.bans.findActive({ address, deviceToken }, Date.now())) {
+      const current = result[ban.kind];
+      if (!current || current.expiresAt !== null && (ban.expiresAt === null || ban.expiresAt > current.expiresAt)) {
+        result[ban.kind] = ban;
+      }
+    }
+    return result;
+  }
+
+  return { add, remove, list, check };
+}
+
+/**
+ * Socket.IO middleware for the connection handshake: reads the device token and
+ * records any active ban on the socket, so the connection handler can report it.
+ * `socket.data.bans` is the socket's cached ban state from then on; whoever adds
+ * or lifts a ban refreshes it for the sockets that ban applies to.
+ */
+export function banConnectionMiddleware(bans, clientIdentity) {
+  return (socket, next) => {
+    const { deviceToken } = socket.handshake.auth || {};
+    socket.data.deviceToken = typeof deviceToken === 'string' && /^[0-9a-f-]{36}$/i.test(deviceToken)
+      ? deviceToken
+      : null;
+    socket.data.bans = bans.check(clientIdentity(socket));
+    next();
+  };
+}
+
+/**
+ * Per-socket packet middleware: blocks events by the socket's cached ban state,
+ * which is only read from storage again once one of its bans runs out.
+ * `onBlocked(ban, event, payload)` is called instead of the handler for blocked
+ * events, with the payload as sent, unvalidated.
+ */
+export function banPacketMiddleware(socket, bans, clientIdentity, onBlocked) {
+  return (packet, next) => {
+    const [event, payload] = packet;
+    if (hasLapsed(socket.data.bans, Date.now())) socket.data.bans = bans.check(clientIdentity(socket));
+    const active = socket.data.bans;
+
+    const blockedBy = active.ban || (active.mute && MUTED_EVENTS.has(event) ? active.mute : null);
+    if (blockedBy) {
+      // Events sent with an acknowledgement still get an answer
+      const ack = packet[packet.length - 1];
+      if (typeof ack === 'function') ack({ ok: false });
+      onBlocked(blockedBy, event, payload);
+      return;
+    }
+    next();
+  };
+}
@@ -0,0 +1,91 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { appliesTo, banPacketMiddleware, createBanList } from './bans.js';
+import { createStorage } from './storage/index.js';
+
+const alice = { address: '203.0.113.1', deviceToken: 'token-a' };
+
+describe('ban list', () => {
+  beforeEach(() => {
+    mock.timers.enable({ apis: ['Date'], now: 0 });
+  });
+
+  afterEach(() => {
+    mock.timers.reset();
+  });
+
+  it('reports the longest-lasting ban of each kind', () => {
+    const bans = createBanList({ storage: createStorage({ driver: 'memory' }) });
+    bans.add({ address: alice.address, kind: 'mute', reason: 'spam', durationMs: 1000 });
+    const longer = bans.add({ deviceToken: alice.deviceToken, kind: 'mute', reason: 'spam', durationMs: 5000 });
+
+    assert.deepEqual(bans.check(alice), { ban: null, shadow: null, mute: longer });
+    mock.timers.tick(5000);
+    assert.equal(bans.check(alice).mute, null);
+  });
+
+  it('matches bans by address or device token', () => {
+    assert.equal(appliesTo({ address: alice.address, deviceToken: null }, alice), true);
+    assert.equal(appliesTo({ address: null, deviceToken: alice.deviceToken }, alice), true);
+    assert.equal(appliesTo({ address: '192.0.2.1', deviceToken: null }, { address: '192.0.2.2', deviceToken: null }), false);
+    assert.equal(appliesTo({ address: null, deviceToken: null }, { address: null, deviceToken: null }), false);
+  });
+});
+
+describe('ban packet middleware', () => {
+  beforeEach(() => {
+    mock.timers.enable({ apis: ['Date'], now: 0 });
+  });
+
+  afterEach(() => {
+    mock.timers.reset();
+  });
+
+  const connect = () => {
+    const bans = createBanList({ storage: createStorage({ driver: 'memory' }) });
+    const check = mock.method(bans, 'check');
+    const socket = { id: 's1', data: { bans: { ban: null, shadow: null, mute: null } } };
+    const blocked = [];
+    const middleware = banPacketMiddleware(socket, bans, () => alice, (ban, event, payload) => blocked.push({ kind: ban.kind, event, payload }));
+    return { bans, check, socket, blocked, middleware };
+  };
+
+  it("goes by the socket's cached bans without reading storage", () => {
+    const { check, socket, blocked, middleware } = connect();
+    const next = mock.fn();
+    socket.data.bans.mute = { kind: 'mute', expiresAt: null };
+
+    middleware(['typing', { roomId: 'room_1' }], next);
+    middleware(['react_message', { roomId: 'room_1' }], next);
+    middleware(['report_message', { messageId: 'AAAAAAAAAAAAAAAA' }], next);
+
+    assert.equal(next.mock.callCount(), 1);
+    assert.deepEqual(blocked.map(({ event }) => event), ['react_message', 'report_message']);
+    assert.equal(check.mock.callCount(), 0);
+  });
+
+  it('reads the bans again once a cached one runs out', () => {
+    const { check, socket, blocked, middleware } = connect();
+    const next = mock.fn();
+    socket.data.bans.mute = { kind: 'mute', expiresAt: 1000 };
+
+    middleware(['send_message', {}], next);
+    mock.timers.tick(1000);
+    middleware(['send_message', {}], next);
+
+    assert.equal(blocked.length, 1);
+    assert.equal(next.mock.callCount(), 1);
+    assert.equal(check.mock.callCount(), 1);
+    assert.equal(socket.data.bans.mute, null);
+  });
+
+  it('answers an acked event a ban blocks', () => {
+    const { socket, middleware } = connect();
+    socket.data.bans.ban = { kind: 'ban', expiresAt: null };
+    const ack = mock.fn();
+
+    middleware(['send_message', {}, ack], mock.fn());
+
+    assert.deepEqual(ack.mock.calls[0].arguments, [{ ok: false }]);
+  });
+});
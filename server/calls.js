@@ -0,0 +1,77 @@
+/**
+ * Voice and video calls, and screen shares, between the two members of a
+ * one-on-one chat. A screen share is a call of kind 'screen' where only the
+ * caller sends media; it can run alongside a voice or video call.
+ *
+ * Media flows peer to peer over WebRTC; the server only relays the SDP
+ * offer/answer and ICE candidates. A call rings until the callee accepts or
+ * declines, and nothing is signalled before they accept, so neither side's
+ * network details reach the other without consent.
+ */
+
+// ICE servers from config, as a JSON array of RTCIceServer objects, e.g.
+// [{"urls":"stun:stun.example.org"},{"urls":"turn:turn.example.org","username":"u","credential":"p"}].
+// With none, peers on the same network still connect through host candidates.
+export function parseIceServers(value) {
+  if (!value) return [];
+  try {
+    const servers = JSON.parse(value);
+    if (!Array.isArray(servers) || !servers.every(server => server && (typeof server.urls === 'string' || Array.isArray(server.urls)))) {
+      throw new Error('expected an array of { urls } objects');
+    }
+    return servers;
+  } catch (err) {
+    console.error(`Ignoring invalid ICE_SERVERS: ${err.message}`);
+    return [];
+  }
+}
+
+export function createCallRegistry() {
+  const calls = new Map(); // callId -> { callId, roomId, kind, callerId, calleeId, state }
+
+  // Returns an error message, or null once the call is ringing
+  function invite({ callId, roomId, kind, callerId, calleeId }) {
+    if (calls.has(callId)) return 'That call already exists.';
+    const isScreen = kind === 'screen';
+    for (const call of calls.values()) {
+      if (call.roomId !== roomId || (call.kind === 'screen') !== isScreen) continue;
+      return isScreen ? 'A screen is already being shared.' : 'A call is already in progress.';
+    }
+    calls.set(callId, { callId, roomId, kind, callerId, calleeId, state: 'ringing', createdAt: Date.now() });
+    return null;
+  }
+
+  function get(callId) {
+    return calls.get(callId) || null;
+  }
+
+  function accept(callId) {
+    const call = calls.get(callId);
+    if (call) call.state = 'active';
+  }
+
+  function remove(callId) {
+    return calls.delete(callId);
+  }
+
+  // The other side of a call from `socketId`
+  function peerOf(call, socketId) {
+    return call.callerId === socketId ? call.calleeId : call.callerId;
+  }
+
+  // Hand a reconnected member's calls to its new socket
+  function reassign(previousSocketId, socketId) {
+    for (const call of calls.values()) {
+      if (call.callerId === previousSocketId) call.callerId = socketId;
+      if (call.calleeId === previousSocketId) call.calleeId = socketId;
+    }
+  }
+
+  function removeForRoom(roomId) {
+    for (const [callId, call] of calls) {
+      if (call.roomId === roomId) calls.delete(callId);
+    }
+  }
+
+  return { invite, get, accept, remove, peerOf, reassign, removeForRoom };
+}
@@ -0,0 +1,209 @@
+import { readFileSync, watchFile } from 'fs';
+
+/**
+ * Profanity and spam filter for plaintext message text, run before relay.
+ *
+ * Rules come from a JSON file (see filter-rules.json) that is re-read
+ * whenever it changes, so moderators can tune them without a restart. A file
+ * that fails to parse is ignored and the previous rules stay in force.
+ *
+ * Rule kinds: `words` (whole words, `*` as a trailing wildcard), `patterns`
+ * (regular expressions), `links` (URLs outside an allowlist),
+ * `repeatedCharacters` (runs of the same character) and `duplicates` (the
+ * same text sent over and over). Each rule has an `action`:
+ *  - mask:  relay with the matched text starred out
+ *  - warn:  relay unchanged and tell the sender why it was flagged
+ *  - block: don't relay; the sender is told why
+ * and may set `strike: true` to count toward `autoBan`, which bans a client
+ * after enough strikes within a window.
+ *
+ * Encrypted messages skip the filter. The server only ever sees their
+ * ciphertext, and the keys stay with the two clients, so there is nothing to
+ * match against; filtering them would mean giving up end-to-end encryption.
+ */
+
+export const FILTER_ACTIONS = ['mask', 'warn', 'block'];
+
+const DEFAULT_MESSAGES = {
+  words: 'Your message contains language that isn\'t allowed here.',
+  patterns: 'Your message matches a blocked pattern.',
+  links: 'Links aren\'t allowed in chats.',
+  repeatedCharacters: 'Please don\'t stretch words out like that.',
+  duplicates: 'Please don\'t send the same message over and over.'
+};
+
+// Scheme or www links, plus bare domains on common TLDs
+const LINK_PATTERN = /\b(?:https?:\/\/|www\.)[^\s<>]+|\b(?:[a-z0-9-]+\.)+(?:com|net|org|io|gg|me|co|xyz|ru|info|app|dev|ly|tv|link|site|online)\b(?:\/[^\s<>]*)?/giu;
+const WORD_EDGE = '[\\p{L}\\p{N}]';
+
+function compileRule(kind, spec, build) {
+  if (!spec) return null;
+  const action = spec.action || 'block';
+  if (!FILTER_ACTIONS.includes(action)) throw new Error(`${kind}: unknown action "${action}"`);
+  return { kind, action, strike: Boolean(spec.strike), message: spec.message || DEFAULT_MESSAGES[kind], ...build(spec) };
+}
+
+function escapeRegExp(text) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Turn the rules file's JSON into matchers. Throws on anything malformed.
+export function compileRules(config) {
+  const rules = [];
+  const add = (rule) => rule && rules.push(rule);
+
+  add(compileRule('words', config.words, ({ list }) => {
+    if (!Array.isArray(list) || !list.every(word => typeof word === 'string' && word.trim())) {
+      throw new Error('words: "list" must be an array of words');
+    }
+    if (list.length === 0) return { pattern: null };
+    const alternatives = list.map(word => {
+      const wildcard = word.endsWith('*');
+      const stem = escapeRegExp(word.trim().replace(/\*$/, ''));
+      return wildcard ? `${stem}[\\p{L}\\p{N}]*` : stem;
+    });
+    return { pattern: new RegExp(`(?<!${WORD_EDGE})(?:${alternatives.join('|')})(?!${WORD_EDGE})`, 'giu') };
+  }));
+
+  for (const [index, spec] of (config.patterns || []).entries()) {
+    add(compileRule('patterns', spec, ({ pattern, flags = 'i' }) => {
+      if (typeof pattern !== 'string') throw new Error(`patterns[${index}]: "pattern" must be a string`);
+      // Always global, so masking replaces every match
+      return { pattern: new RegExp(pattern, [...new Set(`${flags}gu`)].join('')) };
+    }));
+  }
+
+  add(compileRule('links', config.links, ({ allowedDomains = [] }) => {
+    if (!Array.isArray(allowedDomains)) throw new Error('links: "allowedDomains" must be an array');
+    const allowed = allowedDomains.map(domain => domain.toLowerCase());
+    return {
+      pattern: LINK_PATTERN,
+      // A link to an allowed domain or any of its subdomains passes
+      skip: (link) => {
+        const host = link.replace(/^https?:\/\//i, '').split(/[/?#:]/)[0].toLowerCase().replace(/^www\./, '');
+        return allowed.some(domain => host === domain || host.endsWith(`.${domain}`));
+      }
+    };
+  }));
+
+  add(compileRule('repeatedCharacters', config.repeatedCharacters, ({ max = 6 }) => {
+    if (!Number.isInteger(max) || max < 1) throw new Error('repeatedCharacters: "max" must be a positive integer');
+    return {
+      pattern: new RegExp(`(.)\\1{${max},}`, 'gsu'),
+      // Masking trims the run down to the limit instead of starring it out
+      mask: (run) => [...run].slice(0, max).join('')
+    };
+  }));
+
+  add(compileRule('duplicates', config.duplicates, ({ max = 3, windowMs = 30000 }) => {
+    if (!Number.isInteger(max) || max < 1) throw new Error('duplicates: "max" must be a positive integer');
+    return { max, windowMs };
+  }));
+
+  let autoBan = null;
+  if (config.autoBan) {
+    const { strikes = 5, windowMs = 60 * 60 * 1000, durationMs = 60 * 60 * 1000, kind = 'mute' } = config.autoBan;
+    if (!['ban', 'mute'].includes(kind)) throw new Error('autoBan: "kind" must be "ban" or "mute"');
+    autoBan = { strikes, windowMs, durationMs, kind };
+  }
+
+  return { rules, autoBan };
+}
+
+function maskMatch(match) {
+  return '*'.repeat([...match].length);
+}
+
+export function createContentFilter({ path, pollIntervalMs = 2000 }) {
+  let compiled = { rules: [], autoBan: null };
+  const recent = new Map(); // socketId -> [{ text, clientId, at }] for duplicate detection
+  const strikes = new Map(); // address -> strike timestamps
+
+  function load() {
+    try {
+      compiled = compileRules(JSON.parse(readFileSync(path, 'utf8')));
+      console.log(`Loaded ${compiled.rules.length} filter rules from ${path}`);
+    } catch (err) {
+      if (err.code === 'ENOENT') {
+        console.warn(`No filter rules at ${path}; messages are not filtered`);
+        compiled = { rules: [], autoBan: null };
+      } else {
+        console.error(`Keeping the previous filter rules, ${path} is invalid: ${err.message}`);
+      }
+    }
+  }
+
+  load();
+  // Polling rather than fs.watch, which loses track of files that editors save by replacing them
+  watchFile(path, { interval: pollIntervalMs }, (current, previous) => {
+    if (current.mtimeMs !== previous.mtimeMs) load();
+  });
+
+  // Whether `text` is one too many copies of a recent message. A retry of
+  // the same message (same clientId) doesn't count as a copy.
+  function isDuplicate(socketId, text, clientId, { max, windowMs }) {
+    const now = Date.now();
+    const normalized = text.trim().toLowerCase().replace(/\s+/g, ' ');
+    const history = (recent.get(socketId) || []).filter(entry => now - entry.at < windowMs);
+    const retry = clientId && history.some(entry => entry.clientId === clientId);
+    if (!retry) history.push({ text: normalized, clientId, at: now });
+    recent.set(socketId, history);
+    return history.filter(entry => entry.text === normalized).length > max;
+  }
+
+  // Record a strike and report whether the client has now earned an automatic ban
+  function strike(address) {
+    const { autoBan } = compiled;
+    if (!autoBan) return null;
+    const now = Date.now();
+    const times = (strikes.get(address) || []).filter(at => now - at < autoBan.windowMs);
+    times.push(now);
+    if (times.length < autoBan.strikes) {
+      strikes.set(address, times);
+      return null;
+    }
+    strikes.delete(address);
+    return { kind: autoBan.kind, durationMs: autoBan.durationMs };
+  }
+
+  /**
+   * Run a message's text through the rules. Returns the text to relay, the
+   * first blocking rule's message if it must not be relayed, warnings for
+   * the sender, and the ban to apply if this pushed them over the strike limit.
+   * `clientId` enables duplicate detection, so edits leave it out.
+   */
+  function check({ socketId, address, text, clientId }) {
+    const result = { text, blocked: null, warnings: [], autoBan: null };
+    if (!text) return result;
+    let struck = false;
+
+    for (const rule of compiled.rules) {
+      let hit;
+      if (rule.kind === 'duplicates') {
+        hit = clientId !== undefined && isDuplicate(socketId, text, clientId, rule);
+      } else if (rule.pattern) {
+        const matches = [...result.text.matchAll(rule.pattern)].filter(match => !rule.skip?.(match[0]));
+        hit = matches.length > 0;
+        if (hit && rule.action === 'mask') {
+          result.text = result.text.replace(rule.pattern, (match) => rule.skip?.(match) ? match : (rule.mask || maskMatch)(match));
+        }
+      }
+      if (!hit) continue;
+
+      if (rule.strike) struck = true;
+      // Duplicates can't be masked, so masking them falls back to a warning
+      if (rule.action === 'block') result.blocked ??= rule.message;
+      else if (rule.action === 'warn' || rule.kind === 'duplicates') result.warnings.push(rule.message);
+    }
+
+    // One strike per message, however many rules it broke
+    if (struck) result.autoBan = strike(address);
+    return result;
+  }
+
+  function forget(socketId) {
+    recent.delete(socketId);
+  }
+
+  return { check, forget };
+}
@@ -0,0 +1,147 @@
+/**
+ * Anti-flood controls for socket events.
+ *
+ * Each socket gets a token bucket per event type: up to `burst` events at
+ * once, refilled at `perSecond`. Events beyond that are dropped.
+ *
+ * Running dry on a `penalize`d event is an offense. Offenses put the client
+ * in a cooldown during which none of its penalized events go through, and
+ * each repeat within `forgiveAfterMs` earns a longer one. The cooldown is
+ * keyed on the client's device token (or its socket, without one), so one
+ * flooder doesn't mute everyone behind the same NAT. The offense count is
+ * keyed on the address as well, which the client can't pick, so reconnecting
+ * with a new token doesn't start the escalation over.
+ * Events that are harmless to drop, like typing indicators, only ever lose
+ * the excess.
+ */
+
+export const EVENT_LIMITS = {
+  send_message: { burst: 10, perSecond: 2, penalize: true },
+  edit_message: { burst: 5, perSecond: 1, penalize: true },
+  delete_message: { burst: 10, perSecond: 2, penalize: true },
+  react_message: { burst: 10, perSecond: 2, penalize: true },
+  unreact_message: { burst: 10, perSecond: 2, penalize: true },
+  file_offer: { burst: 5, perSecond: 0.5, penalize: true },
+  exchange_keys: { burst: 3, perSecond: 0.2, penalize: true },
+  join_queue: { burst: 5, perSecond: 0.5, penalize: true },
+  report_message: { burst: 3, perSecond: 0.1, penalize: true },
+  call_invite: { burst: 3, perSecond: 0.2, penalize: true },
+  typing: { burst: 10, perSecond: 3 },
+  stop_typing: { burst: 10, perSecond: 3 },
+  // Uploads and call setup legitimately send many of these in a row
+  file_chunk: { burst: 64, perSecond: 64 },
+  call_signal: { burst: 100, perSecond: 20 }
+};
+
+// Anything not listed above
+const DEFAULT_LIMIT = { burst: 20, perSecond: 5 };
+
+// 5 seconds, 30 seconds, 2 minutes, then 10 minutes for every offense after that
+const COOLDOWNS_MS = [5000, 30000, 2 * 60 * 1000, 10 * 60 * 1000];
+
+export function createFloodGuard({ limits = EVENT_LIMITS, cooldownsMs = COOLDOWNS_MS, forgiveAfterMs = 10 * 60 * 1000 } = {}) {
+  const buckets = new Map(); // socketId -> Map<event, { tokens, updatedAt }>
+  const offenders = new Map(); // clientKey or address -> { offenses, lastOffenseAt, cooldownUntil }
+
+  function takeToken(socketId, event, { burst, perSecond }, now) {
+    let socketBuckets = buckets.get(socketId);
+    if (!socketBuckets) {
+      socketBuckets = new Map();
+      buckets.set(socketId, socketBuckets);
+    }
+    const bucket = socketBuckets.get(event) || { tokens: burst, updatedAt: now };
+    bucket.tokens = Math.min(burst, bucket.tokens + (now - bucket.updatedAt) / 1000 * perSecond);
+    bucket.updatedAt = now;
+    socketBuckets.set(event, bucket);
+    if (bucket.tokens < 1) return Math.ceil((1 - bucket.tokens) / perSecond * 1000);
+    bucket.tokens -= 1;
+    return 0;
+  }
+
+  function offend({ clientKey, address }, now) {
+    // Forget clients whose last offense is long past, including this one's
+    for (const [key, offender] of offenders) {
+      if (now - offender.lastOffenseAt > forgiveAfterMs && offender.cooldownUntil <= now) offenders.delete(key);
+    }
+    const client = offenders.get(clientKey) || { offenses: 0, cooldownUntil: 0 };
+    const network = offenders.get(address) || { offenses: 0, cooldownUntil: 0 };
+    const offenses = Math.max(client.offenses, network.offenses) + 1;
+    const cooldownMs = cooldownsMs[Math.min(offenses, cooldownsMs.length) - 1];
+    offenders.set(clientKey, { offenses, lastOffenseAt: now, cooldownUntil: now + cooldownMs });
+    // The address only remembers the count; its cooldown stays with the client
+    offenders.set(address, { offenses, lastOffenseAt: now, cooldownUntil: network.cooldownUntil });
+    return cooldownMs;
+  }
+
+  /**
+   * Spend a token for `event`. Returns null if it may go through, or why it
+   * may not: how long until it could, and whether the client is now in (or
+   * still in) a cooldown.
+   */
+  function take(socketId, client, event) {
+    const limit = limits[event] || DEFAULT_LIMIT;
+    const now = Date.now();
+
+    if (limit.penalize) {
+      const cooldownUntil = offenders.get(client.clientKey)?.cooldownUntil || 0;
+      if (cooldownUntil > now) return { retryAfterMs: cooldownUntil - now, cooldown: true };
+    }
+
+    const waitMs = takeToken(socketId, event, limit, now);
+    if (!waitMs) return null;
+    if (!limit.penalize) return { retryAfterMs: waitMs, cooldown: false };
+    return { retryAfterMs: offend(client, now), cooldown: true };
+  }
+
+  function forget(socketId) {
+    buckets.delete(socketId);
+  }
+
+  return { take, forget };
+}
+
+/**
+ * Per-socket packet middleware: runs every event through the flood guard.
+ * `onLimited(event, limited, payload)` is called instead of the handler for
+ * events over their limit, with the payload as sent, unvalidated.
+ */
+export function floodPacketMiddleware(socket, guard, address, onLimited) {
+  const client = { clientKey: socket.data.deviceToken || socket.id, address };
+  return (packet, next) => {
+    const [event, payload] = packet;
+    const limited = guard.take(socket.id, client, event);
+    if (limited) {
+      // Events sent with an acknowledgement still get an answer
+      const ack = packet[packet.length - 1];
+      if (typeof ack === 'function') ack({ ok: false });
+      onLimited(event, limited, payload);
+      return;
+    }
+    next();
+  };
+}
+
+/**
+ * Socket.IO middleware for the connection handshake: refuses connections
+ * from an address that already has `maxPerAddress` open.
+ */
+export function connectionCapMiddleware({ maxPerAddress, clientAddress }) {
+  const open = new Map(); // address -> open connections
+
+  return (socket, next) => {
+    const address = clientAddress(socket);
+    const count = open.get(address) || 0;
+    if (count >= maxPerAddress) {
+      console.warn(`Refused connection from ${address}: ${count} already open`);
+      next(new Error('Too many connections from your network. Close some tabs and try again.'));
+      return;
+    }
+    open.set(address, count + 1);
+    socket.once('disconnect', () => {
+      const remaining = (open.get(address) || 1) - 1;
+      if (remaining > 0) open.set(address, remaining);
+      else open.delete(address);
+    });
+    next();
+  };
+}
@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { createFloodGuard, floodPacketMiddleware } from './flood.js';
+
+const limits = {
+  send_message: { burst: 2, perSecond: 1, penalize: true },
+  typing: { burst: 1, perSecond: 1 }
+};
+const cooldownsMs = [1000, 5000, 20000];
+const alice = { clientKey: 'token-a', address: '203.0.113.1' };
+
+describe('flood guard', () => {
+  beforeEach(() => {
+    mock.timers.enable({ apis: ['Date'], now: 0 });
+  });
+
+  afterEach(() => {
+    mock.timers.reset();
+  });
+
+  it('lets a burst through and refills over time', () => {
+    const guard = createFloodGuard({ limits, cooldownsMs });
+    assert.equal(guard.take('s1', alice, 'typing'), null);
+    assert.deepEqual(guard.take('s1', alice, 'typing'), { retryAfterMs: 1000, cooldown: false });
+    mock.timers.tick(1000);
+    assert.equal(guard.take('s1', alice, 'typing'), null);
+  });
+
+  it('only drops the excess of events that are not penalized', () => {
+    const guard = createFloodGuard({ limits, cooldownsMs });
+    guard.take('s1', alice, 'typing');
+    guard.take('s1', alice, 'typing');
+    assert.equal(guard.take('s1', alice, 'send_message'), null);
+  });
+
+  it('puts a flooder in a cooldown that grows with each offense', () => {
+    const guard = createFloodGuard({ limits, cooldownsMs });
+    guard.take('s1', alice, 'send_message');
+    guard.take('s1', alice, 'send_message');
+    assert.deepEqual(guard.take('s1', alice, 'send_message'), { retryAfterMs: 1000, cooldown: true });
+    mock.timers.tick(500);
+    assert.deepEqual(guard.take('s1', alice, 'send_message'), { retryAfterMs: 500, cooldown: true });
+
+    mock.timers.tick(500);
+    guard.take('s1', alice, 'send_message');
+    assert.deepEqual(guard.take('s1', alice, 'send_message'), { retryAfterMs: 5000, cooldown: true });
+  });
+
+  it('keeps escalating when the flooder comes back with a new token', () => {
+    const guard = createFloodGuard({ limits, cooldownsMs });
+    for (let i = 0; i < 3; i++) guard.take('s1', alice, 'send_message');
+
+    const rotated = { ...alice, clientKey: 'token-b' };
+    for (let i = 0; i < 2; i++) guard.take('s2', rotated, 'send_message');
+    assert.deepEqual(guard.take('s2', rotated, 'send_message'), { retryAfterMs: 5000, cooldown: true });
+  });
+
+  it("doesn't hold someone else on the same address to the cooldown", () => {
+    const guard = createFloodGuard({ limits, cooldownsMs });
+    for (let i = 0; i < 3; i++) guard.take('s1', alice, 'send_message');
+    assert.equal(guard.take('s2', { ...alice, clientKey: 'token-b' }, 'send_message'), null);
+  });
+
+  it('forgives old offenses', () => {
+    const guard = createFloodGuard({ limits, cooldownsMs, forgiveAfterMs: 60000 });
+    for (let i = 0; i < 3; i++) guard.take('s1', alice, 'send_message');
+    mock.timers.tick(60001);
+    for (let i = 0; i < 2; i++) guard.take('s1', alice, 'send_message');
+    assert.deepEqual(guard.take('s1', alice, 'send_message'), { retryAfterMs: 1000, cooldown: true });
+  });
+});
+
+describe('flood packet middleware', () => {
+  it('answers an acked event over the limit and reports it', () => {
+    const guard = createFloodGuard({ limits, cooldownsMs });
+    const socket = { id: 's1', data: { deviceToken: 'token-a' } };
+    const limited = [];
+    const middleware = floodPacketMiddleware(socket, guard, alice.address, (event, result, payload) => limited.push({ event, payload }));
+    const next = mock.fn();
+    const ack = mock.fn();
+
+    middleware(['typing', { roomId: 'room_1' }], next);
+    middleware(['typing', { roomId: 'room_1' }, ack], next);
+
+    assert.equal(next.mock.callCount(), 1);
+    assert.deepEqual(ack.mock.calls[0].arguments, [{ ok: false }]);
+    assert.deepEqual(limited, [{ event: 'typing', payload: { roomId: 'room_1' } }]);
+  });
+});
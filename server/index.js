@@ -1,11 +1,29 @@
 import express from 'express';
 import { createServer } from 'http';
 import { Server } from 'socket.io';
+import { createHash } from 'crypto';
+import { fileURLToPath } from 'url';
 import cors from 'cors';
 import dotenv from 'dotenv';
 import helmet from 'helmet';
 import rateLimit from 'express-rate-limit';
 import validator from 'validator';
+import { validatePayload, ERROR_CODES } from '../shared/protocol.js';
+import { createMatchQueue, createGroupQueue, normalizeInterests } from './matchmaking.js';
+import { createReportStore } from './reports.js';
+import { createBanList, appliesTo, banConnectionMiddleware, banPacketMiddleware } from './bans.js';
+import { createMetrics } from './metrics.js';
+import { createAdminRouter } from './admin.js';
+import { createStorage } from './storage/index.js';
+import { createSettings } from './settings.js';
+import { createTransferRegistry } from './transfers.js';
+import { createMediaStore, createMediaRouter } from './media.js';
+import { createSessionRegistry } from './sessions.js';
+import { createMessageSequencer } from './sequencer.js';
+import { createRoomRegistry } from './rooms.js';
+import { createCallRegistry, parseIceServers } from './calls.js';
+import { createContentFilter } from './filter.js';
+import { createFloodGuard, floodPacketMiddleware, connectionCapMiddleware } from './flood.js';
 
 dotenv.config();
 
@@ -22,7 +40,8 @@ app.use(cors());
 const limiter = rateLimit({
   windowMs: 15 * 60 * 1000, // 15 minutes
   max: 100, // Limit each IP to 100 requests per windowMs
-  message: 'Too many requests from this IP, please try again later.'
+  message: 'Too many requests from this IP, please try again later.',
+  skip: (req) => req.path.startsWith('/admin/') || req.path.startsWith('/media/')
 });
 app.use(limiter);
 
@@ -30,7 +49,7 @@ const httpServer = createServer(app);
 const io = new Server(httpServer, {
   pingTimeout: 20000,
   pingInterval: 25000,
-  maxHttpBufferSize: 5e7, // 50MB
+  maxHttpBufferSize: 1e6, // 1MB; files are sent in small chunks
   cors: {
     origin: "*", // Allow all origins for simplicity in dev
     methods: ["GET", "POST"]
@@ -38,32 +57,73 @@ const io = new Server(httpServer, {
 });
 
 // State
-let waitingQueue = []; // Array of socket objects
-const activeRooms = new Map(); // socketId -> roomId
+// How long a user waits for someone with shared interests before matching with anyone
+const MATCH_WIDEN_AFTER_MS = Number(process.env.MATCH_WIDEN_AFTER_MS) || 10000;
+const waitingQueue = createMatchQueue({ widenAfterMs: MATCH_WIDEN_AFTER_MS });
+// Shadow-banned users are only ever matched with each other
+const shadowQueue = createMatchQueue({ widenAfterMs: MATCH_WIDEN_AFTER_MS });
+// Group chats start once GROUP_MIN_SIZE people are waiting and take
+// newcomers until they hold GROUP_SIZE (3 to 8)
+const GROUP_MIN_SIZE = 3;
+const GROUP_SIZE = Math.min(Math.max(Number(process.env.GROUP_SIZE) || 5, GROUP_MIN_SIZE), 8);
+const groupQueue = createGroupQueue({ minSize: GROUP_MIN_SIZE });
+const shadowGroupQueue = createGroupQueue({ minSize: GROUP_MIN_SIZE });
+const rooms = createRoomRegistry();
+const calls = createCallRegistry();
+// STUN/TURN servers handed to clients for calls; see calls.js
+const ICE_SERVERS = parseIceServers(process.env.ICE_SERVERS);
 const publicKeys = new Map(); // socketId -> publicKey (for E2E encryption)
-const messageCounts = new Map(); // socketId -> { count, resetTime } for rate limiting
-
-// Rate limiting for socket messages
-const MESSAGE_RATE_LIMIT = 10; // messages per second
-const RATE_WINDOW = 1000; // 1 second
-
-function checkMessageRateLimit(socketId) {
-  const now = Date.now();
-  const record = messageCounts.get(socketId);
-
-  if (!record || now > record.resetTime) {
-    messageCounts.set(socketId, { count: 1, resetTime: now + RATE_WINDOW });
-    return true;
-  }
+const transfers = createTransferRegistry();
+const sequencer = createMessageSequencer();
+// Seats held open for members whose connection dropped, so they can resume
+const sessions = createSessionRegistry({
+  graceMs: Number(process.env.RESUME_GRACE_MS) || 30000
+});
+// Files sent in chats, kept on disk until they expire or their room ends
+const media = createMediaStore({
+  dir: process.env.MEDIA_DIR || fileURLToPath(new URL('./data/media', import.meta.url)),
+  ttlMs: Number(process.env.MEDIA_TTL_MS) || 15 * 60 * 1000, // 15 minutes
+  maxBytes: Number(process.env.MEDIA_MAX_BYTES) || 2 * 1024 * 1024 * 1024 // 2GB
+});
 
-  if (record.count >= MESSAGE_RATE_LIMIT) {
-    return false;
+// Durable state: bans, reports, moderation log, daily stats and settings
+const storage = createStorage({
+  driver: process.env.STORAGE_DRIVER || 'sqlite',
+  filename: process.env.DATABASE_PATH || fileURLToPath(new URL('./data/codxell.db', import.meta.url))
+});
+// Environment variables set the defaults; the admin API can override them at runtime
+const settings = createSettings({
+  storage,
+  defaults: {
+    reportWindowMs: Number(process.env.REPORT_WINDOW_MS) || 60 * 60 * 1000, // 1 hour
+    reportBanThreshold: Number(process.env.REPORT_BAN_THRESHOLD) || 3,
+    reportBanDurationMs: Number(process.env.REPORT_BAN_DURATION_MS) || 24 * 60 * 60 * 1000 // 24 hours
   }
+});
+const bans = createBanList({ storage });
+const reports = createReportStore({
+  storage,
+  policy: () => ({
+    windowMs: settings.get('reportWindowMs'),
+    autoBanThreshold: settings.get('reportBanThreshold')
+  })
+});
+const metrics = createMetrics({ names: ['connections', 'matches', 'reports', 'bans'] });
+// Word, link and spam rules for plaintext messages, reloaded when the file changes
+const filter = createContentFilter({
+  path: process.env.FILTER_RULES_PATH || fileURLToPath(new URL('./filter-rules.json', import.meta.url))
+});
 
-  record.count++;
-  return true;
+// Count an event both per minute (in memory) and per day (in storage)
+function countEvent(name) {
+  metrics.record(name);
+  storage.dailyStats.increment(new Date().toISOString().slice(0, 10), name);
 }
 
+// Per-event rate limits for sockets, with escalating cooldowns; see flood.js
+const floodGuard = createFloodGuard();
+const MAX_CONNECTIONS_PER_ADDRESS = Number(process.env.MAX_CONNECTIONS_PER_ADDRESS) || 10;
+
 // Input validation helper
 function sanitizeUsername(username) {
   if (!username || typeof username !== 'string') return 'Anonymous';
@@ -72,166 +132,874 @@ function sanitizeUsername(username) {
   return sanitized.substring(0, 50) || 'Anonymous';
 }
 
+function clientAddress(socket) {
+  return socket.handshake.address;
+}
+
+// What bans are matched against: the address plus the client's anonymous device token
+function clientIdentity(socket) {
+  return { address: clientAddress(socket), deviceToken: socket.data.deviceToken };
+}
+
+function rejectEvent(socket, event, code, message, details = {}) {
+  console.warn(`Rejected ${event} from ${socket.id}: ${code}`);
+  socket.emit('server_error', { code, event, message, ...details });
+}
+
+// Register a handler that only ever sees payloads matching the shared protocol schema.
+// Events sent with an acknowledgement get `ack` answered with { ok }.
+function onEvent(socket, event, handler) {
+  socket.on(event, (payload, ack) => {
+    const reply = typeof ack === 'function' ? ack : () => {};
+    const result = validatePayload(event, payload);
+    if (!result.ok) {
+      rejectEvent(socket, event, ERROR_CODES.INVALID_PAYLOAD, result.error);
+      reply({ ok: false });
+      return;
+    }
+    handler(result.value, reply);
+  });
+}
+
+// Resolve the room a socket may act on. The server's own mapping is
+// authoritative; a client-supplied roomId is only accepted if it matches.
+function authorizeRoom(socket, event, data) {
+  const roomId = rooms.roomOf(socket.id)?.roomId;
+  if (!roomId) {
+    rejectEvent(socket, event, ERROR_CODES.NOT_IN_ROOM, 'You are not in a chat.');
+    return null;
+  }
+
+  const claimedRoomId = data?.roomId;
+  if (claimedRoomId !== undefined && claimedRoomId !== roomId) {
+    rejectEvent(socket, event, ERROR_CODES.ROOM_MISMATCH, 'That chat is not yours.');
+    return null;
+  }
+
+  return roomId;
+}
+
+// Resolve the room for an event that changes a message, which only its author may do
+function authorizeAuthor(socket, event, data) {
+  const roomId = authorizeRoom(socket, event, data);
+  if (!roomId) return null;
+
+  if (rooms.authorOf(rooms.get(roomId), data.id)?.socketId !== socket.id) {
+    rejectEvent(socket, event, ERROR_CODES.FORBIDDEN, 'You can only change your own messages.');
+    return null;
+  }
+  return roomId;
+}
+
+// Group chats have no key exchange, so a sealed payload there can't come from a real client
+function checkSealable(socket, event, roomId, encrypted, code = ERROR_CODES.INVALID_PAYLOAD, extra) {
+  if (encrypted && rooms.get(roomId).mode === 'group') {
+    rejectEvent(socket, event, code, "Group chats aren't end-to-end encrypted.", extra);
+    return false;
+  }
+  return true;
+}
+
+// Resolve a file transfer in the socket's current room. `asSender` restricts
+// the event to the sending side (true) or the receiving side (false).
+function authorizeTransfer(socket, event, transferId, { asSender } = {}) {
+  const roomId = authorizeRoom(socket, event);
+  if (!roomId) return null;
+
+  const transfer = transfers.get(transferId);
+  const isSender = transfer?.senderId === socket.id;
+  if (!transfer || transfer.roomId !== roomId || (asSender !== undefined && isSender !== asSender)) {
+    rejectEvent(socket, event, ERROR_CODES.UNKNOWN_TRANSFER, 'No such file transfer.', { transferId });
+    return null;
+  }
+  return transfer;
+}
+
+// Resolve a call the socket is part of. `asCallee` restricts the event to the
+// callee (true) or the caller (false); `state` to ringing or active calls.
+function authorizeCall(socket, event, callId, { asCallee, state } = {}) {
+  const call = calls.get(callId);
+  const isCallee = call?.calleeId === socket.id;
+  if (!call || (!isCallee && call.callerId !== socket.id)
+    || (asCallee !== undefined && isCallee !== asCallee)
+    || (state !== undefined && call.state !== state)) {
+    rejectEvent(socket, event, ERROR_CODES.UNKNOWN_CALL, 'No such call.', { callId });
+    return null;
+  }
+  return call;
+}
+
+// Send an event to everyone else in the socket's room, buffering it for
+// members who are reconnecting. Returns whether anyone got it.
+function broadcast(socket, roomId, event, payload) {
+  let delivered = false;
+  for (const id of rooms.othersOf(socket.id)) {
+    if (!sessions.isHeld(id) || sessions.buffer(id, event, payload)) delivered = true;
+  }
+  socket.to(roomId).emit(event, payload);
+  return delivered;
+}
+
+// Broadcast on behalf of `sourceEvent`, which is rejected if nobody could take it
+function relayToRoom(socket, roomId, sourceEvent, event, payload) {
+  if (broadcast(socket, roomId, event, payload)) return true;
+  rejectEvent(socket, sourceEvent, ERROR_CODES.NO_PARTNER, "Nobody in this chat can receive more right now.");
+  return false;
+}
+
+// Reactions are relayed as they come: a bare emoji, or sealed when the chat is encrypted
+function relayReaction(socket, sourceEvent, event, data) {
+  const roomId = authorizeRoom(socket, sourceEvent, data);
+  if (!roomId) return;
+  const { id, emoji, encrypted } = data;
+  if (!checkSealable(socket, sourceEvent, roomId, encrypted)) return;
+  if (!emoji === !encrypted) {
+    rejectEvent(socket, sourceEvent, ERROR_CODES.INVALID_PAYLOAD, 'A reaction needs exactly one emoji.');
+    return;
+  }
+  relayToRoom(socket, roomId, sourceEvent, event, { id, memberId: rooms.memberOf(socket.id).memberId, emoji, encrypted });
+}
+
+// Send an event to one member, buffering it while they reconnect
+function sendToMember(socketId, event, payload) {
+  if (sessions.isHeld(socketId)) {
+    sessions.buffer(socketId, event, payload);
+  } else {
+    io.to(socketId).emit(event, payload);
+  }
+}
+
+function seat(socket, room) {
+  socket.join(room.roomId);
+  // Kept after the chat ends so users can still report someone who already left
+  socket.data.lastRoom = room;
+  return rooms.add(room.roomId, socket.id, {
+    name: socket.data.username,
+    profilePic: socket.data.profilePic,
+    identity: { socketId: socket.id, ...clientIdentity(socket) }
+  });
+}
+
+function startChat(socket, partnerSocket, sharedInterests) {
+  const room = rooms.create({ mode: 'pair', capacity: 2, shadow: Boolean(socket.data.bans.shadow) });
+  const { roomId } = room;
+  const member = seat(socket, room);
+  const partner = seat(partnerSocket, room);
+  countEvent('matches');
+
+  // Remembered so users can still report a partner who already left
+  socket.data.lastPartner = { socketId: partnerSocket.id, ...clientIdentity(partnerSocket), roomId };
+  partnerSocket.data.lastPartner = { socketId: socket.id, ...clientIdentity(socket), roomId };
+
+  // Emit chat_start with partner names, profile pics and shared interests
+  io.to(socket.id).emit('chat_start', {
+    roomId,
+    mode: 'pair',
+    partnerName: partnerSocket.data.username,
+    partnerProfilePic: partnerSocket.data.profilePic,
+    members: [rooms.profile(partner)],
+    sharedInterests,
+    resumeToken: sessions.issue(socket.id, roomId)
+  });
+  io.to(partnerSocket.id).emit('chat_start', {
+    roomId,
+    mode: 'pair',
+    partnerName: socket.data.username,
+    partnerProfilePic: socket.data.profilePic,
+    members: [rooms.profile(member)],
+    sharedInterests,
+    resumeToken: sessions.issue(partnerSocket.id, roomId)
+  });
+
+  console.log(`Matched ${socket.id} (${socket.data.username}) with ${partnerSocket.id} (${partnerSocket.data.username}) in ${roomId}`);
+}
+
+function groupStartPayload(room, socket) {
+  return {
+    roomId: room.roomId,
+    mode: 'group',
+    members: [...room.members.values()].filter(member => member.socketId !== socket.id).map(rooms.profile),
+    sharedInterests: [],
+    resumeToken: sessions.issue(socket.id, room.roomId)
+  };
+}
+
+function startGroup(sockets, shadow) {
+  const room = rooms.create({ mode: 'group', capacity: GROUP_SIZE, shadow });
+  for (const socket of sockets) {
+    socket.data.lastPartner = null;
+    seat(socket, room);
+  }
+  countEvent('matches');
+
+  for (const socket of sockets) {
+    io.to(socket.id).emit('chat_start', groupStartPayload(room, socket));
+  }
+  console.log(`Started group ${room.roomId} with ${sockets.map(socket => socket.id).join(', ')}`);
+}
+
+// Give a newcomer a free seat in a running group
+function joinGroup(socket, room) {
+  socket.data.lastPartner = null;
+  const member = seat(socket, room);
+  socket.emit('chat_start', groupStartPayload(room, socket));
+  broadcast(socket, room.roomId, 'member_joined', rooms.profile(member));
+  console.log(`User ${socket.id} (${socket.data.username}) joined group ${room.roomId}`);
+}
+
+// Seat people waiting for a group in the room's free seats
+function fillGroup(room) {
+  const queue = room.shadow ? shadowGroupQueue : groupQueue;
+  while (room.members.size < room.capacity) {
+    const socket = queue.next();
+    if (!socket) return;
+    joinGroup(socket, room);
+  }
+}
+
+function closeRoom(room) {
+  for (const socketId of room.members.keys()) {
+    io.sockets.sockets.get(socketId)?.leave(room.roomId);
+    publicKeys.delete(socketId);
+  }
+  rooms.remove(room.roomId);
+  calls.removeForRoom(room.roomId);
+  transfers.removeForRoom(room.roomId);
+  media.removeForRoom(room.roomId);
+  sessions.removeForRoom(room.roomId);
+  sequencer.removeRoom(room.roomId);
+}
+
+// Take a socket out of its chat. A group carries on while at least two
+// members remain; otherwise the room is torn down and whoever is left is told.
+function leaveRoom(socket) {
+  const room = rooms.roomOf(socket.id);
+  if (!room) return null;
+  const { roomId } = room;
+  socket.leave(roomId);
+
+  if (room.mode === 'group' && room.members.size > 2) {
+    broadcast(socket, roomId, 'member_left', { memberId: rooms.memberOf(socket.id).memberId });
+    rooms.removeMember(socket.id);
+    sessions.revoke(socket.id);
+    for (const transferId of transfers.removeForSender(socket.id)) media.abort(transferId);
+    fillGroup(room);
+    return { roomId, ended: false };
+  }
+
+  socket.to(roomId).emit('partner_disconnected');
+  closeRoom(room);
+  return { roomId, ended: true };
+}
+
+// End a room on behalf of a moderator, telling every member the others left
+function endRoom(roomId) {
+  const room = rooms.get(roomId);
+  if (!room) return false;
+
+  io.to(roomId).emit('partner_disconnected');
+  closeRoom(room);
+  return true;
+}
+
+// Hold a dropped socket's seat for the grace period, taking it out of the
+// chat if it isn't resumed in time. Returns false if there is nothing worth
+// holding, i.e. nobody else in the room is still connected.
+function holdSeat(socket) {
+  const room = rooms.roomOf(socket.id);
+  if (!rooms.othersOf(socket.id).some(id => !sessions.isHeld(id))) return false;
+
+  const { username, profilePic, interests, lastPartner, lastRoom } = socket.data;
+  const held = sessions.hold(socket.id, { username, profilePic, interests, lastPartner, lastRoom }, () => {
+    publicKeys.delete(socket.id);
+    const left = leaveRoom(socket);
+    console.log(`User ${socket.id} did not reconnect, ${left?.ended ? 'closed' : 'left'} room ${room.roomId}`);
+  });
+  if (held) broadcast(socket, room.roomId, 'partner_reconnecting', { memberId: rooms.memberOf(socket.id).memberId });
+  return held;
+}
+
+// Put a reconnected socket back in the chat it dropped out of, then replay
+// what was sent to it in the meantime
+function resumeSeat(socket, token) {
+  // The client can notice a dead connection before the server does
+  const staleId = sessions.socketFor(token);
+  if (staleId && !sessions.isHeld(staleId)) {
+    io.sockets.sockets.get(staleId)?.disconnect(true);
+  }
+
+  const resumed = sessions.resume(token, socket.id);
+  if (!resumed) {
+    socket.emit('session_expired');
+    return;
+  }
+
+  const { roomId, previousSocketId, data, events } = resumed;
+  Object.assign(socket.data, data);
+  rooms.moveSocket(previousSocketId, socket.id);
+  if (publicKeys.has(previousSocketId)) {
+    publicKeys.set(socket.id, publicKeys.get(previousSocketId));
+    publicKeys.delete(previousSocketId);
+  }
+  transfers.reassign(previousSocketId, socket.id);
+  calls.reassign(previousSocketId, socket.id);
+
+  for (const id of rooms.othersOf(socket.id)) {
+    const lastPartner = io.sockets.sockets.get(id)?.data.lastPartner;
+    if (lastPartner?.socketId === previousSocketId) lastPartner.socketId = socket.id;
+  }
+
+  socket.join(roomId);
+  socket.emit('session_resumed');
+  for (const [event, payload] of events) socket.emit(event, payload);
+  broadcast(socket, roomId, 'partner_reconnected', { memberId: rooms.memberOf(socket.id).memberId });
+  console.log(`User ${socket.id} resumed ${previousSocketId}'s seat in ${roomId}, replayed ${events.length} events`);
+}
+
+function leaveQueue(socket) {
+  waitingQueue.remove(socket.id);
+  shadowQueue.remove(socket.id);
+  groupQueue.remove(socket.id);
+  shadowGroupQueue.remove(socket.id);
+}
+
+function isQueued(socketId) {
+  return [waitingQueue, shadowQueue, groupQueue, shadowGroupQueue].some(queue => queue.has(socketId));
+}
+
+// Kick a banned socket out of its chat and queue. The socket stays connected
+// so the client can show the ban instead of reconnecting in a loop.
+function enforceBan(socket, ban) {
+  leaveRoom(socket);
+  leaveQueue(socket);
+  socket.emit('banned', { reason: ban.reason, expiresAt: ban.expiresAt });
+}
+
+// Re-read the cached ban state of every connected socket `affected` picks
+function refreshBans(affected) {
+  const refreshed = [];
+  for (const socket of io.sockets.sockets.values()) {
+    if (!affected(socket)) continue;
+    socket.data.bans = bans.check(clientIdentity(socket));
+    refreshed.push(socket);
+  }
+  return refreshed;
+}
+
+// Add a ban, log it and apply it to every connected socket it matches
+function banClient({ actor, ...options }) {
+  const ban = bans.add(options);
+  countEvent('bans');
+  storage.moderationActions.insert({ actor, action: 'ban', target: ban.id, details: ban });
+  for (const socket of refreshBans(socket => appliesTo(ban, clientIdentity(socket)))) {
+    if (ban.kind === 'ban') enforceBan(socket, socket.data.bans.ban);
+  }
+  console.warn(`Added ${ban.kind} ${ban.id} for ${ban.address || ban.deviceToken}: ${ban.reason}`);
+  return ban;
+}
+
+// Lift a ban early. Returns false if there was no such ban.
+function unbanClient(banId) {
+  if (!bans.remove(banId)) return false;
+  refreshBans(socket => Object.values(socket.data.bans).some(ban => ban?.id === banId));
+  return true;
+}
+
+// Run plaintext through the content filter. Returns the text to relay, or
+// null if the message was blocked; the sender is told either way.
+function filterText(socket, event, text, clientId) {
+  const result = filter.check({ socketId: socket.id, address: clientAddress(socket), text, clientId });
+  if (result.autoBan) {
+    banClient({
+      actor: 'system',
+      ...clientIdentity(socket),
+      kind: result.autoBan.kind,
+      reason: 'Repeatedly breaking the chat filter',
+      durationMs: result.autoBan.durationMs
+    });
+  }
+  if (result.blocked) {
+    rejectEvent(socket, event, ERROR_CODES.MESSAGE_BLOCKED, result.blocked);
+    return null;
+  }
+  for (const warning of result.warnings) socket.emit('system_notice', { message: warning });
+  return result.text;
+}
+
+function formatExpiry(expiresAt) {
+  return expiresAt === null ? 'permanently' : `until ${new Date(expiresAt).toISOString()}`;
+}
+
+// The admin console polls, so it gets its own limiter instead of the general one
+const adminLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 120
+});
+app.use('/admin', adminLimiter, createAdminRouter({
+  apiKey: process.env.ADMIN_API_KEY,
+  state: {
+    stats: () => ({
+      queueLength: waitingQueue.size(),
+      shadowQueueLength: shadowQueue.size(),
+      activeRooms: rooms.size(),
+      connectedSockets: io.sockets.sockets.size,
+      openReports: reports.list({ status: 'open' }).length
+    }),
+    rooms: () => rooms.list().map(room => ({
+      roomId: room.roomId,
+      members: [...room.members.values()].map(member => ({ socketId: member.socketId, username: member.name }))
+    })),
+    sockets: () => [...io.sockets.sockets.values()].map(socket => ({
+      socketId: socket.id,
+      username: socket.data.username || null,
+      ...clientIdentity(socket),
+      roomId: rooms.roomOf(socket.id)?.roomId || null,
+      queued: isQueued(socket.id),
+      connectedAt: socket.data.connectedAt
+    })),
+    identify: (socketId) => {
+      const socket = io.sockets.sockets.get(socketId);
+      return socket ? clientIdentity(socket) : null;
+    },
+    endRoom,
+    ban: (options) => banClient({ actor: 'admin', ...options }),
+    unban: unbanClient,
+    broadcast: (message) => io.emit('system_notice', { message }),
+    reports,
+    bans,
+    metrics,
+    settings,
+    moderationActions: storage.moderationActions,
+    dailyStats: storage.dailyStats
+  }
+}));
+
+// Chats can hold many files, so downloads get their own limiter too
+const mediaLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 300
+});
+app.use('/media', createMediaRouter(media, { roomFor: sessions.roomFor, limiter: mediaLimiter }));
+
+io.use(banConnectionMiddleware(bans, clientIdentity));
+// Last, so a refused connection is never counted as open
+io.use(connectionCapMiddleware({ maxPerAddress: MAX_CONNECTIONS_PER_ADDRESS, clientAddress }));
+
 io.on('connection', (socket) => {
   console.log('User connected:', socket.id);
+  socket.data.connectedAt = Date.now();
+  countEvent('connections');
+
+  // Checked on every event, against the ban state banClient keeps up to date, so
+  // bans issued mid-session apply immediately
+  socket.use(banPacketMiddleware(socket, bans, clientIdentity, (ban, event, payload) => {
+    if (ban.kind !== 'mute') {
+      enforceBan(socket, ban);
+      return;
+    }
+    const message = `You are muted ${formatExpiry(ban.expiresAt)} (${ban.reason}).`;
+    // Uploads in progress end with the mute; naming the transfer lets the sender give up on it
+    if (event === 'file_chunk') {
+      for (const transferId of transfers.removeForSender(socket.id)) media.abort(transferId);
+      const chunk = validatePayload('file_chunk', payload);
+      rejectEvent(socket, event, ERROR_CODES.MUTED, message, chunk.ok ? { transferId: chunk.value.transferId } : {});
+      return;
+    }
+    rejectEvent(socket, event, ERROR_CODES.MUTED, message);
+  }));
+  socket.use(floodPacketMiddleware(socket, floodGuard, clientAddress(socket), (event, { retryAfterMs, cooldown }, payload) => {
+    // A dropped chunk would otherwise wait out the sender's ack timeout
+    if (event === 'file_chunk') {
+      const chunk = validatePayload('file_chunk', payload);
+      if (chunk.ok) socket.emit('file_chunk_ack', { transferId: chunk.value.transferId, index: chunk.value.index, ok: false, retryAfterMs });
+      return;
+    }
+    // Dropping excess typing indicators and the like needs no explanation
+    if (!cooldown) return;
+    console.warn(`Rate limited ${event} from ${socket.id} for ${retryAfterMs}ms`);
+    socket.emit('rate_limit_exceeded', {
+      event,
+      retryAfterMs,
+      message: `You're doing that too fast. Try again in ${Math.ceil(retryAfterMs / 1000)} seconds.`
+    });
+  }));
+
+  const { resumeToken } = socket.handshake.auth || {};
+  if (socket.data.bans.ban) {
+    enforceBan(socket, socket.data.bans.ban);
+  } else if (typeof resumeToken === 'string') {
+    resumeSeat(socket, resumeToken);
+  }
 
-  socket.on('join_queue', (data) => {
-    const { username, profilePic } = data || {};
+  onEvent(socket, 'join_queue', (data) => {
+    const { username, profilePic, interests, mode = 'pair' } = data || {};
     socket.data.username = sanitizeUsername(username);
     socket.data.profilePic = profilePic;
+    socket.data.interests = normalizeInterests(interests);
 
     // If user is already in an active room, don't allow joining queue
-    if (activeRooms.has(socket.id)) {
+    if (rooms.roomOf(socket.id)) {
       console.log(`User ${socket.id} tried to join queue while in active room`);
       return;
     }
 
     // If user is already in queue, don't add again
-    if (waitingQueue.find(s => s.id === socket.id)) {
+    if (isQueued(socket.id)) {
       console.log(`User ${socket.id} already in queue`);
       return;
     }
 
-    if (waitingQueue.length > 0) {
-      const partnerSocket = waitingQueue.shift();
-      const roomId = `room_${socket.id}_${partnerSocket.id}`;
-
-      socket.join(roomId);
-      partnerSocket.join(roomId);
-
-      activeRooms.set(socket.id, roomId);
-      activeRooms.set(partnerSocket.id, roomId);
-
-      // Emit chat_start with partner names and profile pics
-      io.to(socket.id).emit('chat_start', {
-        roomId,
-        partnerName: partnerSocket.data.username,
-        partnerProfilePic: partnerSocket.data.profilePic
-      });
-      io.to(partnerSocket.id).emit('chat_start', {
-        roomId,
-        partnerName: socket.data.username,
-        partnerProfilePic: socket.data.profilePic
-      });
+    // Groups ignore interests: newcomers fill the fullest open group, or wait for enough others
+    if (mode === 'group') {
+      const shadow = Boolean(socket.data.bans.shadow);
+      // Skipping a group shouldn't land you straight back in it
+      const open = rooms.openGroup(shadow, socket.data.lastRoom?.roomId);
+      if (open) {
+        joinGroup(socket, open);
+        return;
+      }
+      const group = (shadow ? shadowGroupQueue : groupQueue).enqueue(socket);
+      if (group) {
+        startGroup(group, shadow);
+      } else {
+        console.log(`User ${socket.id} (${socket.data.username}) added to group queue`);
+      }
+      return;
+    }
 
-      console.log(`Matched ${socket.id} (${socket.data.username}) with ${partnerSocket.id} (${partnerSocket.data.username}) in ${roomId}`);
+    const queue = socket.data.bans.shadow ? shadowQueue : waitingQueue;
+    const match = queue.enqueue(socket, socket.data.interests);
+    if (match) {
+      startChat(socket, match.partner, match.sharedInterests);
     } else {
-      waitingQueue.push(socket);
-      console.log(`User ${socket.id} (${socket.data.username}) added to queue`);
+      console.log(`User ${socket.id} (${socket.data.username}) added to queue with interests [${socket.data.interests.join(', ')}]`);
     }
   });
 
   // Key exchange for E2E encryption
-  socket.on('exchange_keys', (data) => {
-    const { publicKey } = data;
-    if (publicKey && typeof publicKey === 'string') {
-      publicKeys.set(socket.id, publicKey);
-
-      // Send public key to partner if in a room
-      const roomId = activeRooms.get(socket.id);
-      if (roomId) {
-        socket.to(roomId).emit('partner_public_key', { publicKey });
-      }
+  onEvent(socket, 'exchange_keys', (data) => {
+    const { publicKey, version } = data;
+    publicKeys.set(socket.id, publicKey);
+
+    // Send public key to partner if in a room. Keys are pairwise, so group
+    // chats aren't end-to-end encrypted.
+    const room = rooms.roomOf(socket.id);
+    if (room?.mode === 'pair') {
+      // Relay the protocol version so clients can detect incompatible peers
+      relayToRoom(socket, room.roomId, 'exchange_keys', 'partner_public_key', { publicKey, version });
     }
   });
 
-  socket.on('send_message', (data) => {
-    // Rate limiting
-    if (!checkMessageRateLimit(socket.id)) {
-      socket.emit('rate_limit_exceeded', { message: 'Sending messages too fast. Please slow down.' });
+  onEvent(socket, 'send_message', (data, ack) => {
+    const roomId = authorizeRoom(socket, 'send_message', data);
+    if (!roomId) {
+      ack({ ok: false });
       return;
     }
 
-    const { roomId, text, sender, type, fileContent, fileType, id, replyTo, encrypted } = data;
-    socket.to(roomId).emit('receive_message', {
+    const { type, clientId, encrypted } = data;
+    if (!checkSealable(socket, 'send_message', roomId, encrypted)) {
+      ack({ ok: false });
+      return;
+    }
+    // Encrypted messages can't be read here, so only plaintext is filtered; see filter.js.
+    // Their content is all in the envelope, so plaintext next to it is never relayed.
+    const text = encrypted ? undefined : filterText(socket, 'send_message', data.text, clientId);
+    const replyTo = encrypted ? undefined : data.replyTo;
+    if (text === null) {
+      ack({ ok: false });
+      return;
+    }
+
+    const { memberId } = rooms.memberOf(socket.id);
+    const { id, seq } = sequencer.stamp(roomId, clientId);
+    rooms.recordAuthor(roomId, id, memberId);
+    const relayed = relayToRoom(socket, roomId, 'send_message', 'receive_message', {
       text,
       sender: 'other',
-      id: id || Date.now(),
-      type: type || 'text',
-      fileContent,
-      fileType,
+      memberId,
+      id,
+      seq,
+      type,
       replyTo,
       encrypted // Pass through encrypted data
     });
+    // The sender gets the masked text back so their copy matches what was relayed
+    ack(relayed ? { ok: true, id, seq, ...(!encrypted && text !== data.text && { text }) } : { ok: false });
+  });
+
+  // Delivery and read receipts, sent by the receiving client and passed on
+  // to whoever sent each message, if they are still in the chat
+  onEvent(socket, 'message_receipt', (data) => {
+    const roomId = authorizeRoom(socket, 'message_receipt', data);
+    if (!roomId) return;
+    const room = rooms.get(roomId);
+    const bySender = new Map(); // socketId -> message IDs
+    for (const id of data.ids) {
+      const author = rooms.authorOf(room, id);
+      if (!author || author.socketId === socket.id || !room.members.has(author.socketId)) continue;
+      if (!bySender.has(author.socketId)) bySender.set(author.socketId, []);
+      bySender.get(author.socketId).push(id);
+    }
+    for (const [socketId, ids] of bySender) {
+      sendToMember(socketId, 'message_receipt', { ids, status: data.status });
+    }
+  });
+
+  // Files are uploaded to the server chunk by chunk, each acked once it is on
+  // disk. When the last one arrives the partner gets a message with a link.
+  onEvent(socket, 'file_offer', (data) => {
+    const roomId = authorizeRoom(socket, 'file_offer', data);
+    if (!roomId) return;
+
+    const { transferId, fileType, mimeType, size, chunkCount, encrypted } = data;
+    if (!checkSealable(socket, 'file_offer', roomId, encrypted, ERROR_CODES.TRANSFER_REJECTED, { transferId })) return;
+    // The name travels in the envelope when the file is encrypted
+    const text = encrypted ? undefined : data.text;
+    const error = transfers.offer({
+      transferId,
+      roomId,
+      senderId: socket.id,
+      size,
+      chunkCount,
+      message: { fileType, mimeType, text, encrypted }
+    }) || media.begin({ transferId, roomId, size, chunkCount, mimeType, encrypted: Boolean(encrypted) });
+    if (error) {
+      transfers.remove(transferId);
+      rejectEvent(socket, 'file_offer', ERROR_CODES.TRANSFER_REJECTED, error, { transferId });
+    }
+  });
+
+  onEvent(socket, 'file_chunk', (data) => {
+    const transfer = authorizeTransfer(socket, 'file_chunk', data.transferId, { asSender: true });
+    if (!transfer) return;
+    const { transferId, index, iv, hash, data: chunk } = data;
+    // Chunks of encrypted files carry an IV, and only those
+    if (index >= transfer.chunkCount || Boolean(iv) !== Boolean(transfer.message.encrypted)) {
+      rejectEvent(socket, 'file_chunk', ERROR_CODES.INVALID_PAYLOAD, 'Chunk does not match the transfer.', { transferId });
+      return;
+    }
+
+    // A failed check asks the sender to send the chunk again
+    const intact = createHash('sha256').update(chunk).digest('hex') === hash;
+    const error = intact ? media.write(transferId, index, iv, chunk) : 'hash mismatch';
+    if (error) {
+      console.warn(`Rejected chunk ${index} of ${transferId}: ${error}`);
+    } else {
+      transfer.received.add(index);
+    }
+    socket.emit('file_chunk_ack', { transferId, index, ok: !error });
+  });
+
+  onEvent(socket, 'file_complete', (data) => {
+    const transfer = authorizeTransfer(socket, 'file_complete', data.transferId, { asSender: true });
+    if (!transfer) return;
+    const { transferId, roomId, size, message } = transfer;
+    transfers.remove(transferId);
+    if (transfer.received.size < transfer.chunkCount) {
+      media.abort(transferId);
+      rejectEvent(socket, 'file_complete', ERROR_CODES.TRANSFER_REJECTED, 'Part of the file never arrived.', { transferId });
+      return;
+    }
+
+    const stored = media.finish(transferId);
+    const reference = { url: `/media/${stored.id}`, transferId, size, mimeType: message.mimeType, expiresAt: stored.expiresAt };
+    const { memberId } = rooms.memberOf(socket.id);
+    const { id, seq } = sequencer.stamp(roomId, transferId);
+    rooms.recordAuthor(roomId, id, memberId);
+    socket.emit('file_stored', { transferId, media: reference, id, seq });
+    relayToRoom(socket, roomId, 'file_complete', 'receive_message', {
+      text: message.text,
+      sender: 'other',
+      memberId,
+      id,
+      seq,
+      type: 'file',
+      fileType: message.fileType,
+      media: reference,
+      encrypted: message.encrypted
+    });
   });
 
-  socket.on('typing', (data) => {
-    const { roomId } = data;
-    socket.to(roomId).emit('typing');
+  onEvent(socket, 'file_cancel', (data) => {
+    const transfer = authorizeTransfer(socket, 'file_cancel', data.transferId, { asSender: true });
+    if (!transfer) return;
+    transfers.remove(transfer.transferId);
+    media.abort(transfer.transferId);
   });
 
-  socket.on('stop_typing', (data) => {
-    const { roomId } = data;
-    socket.to(roomId).emit('stop_typing');
+  // Calls: nothing reaches the callee but the invite until they accept
+  onEvent(socket, 'call_invite', (data) => {
+    const roomId = authorizeRoom(socket, 'call_invite', data);
+    if (!roomId) return;
+
+    const { callId, kind } = data;
+    const [calleeId] = rooms.othersOf(socket.id);
+    const error = rooms.get(roomId).mode !== 'pair'
+      ? 'Calls are only available in one-on-one chats.'
+      : sessions.isHeld(calleeId)
+        ? 'Stranger is reconnecting. Try again in a moment.'
+        : calls.invite({ callId, roomId, kind, callerId: socket.id, calleeId });
+    if (error) {
+      rejectEvent(socket, 'call_invite', ERROR_CODES.CALL_REJECTED, error, { callId });
+      return;
+    }
+    io.to(calleeId).emit('call_invite', { callId, kind, iceServers: ICE_SERVERS });
   });
 
-  socket.on('edit_message', (data) => {
-    const { roomId, id, text } = data;
-    socket.to(roomId).emit('message_edited', { id, text });
+  onEvent(socket, 'call_accept', (data) => {
+    const call = authorizeCall(socket, 'call_accept', data.callId, { asCallee: true, state: 'ringing' });
+    if (!call) return;
+    calls.accept(call.callId);
+    io.to(call.callerId).emit('call_accepted', { callId: call.callId, iceServers: ICE_SERVERS });
   });
 
-  socket.on('delete_message', (data) => {
-    const { roomId, id } = data;
-    socket.to(roomId).emit('message_deleted', { id });
+  onEvent(socket, 'call_decline', (data) => {
+    const call = authorizeCall(socket, 'call_decline', data.callId, { asCallee: true, state: 'ringing' });
+    if (!call) return;
+    calls.remove(call.callId);
+    io.to(call.callerId).emit('call_declined', { callId: call.callId });
   });
 
-  socket.on('skip', () => {
-    const roomId = activeRooms.get(socket.id);
-    if (roomId) {
-      // Find partner's socket ID from the room
-      const partnerId = Array.from(activeRooms.entries())
-        .find(([id, room]) => room === roomId && id !== socket.id)?.[0];
+  // Either side hanging up, including the caller giving up before an answer
+  onEvent(socket, 'call_end', (data) => {
+    const call = authorizeCall(socket, 'call_end', data.callId);
+    if (!call) return;
+    calls.remove(call.callId);
+    io.to(calls.peerOf(call, socket.id)).emit('call_ended', { callId: call.callId });
+  });
 
-      // Notify partner
-      socket.to(roomId).emit('partner_disconnected');
+  onEvent(socket, 'call_signal', (data) => {
+    const call = authorizeCall(socket, 'call_signal', data.callId, { state: 'active' });
+    if (!call) return;
+    const { callId, description, candidate } = data;
+    io.to(calls.peerOf(call, socket.id)).emit('call_signal', { callId, description, candidate });
+  });
 
-      // Clean up both sides
-      socket.leave(roomId);
-      activeRooms.delete(socket.id);
+  onEvent(socket, 'typing', (data) => {
+    const roomId = authorizeRoom(socket, 'typing', data);
+    if (!roomId) return;
+    socket.to(roomId).emit('typing', { memberId: rooms.memberOf(socket.id).memberId });
+  });
 
-      if (partnerId) {
-        activeRooms.delete(partnerId);
-        console.log(`Cleaned up room ${roomId} for both ${socket.id} and ${partnerId}`);
-      }
+  onEvent(socket, 'stop_typing', (data) => {
+    const roomId = authorizeRoom(socket, 'stop_typing', data);
+    if (!roomId) return;
+    socket.to(roomId).emit('stop_typing', { memberId: rooms.memberOf(socket.id).memberId });
+  });
+
+  onEvent(socket, 'edit_message', (data) => {
+    const roomId = authorizeAuthor(socket, 'edit_message', data);
+    if (!roomId) return;
+    const { id, encrypted } = data;
+    if (!checkSealable(socket, 'edit_message', roomId, encrypted)) return;
+    const text = encrypted ? undefined : filterText(socket, 'edit_message', data.text);
+    if (text === null) return;
+    relayToRoom(socket, roomId, 'edit_message', 'message_edited', { id, memberId: rooms.memberOf(socket.id).memberId, text, encrypted });
+  });
+
+  onEvent(socket, 'delete_message', (data) => {
+    const roomId = authorizeAuthor(socket, 'delete_message', data);
+    if (!roomId) return;
+    const { id } = data;
+    relayToRoom(socket, roomId, 'delete_message', 'message_deleted', { id, memberId: rooms.memberOf(socket.id).memberId });
+  });
+
+  onEvent(socket, 'react_message', (data) => relayReaction(socket, 'react_message', 'message_reacted', data));
+  onEvent(socket, 'unreact_message', (data) => relayReaction(socket, 'unreact_message', 'message_unreacted', data));
+
+  onEvent(socket, 'report_message', (data) => {
+    // Whoever sent the message, falling back to the last one-on-one partner
+    const room = rooms.roomOf(socket.id) || socket.data.lastRoom;
+    const author = room && rooms.authorOf(room, data.messageId);
+    const reported = author && author.socketId !== socket.id
+      ? { ...author.identity, roomId: room.roomId }
+      : socket.data.lastPartner;
+    if (!reported) {
+      rejectEvent(socket, 'report_message', ERROR_CODES.NO_PARTNER, 'There is nobody to report.');
+      return;
+    }
+
+    const { report, shouldBan } = reports.add({
+      reporter: { socketId: socket.id, ...clientIdentity(socket) },
+      reported,
+      roomId: reported.roomId,
+      messageId: data.messageId,
+      reason: data.reason,
+      excerpt: data.excerpt
+    });
+    console.log(`Report ${report.id}: ${socket.id} reported ${reported.socketId} for ${report.reason}`);
+    countEvent('reports');
+    socket.emit('report_received', { reportId: report.id });
+
+    // Only the device: an address ban would also catch everyone behind the same NAT
+    if (shouldBan && !bans.check({ deviceToken: reported.deviceToken }).ban) {
+      banClient({
+        actor: 'system',
+        deviceToken: reported.deviceToken,
+        kind: 'ban',
+        reason: 'Repeated reports',
+        durationMs: settings.get('reportBanDurationMs')
+      });
+    }
+  });
+
+  onEvent(socket, 'skip', () => {
+    const left = leaveRoom(socket);
+    if (left) {
+      console.log(`User ${socket.id} ${left.ended ? 'closed' : 'left'} room ${left.roomId}`);
     }
 
     // Remove from queue if they were waiting
-    waitingQueue = waitingQueue.filter(s => s.id !== socket.id);
+    leaveQueue(socket);
 
     console.log(`User ${socket.id} skipped, removed from room and queue`);
   });
 
-  socket.on('disconnect', () => {
-    console.log('User disconnected:', socket.id);
+  socket.on('disconnect', (reason) => {
+    console.log('User disconnected:', socket.id, reason);
 
     // Remove from queue
-    waitingQueue = waitingQueue.filter(s => s.id !== socket.id);
+    leaveQueue(socket);
+    floodGuard.forget(socket.id);
+    filter.forget(socket.id);
+
+    // A dropped connection keeps its seat for a while; leaving on purpose doesn't
+    if (reason !== 'client namespace disconnect' && holdSeat(socket)) {
+      console.log(`Holding ${socket.id}'s seat in ${rooms.roomOf(socket.id).roomId}`);
+      return;
+    }
 
     // Clean up encryption keys
     publicKeys.delete(socket.id);
-    messageCounts.delete(socket.id);
 
-    // Notify partner if in room and clean up both sides
-    const roomId = activeRooms.get(socket.id);
-    if (roomId) {
-      // Find partner's socket ID from the room
-      const partnerId = Array.from(activeRooms.entries())
-        .find(([id, room]) => room === roomId && id !== socket.id)?.[0];
+    // Notify the rest of the room, closing it if too few are left
+    const left = leaveRoom(socket);
+    if (left) {
+      console.log(`User ${socket.id} disconnected, ${left.ended ? 'closed' : 'left'} room ${left.roomId}`);
+    }
+  });
+});
 
-      // Notify partner
-      socket.to(roomId).emit('partner_disconnected');
+// Fall back to random matching for users who waited too long for shared interests
+setInterval(() => {
+  for (const queue of [waitingQueue, shadowQueue]) {
+    for (const [socket, partnerSocket, sharedInterests] of queue.widen()) {
+      startChat(socket, partnerSocket, sharedInterests);
+    }
+  }
+}, 1000);
 
-      // Clean up both sides
-      activeRooms.delete(socket.id);
+// Expired files are deleted even if their room is still going
+setInterval(() => media.sweep(), 60 * 1000);
 
-      if (partnerId) {
-        activeRooms.delete(partnerId);
-        publicKeys.delete(partnerId);
-        console.log(`User ${socket.id} disconnected, cleaned up room ${roomId} for both users`);
-      }
-    }
+// Close the database cleanly so the WAL is checkpointed
+for (const signal of ['SIGINT', 'SIGTERM']) {
+  process.on(signal, () => {
+    storage.close();
+    process.exit(0);
   });
-});
+}
 
 const PORT = process.env.PORT || 3000;
 httpServer.listen(PORT, () => {
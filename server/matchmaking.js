@@ -0,0 +1,168 @@
+import { LIMITS } from '../shared/protocol.js';
+
+/**
+ * Waiting queue with interest-tag matching.
+ *
+ * Users who share an interest are paired first. Users without interests, and
+ * tagged users who have waited longer than `widenAfterMs`, go into an open
+ * pool and are matched with whoever else is in it, oldest first.
+ *
+ * Lookups go through a tag -> waiting users index, so matching cost depends on
+ * how many users share a tag rather than on the total queue length.
+ */
+
+// Cap on candidates inspected per tag, so a hugely popular tag stays cheap
+const MAX_CANDIDATES_PER_TAG = 200;
+
+export function normalizeInterests(interests) {
+  if (!Array.isArray(interests)) return [];
+  const normalized = interests
+    .map(tag => String(tag).trim().toLowerCase().replace(/^#/, '').replace(/\s+/g, ' '))
+    .filter(tag => tag.length > 0);
+  return [...new Set(normalized)].slice(0, LIMITS.INTERESTS);
+}
+
+export function createMatchQueue({ widenAfterMs }) {
+  const entries = new Map(); // socketId -> { socket, interests, enqueuedAt }, oldest first
+  const tagIndex = new Map(); // tag -> Set of socketIds, oldest first
+  const openPool = new Map(); // socketId -> entry, users who accept any partner
+
+  function has(socketId) {
+    return entries.has(socketId);
+  }
+
+  function size() {
+    return entries.size;
+  }
+
+  function remove(socketId) {
+    const entry = entries.get(socketId);
+    if (!entry) return false;
+
+    entries.delete(socketId);
+    openPool.delete(socketId);
+    for (const tag of entry.interests) {
+      const waiting = tagIndex.get(tag);
+      waiting?.delete(socketId);
+      if (waiting?.size === 0) tagIndex.delete(tag);
+    }
+    return true;
+  }
+
+  // Best partner by number of shared interests, oldest on ties
+  function findInterestMatch(interests) {
+    const overlap = new Map();
+    for (const tag of interests) {
+      const waiting = tagIndex.get(tag);
+      if (!waiting) continue;
+      let scanned = 0;
+      for (const socketId of waiting) {
+        overlap.set(socketId, (overlap.get(socketId) || 0) + 1);
+        if (++scanned >= MAX_CANDIDATES_PER_TAG) break;
+      }
+    }
+
+    let best = null;
+    for (const [socketId, count] of overlap) {
+      const entry = entries.get(socketId);
+      if (!best || count > best.count || (count === best.count && entry.enqueuedAt < best.entry.enqueuedAt)) {
+        best = { entry, count };
+      }
+    }
+    return best?.entry || null;
+  }
+
+  function oldestOpen(excludeId) {
+    for (const [socketId, entry] of openPool) {
+      if (socketId !== excludeId) return entry;
+    }
+    return null;
+  }
+
+  function sharedInterests(a, b) {
+    return a.filter(tag => b.includes(tag));
+  }
+
+  /**
+   * Match the socket with a waiting user, or queue it.
+   * Returns { partner, sharedInterests } on a match, null if queued.
+   */
+  function enqueue(socket, interests) {
+    const partner = interests.length > 0 ? findInterestMatch(interests) : oldestOpen(socket.id);
+    if (partner) {
+      remove(partner.socket.id);
+      return { partner: partner.socket, sharedInterests: sharedInterests(interests, partner.interests) };
+    }
+
+    const entry = { socket, interests, enqueuedAt: Date.now() };
+    entries.set(socket.id, entry);
+    for (const tag of interests) {
+      if (!tagIndex.has(tag)) tagIndex.set(tag, new Set());
+      tagIndex.get(tag).add(socket.id);
+    }
+    if (interests.length === 0) openPool.set(socket.id, entry);
+    return null;
+  }
+
+  /**
+   * Move tagged users who waited too long into the open pool and pair up
+   * everyone in it. Returns the new pairs as [socketA, socketB, sharedInterests].
+   */
+  function widen(now = Date.now()) {
+    const cutoff = now - widenAfterMs;
+    for (const [socketId, entry] of entries) {
+      if (entry.enqueuedAt > cutoff) break;
+      openPool.set(socketId, entry);
+    }
+
+    const pairs = [];
+    while (openPool.size >= 2) {
+      const [first, second] = openPool.values();
+      remove(first.socket.id);
+      remove(second.socket.id);
+      pairs.push([first.socket, second.socket, sharedInterests(first.interests, second.interests)]);
+    }
+    return pairs;
+  }
+
+  return { enqueue, remove, has, size, widen };
+}
+
+/**
+ * Waiting list for group chats. Interests are ignored; once `minSize` people
+ * are waiting they start a group together, oldest first.
+ */
+export function createGroupQueue({ minSize }) {
+  const waiting = new Map(); // socketId -> socket, oldest first
+
+  function has(socketId) {
+    return waiting.has(socketId);
+  }
+
+  function size() {
+    return waiting.size;
+  }
+
+  function remove(socketId) {
+    return waiting.delete(socketId);
+  }
+
+  // Take the longest-waiting socket, e.g. to fill a seat in a running group
+  function next() {
+    const socket = waiting.values().next().value;
+    if (socket) waiting.delete(socket.id);
+    return socket || null;
+  }
+
+  // Queue the socket. Returns the sockets for a new group once there are enough, else null.
+  function enqueue(socket) {
+    waiting.set(socket.id, socket);
+    if (waiting.size < minSize) return null;
+
+    const group = [...waiting.values()].slice(0, minSize);
+    for (const member of group) waiting.delete(member.id);
+    return group;
+  }
+
+  return { enqueue, next, remove, has, size };
+}
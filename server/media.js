@@ -0,0 +1,187 @@
+import express from 'express';
+import { closeSync, mkdirSync, openSync, rmSync, writeSync } from 'fs';
+import { randomBytes } from 'crypto';
+import { join } from 'path';
+import { LIMITS } from '../shared/protocol.js';
+
+/**
+ * Temporary on-disk store for media sent in chats.
+ *
+ * Uploads arrive as the chunks of a file transfer (see transfers.js) and are
+ * written straight to disk. A finished file is served at /media/<id> until
+ * its TTL runs out or its room ends, whichever comes first, and only to
+ * members of that room. Nothing survives a restart.
+ *
+ * Encrypted uploads are stored as they arrived: each chunk's 12-byte IV
+ * followed by its ciphertext, in chunk order. Only the clients hold the key.
+ */
+
+const IV_LENGTH = 12;
+
+// Bytes one chunk takes up on disk; only the last chunk may be shorter
+function slotSize(encrypted) {
+  return encrypted ? IV_LENGTH + LIMITS.FILE_CHUNK_SIZE + LIMITS.FILE_CHUNK_OVERHEAD : LIMITS.FILE_CHUNK_SIZE;
+}
+
+export function createMediaStore({ dir, ttlMs, maxBytes }) {
+  // Anything left over belongs to rooms from a previous run
+  rmSync(dir, { recursive: true, force: true });
+  mkdirSync(dir, { recursive: true });
+
+  const uploads = new Map(); // transferId -> upload being written
+  const files = new Map(); // mediaId -> finished file
+  let usedBytes = 0;
+
+  function deleteFile(entry) {
+    rmSync(entry.path, { force: true });
+    usedBytes -= entry.bytes;
+  }
+
+  // Returns an error message, or null once the upload is ready for chunks
+  function begin({ transferId, roomId, size, chunkCount, mimeType, encrypted }) {
+    const bytes = encrypted ? size + chunkCount * (IV_LENGTH + LIMITS.FILE_CHUNK_OVERHEAD) : size;
+    if (usedBytes + bytes > maxBytes) return 'The server is out of space for files. Try again later.';
+
+    const path = join(dir, randomBytes(16).toString('hex'));
+    const fd = openSync(path, 'w');
+    usedBytes += bytes;
+    uploads.set(transferId, { roomId, size, chunkCount, mimeType, encrypted, bytes, path, fd, startedAt: Date.now() });
+    return null;
+  }
+
+  // Returns an error message, or null once the chunk is on disk
+  function write(transferId, index, iv, data) {
+    const upload = uploads.get(transferId);
+    if (!upload) return 'No such upload.';
+
+    const plainLength = index === upload.chunkCount - 1
+      ? upload.size - index * LIMITS.FILE_CHUNK_SIZE
+      : LIMITS.FILE_CHUNK_SIZE;
+    const expected = upload.encrypted ? plainLength + LIMITS.FILE_CHUNK_OVERHEAD : plainLength;
+    if (data.byteLength !== expected) return `Chunk ${index} should be ${expected} bytes.`;
+
+    const chunk = data instanceof ArrayBuffer ? new Uint8Array(data) : data;
+    let position = index * slotSize(upload.encrypted);
+    try {
+      if (upload.encrypted) {
+        const ivBytes = Buffer.from(iv, 'base64');
+        if (ivBytes.length !== IV_LENGTH) return `Chunk ${index} has an invalid IV.`;
+        writeSync(upload.fd, ivBytes, 0, IV_LENGTH, position);
+        position += IV_LENGTH;
+      }
+      writeSync(upload.fd, chunk, 0, chunk.byteLength, position);
+    } catch (err) {
+      console.error(`Failed to write chunk ${index} of ${transferId}:`, err);
+      return 'The file could not be stored.';
+    }
+    return null;
+  }
+
+  // Close a complete upload and make it downloadable
+  function finish(transferId) {
+    const upload = uploads.get(transferId);
+    if (!upload) return null;
+    uploads.delete(transferId);
+    closeSync(upload.fd);
+
+    const entry = {
+      id: randomBytes(32).toString('base64url'),
+      roomId: upload.roomId,
+      mimeType: upload.mimeType,
+      encrypted: upload.encrypted,
+      bytes: upload.bytes,
+      path: upload.path,
+      expiresAt: Date.now() + ttlMs
+    };
+    files.set(entry.id, entry);
+    return entry;
+  }
+
+  function abort(transferId) {
+    const upload = uploads.get(transferId);
+    if (!upload) return;
+    uploads.delete(transferId);
+    closeSync(upload.fd);
+    deleteFile(upload);
+  }
+
+  function get(mediaId) {
+    const entry = files.get(mediaId);
+    return entry && entry.expiresAt > Date.now() ? entry : null;
+  }
+
+  function removeForRoom(roomId) {
+    for (const [transferId, upload] of uploads) {
+      if (upload.roomId === roomId) abort(transferId);
+    }
+    for (const [mediaId, entry] of files) {
+      if (entry.roomId !== roomId) continue;
+      files.delete(mediaId);
+      deleteFile(entry);
+    }
+  }
+
+  // Delete expired files, and uploads that stalled for longer than the TTL
+  function sweep(now = Date.now()) {
+    for (const [transferId, upload] of uploads) {
+      if (now - upload.startedAt > ttlMs) abort(transferId);
+    }
+    for (const [mediaId, entry] of files) {
+      if (entry.expiresAt > now) continue;
+      files.delete(mediaId);
+      deleteFile(entry);
+    }
+  }
+
+  return { begin, write, finish, abort, get, removeForRoom, sweep };
+}
+
+// Types a browser will only ever display, never run; anything else is sent as a download
+const INLINE_TYPE_PATTERN = /^(image\/(png|jpeg|gif|webp|avif|bmp|heic|heif)|(video|audio)\/[\w.+-]+)(;|$)/i;
+
+/**
+ * Serves finished media, mounted at /media. Encrypted files are sent as
+ * opaque bytes; clients decrypt them with the key from the message.
+ *
+ * A link that leaks out of its chat is no use on its own: requests carry the
+ * member's resume token as a bearer token, and `roomFor(token)` has to name
+ * the room the file was sent in.
+ *
+ * Files come from other users but share the app's origin, so every response
+ * is sandboxed and never sniffed, and only known-safe types render inline.
+ * `limiter` runs after those headers are set, so its responses get them too.
+ */
+export function createMediaRouter(store, { roomFor, limiter }) {
+  const router = express.Router();
+
+  router.use((req, res, next) => {
+    res.set({
+      'X-Content-Type-Options': 'nosniff',
+      'Content-Security-Policy': 'sandbox'
+    });
+    next();
+  });
+  if (limiter) router.use(limiter);
+
+  router.get('/:mediaId', (req, res) => {
+    const entry = store.get(req.params.mediaId);
+    if (!entry) {
+      res.status(404).json({ error: 'This file has expired.' });
+      return;
+    }
+    const token = /^Bearer (\S+)$/.exec(req.get('Authorization') || '')?.[1];
+    if (!token || roomFor(token) !== entry.roomId) {
+      res.status(403).json({ error: 'This file can only be downloaded from the chat it was sent in.' });
+      return;
+    }
+    const inline = !entry.encrypted && INLINE_TYPE_PATTERN.test(entry.mimeType);
+    res.set({
+      'Content-Type': entry.encrypted ? 'application/octet-stream' : entry.mimeType,
+      'Cache-Control': 'private, no-store',
+      'Content-Disposition': inline ? 'inline' : 'attachment'
+    });
+    res.sendFile(entry.path, { cacheControl: false, lastModified: false });
+  });
+
+  return router;
+}
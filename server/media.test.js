@@ -0,0 +1,48 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import express from 'express';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createMediaRouter, createMediaStore } from './media.js';
+
+const transferId = '00000000-0000-0000-0000-000000000000';
+const rooms = { 'token-a': 'room_1', 'token-b': 'room_2' };
+
+describe('media router', () => {
+  const dir = mkdtempSync(join(tmpdir(), 'media-'));
+  let server;
+  let url;
+
+  before(async () => {
+    const store = createMediaStore({ dir, ttlMs: 60000, maxBytes: 1024 });
+    store.begin({ transferId, roomId: 'room_1', size: 3, chunkCount: 1, mimeType: 'image/png', encrypted: false });
+    store.write(transferId, 0, undefined, new Uint8Array([1, 2, 3]));
+    const { id } = store.finish(transferId);
+
+    const app = express();
+    app.use('/media', createMediaRouter(store, { roomFor: (token) => rooms[token] || null }));
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    url = `http://localhost:${server.address().port}/media/${id}`;
+  });
+
+  after(() => {
+    server.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const download = (token) => fetch(url, token ? { headers: { Authorization: `Bearer ${token}` } } : {});
+
+  it('serves a file to a member of its room', async () => {
+    const response = await download('token-a');
+    assert.equal(response.status, 200);
+    assert.deepEqual(new Uint8Array(await response.arrayBuffer()), new Uint8Array([1, 2, 3]));
+  });
+
+  it('refuses anyone without a seat in that room', async () => {
+    assert.equal((await download('token-b')).status, 403);
+    assert.equal((await download('token-c')).status, 403);
+    assert.equal((await download(null)).status, 403);
+  });
+});
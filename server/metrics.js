@@ -0,0 +1,43 @@
+/**
+ * Per-minute event counters for the admin console.
+ *
+ * Only the last `retentionMinutes` buckets are kept, so memory stays bounded
+ * no matter how long the server runs.
+ */
+const MINUTE = 60 * 1000;
+
+export function createMetrics({ names, retentionMinutes = 60 }) {
+  const buckets = new Map(); // minute start (ms) -> { [name]: count }
+
+  function emptyBucket() {
+    return Object.fromEntries(names.map(name => [name, 0]));
+  }
+
+  function record(name) {
+    const minute = Math.floor(Date.now() / MINUTE) * MINUTE;
+    let bucket = buckets.get(minute);
+    if (!bucket) {
+      bucket = emptyBucket();
+      buckets.set(minute, bucket);
+
+      const oldest = minute - retentionMinutes * MINUTE;
+      for (const key of buckets.keys()) {
+        if (key <= oldest) buckets.delete(key);
+      }
+    }
+    bucket[name]++;
+  }
+
+  // One entry per minute over the retention window, including empty minutes
+  function series() {
+    const current = Math.floor(Date.now() / MINUTE) * MINUTE;
+    const result = [];
+    for (let i = retentionMinutes - 1; i >= 0; i--) {
+      const minute = current - i * MINUTE;
+      result.push({ minute, ...(buckets.get(minute) || emptyBucket()) });
+    }
+    return result;
+  }
+
+  return { record, series };
+}
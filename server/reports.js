@@ -0,0 +1,51 @@
+import { randomUUID } from 'crypto';
+
+/**
+ * Message reports filed by users against their chat partner.
+ *
+ * Reports are keyed on the reported user's device token, since socket IDs
+ * change on every connection and an address can be shared by everyone behind
+ * the same NAT. When enough different users report the same device within the
+ * policy's `windowMs`, `add` flags it for an automatic temporary ban. Users
+ * without a device token, and bans on an address, are left to an admin.
+ *
+ * `policy()` is read on every report so changes to the settings apply immediately.
+ */
+export function createReportStore({ storage, policy }) {
+  function add({ reporter, reported, roomId, messageId, reason, excerpt }) {
+    const report = {
+      id: randomUUID(),
+      reporterId: reporter.socketId,
+      reporterAddress: reporter.address,
+      reportedId: reported.socketId,
+      reportedAddress: reported.address,
+      reportedDeviceToken: reported.deviceToken || null,
+      roomId,
+      messageId,
+      reason,
+      excerpt: excerpt || null,
+      createdAt: Date.now(),
+      status: 'open'
+    };
+    storage.reports.insert(report);
+
+    if (!report.reportedDeviceToken) return { report, shouldBan: false };
+
+    // Count distinct reporters, so one user can't get someone banned alone
+    const { windowMs, autoBanThreshold } = policy();
+    const reporters = storage.reports.countDistinctReporters(report.reportedDeviceToken, report.createdAt - windowMs);
+
+    return { report, shouldBan: reporters >= autoBanThreshold };
+  }
+
+  function list({ status } = {}) {
+    return storage.reports.list({ status });
+  }
+
+  function resolve(reportId, resolution) {
+    if (!storage.reports.resolve(reportId, resolution, Date.now())) return null;
+    return storage.reports.get(reportId);
+  }
+
+  return { add, list, resolve };
+}
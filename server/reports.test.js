@@ -0,0 +1,40 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createReportStore } from './reports.js';
+import { createStorage } from './storage/index.js';
+
+const bob = { socketId: 'socket-b', address: '203.0.113.1', deviceToken: 'token-b', roomId: 'room_1' };
+
+describe('report store', () => {
+  // File each [reported, reporter address] pair in turn, returning whether each asked for a ban
+  const fileReports = (...filed) => {
+    const reports = createReportStore({
+      storage: createStorage({ driver: 'memory' }),
+      policy: () => ({ windowMs: 60000, autoBanThreshold: 2 })
+    });
+    return filed.map(([reported, address], i) => reports.add({
+      reporter: { socketId: `socket-${i}`, address },
+      reported,
+      roomId: reported.roomId,
+      messageId: 'AAAAAAAAAAAAAAAA',
+      reason: 'spam'
+    }).shouldBan);
+  };
+
+  it('flags a device once enough different users report it', () => {
+    assert.deepEqual(
+      fileReports([bob, '198.51.100.1'], [bob, '198.51.100.1'], [bob, '198.51.100.2']),
+      [false, false, true]
+    );
+  });
+
+  it("doesn't count reports against someone else on the same address", () => {
+    const neighbour = { ...bob, socketId: 'socket-c', deviceToken: 'token-c' };
+    assert.deepEqual(fileReports([bob, '198.51.100.1'], [neighbour, '198.51.100.2']), [false, false]);
+  });
+
+  it('leaves a user without a device token to an admin', () => {
+    const tokenless = { ...bob, deviceToken: null };
+    assert.deepEqual(fileReports([tokenless, '198.51.100.1'], [tokenless, '198.51.100.2']), [false, false]);
+  });
+});
@@ -0,0 +1,145 @@
+import { randomBytes } from 'crypto';
+
+/**
+ * Chat rooms and who is in them.
+ *
+ * A room is either a pair made by the match queue, or a group of up to
+ * `capacity` strangers filled from the group queue. Each member gets a random
+ * memberId that the rest of the room sees instead of its socket ID; it stays
+ * the same when the member resumes on a new socket.
+ *
+ * Rooms also remember who sent which message, so receipts can be routed to
+ * the sender and reports can name them, even after they left a group.
+ */
+
+// Messages whose sender a room remembers, newest kept
+const REMEMBERED_AUTHORS = 2000;
+
+// Room IDs are random so they can't be derived from socket IDs
+function createRoomId() {
+  return `room_${randomBytes(16).toString('hex')}`;
+}
+
+export function createRoomRegistry() {
+  const rooms = new Map(); // roomId -> room
+  const socketRooms = new Map(); // socketId -> roomId
+
+  function create({ mode, capacity, shadow }) {
+    const room = {
+      roomId: createRoomId(),
+      mode,
+      capacity,
+      shadow,
+      members: new Map(), // socketId -> member
+      departed: new Map(), // memberId -> member, for reports after they leave
+      authors: new Map(), // messageId -> memberId
+      createdAt: Date.now()
+    };
+    rooms.set(room.roomId, room);
+    return room;
+  }
+
+  // `identity` is the socket ID and what bans are matched against, for reports
+  function add(roomId, socketId, { name, profilePic, identity }) {
+    const room = rooms.get(roomId);
+    const member = { memberId: randomBytes(6).toString('base64url'), socketId, name, profilePic, identity };
+    room.members.set(socketId, member);
+    socketRooms.set(socketId, roomId);
+    return member;
+  }
+
+  // Take a socket out of its room. The room itself is left to the caller.
+  function removeMember(socketId) {
+    const room = roomOf(socketId);
+    if (!room) return null;
+    const member = room.members.get(socketId);
+    room.members.delete(socketId);
+    room.departed.set(member.memberId, member);
+    socketRooms.delete(socketId);
+    return { room, member };
+  }
+
+  function get(roomId) {
+    return rooms.get(roomId) || null;
+  }
+
+  function roomOf(socketId) {
+    return rooms.get(socketRooms.get(socketId)) || null;
+  }
+
+  function memberOf(socketId) {
+    return roomOf(socketId)?.members.get(socketId) || null;
+  }
+
+  // Socket IDs of everyone else in the socket's room
+  function othersOf(socketId) {
+    const room = roomOf(socketId);
+    return room ? [...room.members.keys()].filter(id => id !== socketId) : [];
+  }
+
+  // Public view of a member, as sent to the rest of the room
+  function profile(member) {
+    return { memberId: member.memberId, name: member.name, profilePic: member.profilePic };
+  }
+
+  // Hand a resumed member's seat to its new socket
+  function moveSocket(previousSocketId, socketId) {
+    const room = roomOf(previousSocketId);
+    if (!room) return;
+    const member = room.members.get(previousSocketId);
+    member.socketId = socketId;
+    member.identity = { ...member.identity, socketId };
+    room.members.delete(previousSocketId);
+    room.members.set(socketId, member);
+    socketRooms.delete(previousSocketId);
+    socketRooms.set(socketId, room.roomId);
+  }
+
+  function recordAuthor(roomId, messageId, memberId) {
+    const room = rooms.get(roomId);
+    if (!room) return;
+    room.authors.set(messageId, memberId);
+    // Maps iterate in insertion order, so this drops the oldest
+    if (room.authors.size > REMEMBERED_AUTHORS) room.authors.delete(room.authors.keys().next().value);
+  }
+
+  // The member who sent a message, whether or not they are still in the room
+  function authorOf(room, messageId) {
+    const memberId = room.authors.get(messageId);
+    if (!memberId) return null;
+    for (const member of room.members.values()) {
+      if (member.memberId === memberId) return member;
+    }
+    return room.departed.get(memberId) || null;
+  }
+
+  // The fullest group with a free seat, so groups fill up before new ones start
+  function openGroup(shadow, excludeRoomId) {
+    let best = null;
+    for (const room of rooms.values()) {
+      if (room.mode !== 'group' || room.shadow !== shadow || room.members.size >= room.capacity) continue;
+      if (room.roomId === excludeRoomId) continue;
+      if (!best || room.members.size > best.members.size) best = room;
+    }
+    return best;
+  }
+
+  // Forget a room; its members' sockets are dropped from the index too
+  function remove(roomId) {
+    const room = rooms.get(roomId);
+    if (!room) return null;
+    for (const socketId of room.members.keys()) socketRooms.delete(socketId);
+    rooms.delete(roomId);
+    return room;
+  }
+
+  function size() {
+    return rooms.size;
+  }
+
+  function list() {
+    return [...rooms.values()];
+  }
+
+  return { create, add, removeMember, remove, get, roomOf, memberOf, othersOf, profile, moveSocket, recordAuthor, authorOf, openGroup, size, list };
+}
@@ -0,0 +1,40 @@
+import { randomBytes } from 'crypto';
+
+/**
+ * Server-assigned message IDs and per-room sequence numbers.
+ *
+ * Clients send a random `clientId` with every message. The first time a room
+ * sees it, the message gets an ID and the room's next sequence number; a
+ * retry with the same clientId gets the same pair back, so receivers can
+ * drop the duplicate when a lost ack made the sender try again.
+ */
+
+// Retries only happen within seconds, so old client IDs can be forgotten
+const REMEMBERED_PER_ROOM = 500;
+
+export function createMessageSequencer() {
+  const rooms = new Map(); // roomId -> { seq, assigned: Map<clientId, { id, seq }> }
+
+  function stamp(roomId, clientId) {
+    let room = rooms.get(roomId);
+    if (!room) {
+      room = { seq: 0, assigned: new Map() };
+      rooms.set(roomId, room);
+    }
+
+    const existing = room.assigned.get(clientId);
+    if (existing) return { ...existing };
+
+    const assigned = { id: randomBytes(12).toString('base64url'), seq: ++room.seq };
+    room.assigned.set(clientId, assigned);
+    // Maps iterate in insertion order, so this drops the oldest
+    if (room.assigned.size > REMEMBERED_PER_ROOM) room.assigned.delete(room.assigned.keys().next().value);
+    return { ...assigned };
+  }
+
+  function removeRoom(roomId) {
+    rooms.delete(roomId);
+  }
+
+  return { stamp, removeRoom };
+}
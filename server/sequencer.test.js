@@ -0,0 +1,35 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createMessageSequencer } from './sequencer.js';
+
+describe('message sequencer', () => {
+  it('numbers each room on its own', () => {
+    const sequencer = createMessageSequencer();
+    assert.equal(sequencer.stamp('room_1', 'a').seq, 1);
+    assert.equal(sequencer.stamp('room_1', 'b').seq, 2);
+    assert.equal(sequencer.stamp('room_2', 'a').seq, 1);
+  });
+
+  it('gives a retried clientId the same ID and sequence number', () => {
+    const sequencer = createMessageSequencer();
+    const first = sequencer.stamp('room_1', 'a');
+    sequencer.stamp('room_1', 'b');
+    assert.deepEqual(sequencer.stamp('room_1', 'a'), first);
+    assert.notEqual(sequencer.stamp('room_1', 'c').id, first.id);
+  });
+
+  it('forgets the oldest clientIds once a room has seen many', () => {
+    const sequencer = createMessageSequencer();
+    const first = sequencer.stamp('room_1', 'client-0');
+    for (let i = 1; i <= 500; i++) sequencer.stamp('room_1', `client-${i}`);
+    assert.equal(sequencer.stamp('room_1', 'client-500').seq, 501);
+    assert.notDeepEqual(sequencer.stamp('room_1', 'client-0'), first);
+  });
+
+  it('starts a removed room over', () => {
+    const sequencer = createMessageSequencer();
+    sequencer.stamp('room_1', 'a');
+    sequencer.removeRoom('room_1');
+    assert.equal(sequencer.stamp('room_1', 'a').seq, 1);
+  });
+});
@@ -0,0 +1,106 @@
+import { randomBytes } from 'crypto';
+
+/**
+ * Resume tokens for chat members, and the seats held open while a member
+ * reconnects.
+ *
+ * Every member gets a token in chat_start. When a member's connection drops,
+ * its seat is held for `graceMs`; events meant for it are buffered and handed
+ * back, in order, when a new socket presents the token. Only a held seat can
+ * be resumed. The token is what proves the seat is yours, though, so the
+ * server disconnects a socket that still looks connected when its token comes
+ * back on a new one; that holds the seat, which the new socket then resumes.
+ */
+
+const MAX_BUFFERED_EVENTS = 200;
+
+export function createSessionRegistry({ graceMs }) {
+  const sessions = new Map(); // token -> { roomId, socketId, held }
+  const tokens = new Map(); // socketId -> token
+
+  const forSocket = (socketId) => sessions.get(tokens.get(socketId));
+
+  function remove(token) {
+    const session = sessions.get(token);
+    if (!session) return;
+    if (session.held) clearTimeout(session.held.timer);
+    sessions.delete(token);
+    tokens.delete(session.socketId);
+  }
+
+  function issue(socketId, roomId) {
+    const token = randomBytes(32).toString('base64url');
+    sessions.set(token, { roomId, socketId, held: null });
+    tokens.set(socketId, token);
+    return token;
+  }
+
+  // The socket currently holding the token's seat, if it is known
+  function socketFor(token) {
+    return sessions.get(token)?.socketId || null;
+  }
+
+  // The room the token is a seat in, held or not
+  function roomFor(token) {
+    return sessions.get(token)?.roomId || null;
+  }
+
+  function isHeld(socketId) {
+    return Boolean(forSocket(socketId)?.held);
+  }
+
+  // Keep a dropped socket's seat. `data` is handed to the socket that resumes
+  // it; `onExpire` runs if nobody does within the grace period.
+  function hold(socketId, data, onExpire) {
+    const token = tokens.get(socketId);
+    const session = sessions.get(token);
+    if (!session || session.held) return false;
+
+    session.held = {
+      data,
+      events: [],
+      timer: setTimeout(() => {
+        remove(token);
+        onExpire();
+      }, graceMs)
+    };
+    return true;
+  }
+
+  // Returns false if the socket isn't held or its buffer is full
+  function buffer(socketId, event, payload) {
+    const held = forSocket(socketId)?.held;
+    if (!held || held.events.length >= MAX_BUFFERED_EVENTS) return false;
+    held.events.push([event, payload]);
+    return true;
+  }
+
+  // Move a held seat to a new socket. Returns what the new socket needs, or
+  // null if the token is unknown, expired or not held.
+  function resume(token, socketId) {
+    const session = sessions.get(token);
+    if (!session?.held) return null;
+
+    const { data, events, timer } = session.held;
+    clearTimeout(timer);
+    const previousSocketId = session.socketId;
+    tokens.delete(previousSocketId);
+    tokens.set(socketId, token);
+    session.socketId = socketId;
+    session.held = null;
+    return { roomId: session.roomId, previousSocketId, data, events };
+  }
+
+  // Drop a member's token when it leaves a room that carries on without it
+  function revoke(socketId) {
+    remove(tokens.get(socketId));
+  }
+
+  function removeForRoom(roomId) {
+    for (const [token, session] of sessions) {
+      if (session.roomId === roomId) remove(token);
+    }
+  }
+
+  return { issue, socketFor, roomFor, isHeld, hold, buffer, resume, revoke, removeForRoom };
+}
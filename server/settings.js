@@ -0,0 +1,27 @@
+/**
+ * Runtime-tunable settings, persisted in the storage's config table.
+ *
+ * `defaults` defines the known keys; a stored value overrides its default.
+ * All settings are positive integers.
+ */
+export function createSettings({ storage, defaults }) {
+  function has(key) {
+    return Object.hasOwn(defaults, key);
+  }
+
+  function get(key) {
+    const value = storage.config.get(key);
+    return value === undefined ? defaults[key] : value;
+  }
+
+  function set(key, value) {
+    if (!has(key)) throw new Error(`Unknown setting: ${key}`);
+    storage.config.set(key, value);
+  }
+
+  function all() {
+    return Object.fromEntries(Object.keys(defaults).map(key => [key, get(key)]));
+  }
+
+  return { has, get, set, all };
+}
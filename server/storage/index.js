@@ -0,0 +1,20 @@
+import { createMemoryStorage } from './memory.js';
+import { createSqliteStorage } from './sqlite.js';
+
+/**
+ * Durable server state: bans, reports, moderation actions, daily stats and
+ * configuration. Live connection state (queues, rooms, keys) stays in memory
+ * in index.js, since it is meaningless after a restart.
+ *
+ * `driver` is 'sqlite' (the default) or 'memory'.
+ */
+export function createStorage({ driver = 'sqlite', filename } = {}) {
+  switch (driver) {
+    case 'memory':
+      return createMemoryStorage();
+    case 'sqlite':
+      return createSqliteStorage({ filename });
+    default:
+      throw new Error(`Unknown storage driver: ${driver}`);
+  }
+}
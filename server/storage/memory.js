@@ -0,0 +1,82 @@
+/**
+ * In-memory storage with the same interface as the SQLite store.
+ * Nothing survives a restart, which makes it suitable for tests and local runs.
+ */
+export function createMemoryStorage() {
+  const bans = new Map();
+  const reports = new Map();
+  const actions = [];
+  const stats = new Map(); // `${day}:${name}` -> { day, name, count }
+  const config = new Map();
+
+  const isActive = (ban, now) => ban.expiresAt === null || ban.expiresAt > now;
+
+  return {
+    bans: {
+      insert: (ban) => { bans.set(ban.id, { ...ban }); },
+      delete: (banId) => bans.delete(banId),
+      listActive: (now) => [...bans.values()].filter(ban => isActive(ban, now)).map(ban => ({ ...ban })),
+      findActive: ({ address, deviceToken }, now) => [...bans.values()]
+        .filter(ban => isActive(ban, now) &&
+          ((ban.address && ban.address === address) || (ban.deviceToken && ban.deviceToken === deviceToken)))
+        .map(ban => ({ ...ban }))
+    },
+
+    reports: {
+      insert: (report) => { reports.set(report.id, { ...report }); },
+      get: (reportId) => {
+        const report = reports.get(reportId);
+        return report ? { ...report } : null;
+      },
+      resolve: (reportId, status, resolvedAt) => {
+        const report = reports.get(reportId);
+        if (!report) return false;
+        report.status = status;
+        report.resolvedAt = resolvedAt;
+        return true;
+      },
+      list: ({ status } = {}) => [...reports.values()]
+        .filter(report => !status || report.status === status)
+        .map(report => ({ ...report })),
+      countDistinctReporters: (reportedDeviceToken, since) => new Set(
+        [...reports.values()]
+          .filter(r => r.reportedDeviceToken === reportedDeviceToken && r.createdAt >= since)
+          .map(r => r.reporterAddress)
+      ).size
+    },
+
+    moderationActions: {
+      insert: ({ actor, action, target, details }) => {
+        actions.push({
+          id: actions.length + 1,
+          actor,
+          action,
+          target: target ?? null,
+          details: details ?? null,
+          createdAt: Date.now()
+        });
+      },
+      listRecent: (limit) => actions.slice(-limit).reverse()
+    },
+
+    dailyStats: {
+      increment: (day, name, by = 1) => {
+        const key = `${day}:${name}`;
+        const entry = stats.get(key) || { day, name, count: 0 };
+        entry.count += by;
+        stats.set(key, entry);
+      },
+      listSince: (day) => [...stats.values()]
+        .filter(entry => entry.day >= day)
+        .sort((a, b) => a.day.localeCompare(b.day))
+    },
+
+    config: {
+      get: (key) => config.get(key),
+      set: (key, value) => { config.set(key, value); },
+      all: () => Object.fromEntries(config)
+    },
+
+    close: () => {}
+  };
+}
@@ -0,0 +1,64 @@
+/**
+ * Schema migrations for the SQLite store, applied in order on startup.
+ *
+ * The applied version is kept in SQLite's `user_version` pragma. Never edit
+ * a migration that has shipped; add a new one instead.
+ */
+export const migrations = [
+  {
+    version: 1,
+    up: `
+      CREATE TABLE bans (
+        id TEXT PRIMARY KEY,
+        kind TEXT NOT NULL,
+        address TEXT,
+        device_token TEXT,
+        reason TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        expires_at INTEGER
+      );
+      CREATE INDEX bans_address ON bans (address);
+      CREATE INDEX bans_device_token ON bans (device_token);
+
+      CREATE TABLE reports (
+        id TEXT PRIMARY KEY,
+        reporter_id TEXT NOT NULL,
+        reporter_address TEXT NOT NULL,
+        reported_id TEXT NOT NULL,
+        reported_address TEXT NOT NULL,
+        reported_device_token TEXT,
+        room_id TEXT NOT NULL,
+        message_id TEXT NOT NULL,
+        reason TEXT NOT NULL,
+        excerpt TEXT,
+        created_at INTEGER NOT NULL,
+        status TEXT NOT NULL,
+        resolved_at INTEGER
+      );
+      CREATE INDEX reports_reported_device_token ON reports (reported_device_token, created_at);
+      CREATE INDEX reports_status ON reports (status);
+
+      CREATE TABLE moderation_actions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        actor TEXT NOT NULL,
+        action TEXT NOT NULL,
+        target TEXT,
+        details TEXT,
+        created_at INTEGER NOT NULL
+      );
+
+      CREATE TABLE daily_stats (
+        day TEXT NOT NULL,
+        name TEXT NOT NULL,
+        count INTEGER NOT NULL DEFAULT 0,
+        PRIMARY KEY (day, name)
+      );
+
+      CREATE TABLE config (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL,
+        updated_at INTEGER NOT NULL
+      );
+    `
+  }
+];
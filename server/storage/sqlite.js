@@ -0,0 +1,161 @@
+import Database from 'better-sqlite3';
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+import { migrations } from './migrations.js';
+
+/**
+ * SQLite-backed storage. Every method is synchronous, like the in-memory store.
+ */
+
+function migrate(db) {
+  const current = db.pragma('user_version', { simple: true });
+  const pending = migrations.filter(m => m.version > current);
+
+  for (const migration of pending) {
+    db.transaction(() => {
+      db.exec(migration.up);
+      db.pragma(`user_version = ${migration.version}`);
+    })();
+    console.log(`Applied storage migration ${migration.version}`);
+  }
+}
+
+const banFromRow = (row) => ({
+  id: row.id,
+  kind: row.kind,
+  address: row.address,
+  deviceToken: row.device_token,
+  reason: row.reason,
+  createdAt: row.created_at,
+  expiresAt: row.expires_at
+});
+
+const reportFromRow = (row) => ({
+  id: row.id,
+  reporterId: row.reporter_id,
+  reporterAddress: row.reporter_address,
+  reportedId: row.reported_id,
+  reportedAddress: row.reported_address,
+  reportedDeviceToken: row.reported_device_token,
+  roomId: row.room_id,
+  messageId: row.message_id,
+  reason: row.reason,
+  excerpt: row.excerpt,
+  createdAt: row.created_at,
+  status: row.status,
+  resolvedAt: row.resolved_at ?? undefined
+});
+
+export function createSqliteStorage({ filename }) {
+  if (filename !== ':memory:') mkdirSync(dirname(filename), { recursive: true });
+
+  const db = new Database(filename);
+  db.pragma('journal_mode = WAL');
+  migrate(db);
+
+  const statements = {
+    insertBan: db.prepare(`
+      INSERT INTO bans (id, kind, address, device_token, reason, created_at, expires_at)
+      VALUES (@id, @kind, @address, @deviceToken, @reason, @createdAt, @expiresAt)
+    `),
+    deleteBan: db.prepare('DELETE FROM bans WHERE id = ?'),
+    activeBans: db.prepare('SELECT * FROM bans WHERE expires_at IS NULL OR expires_at > ? ORDER BY created_at'),
+    activeBansFor: db.prepare(`
+      SELECT * FROM bans
+      WHERE (expires_at IS NULL OR expires_at > @now)
+        AND ((address IS NOT NULL AND address = @address) OR (device_token IS NOT NULL AND device_token = @deviceToken))
+    `),
+
+    insertReport: db.prepare(`
+      INSERT INTO reports (id, reporter_id, reporter_address, reported_id, reported_address, reported_device_token,
+        room_id, message_id, reason, excerpt, created_at, status)
+      VALUES (@id, @reporterId, @reporterAddress, @reportedId, @reportedAddress, @reportedDeviceToken,
+        @roomId, @messageId, @reason, @excerpt, @createdAt, @status)
+    `),
+    getReport: db.prepare('SELECT * FROM reports WHERE id = ?'),
+    resolveReport: db.prepare('UPDATE reports SET status = ?, resolved_at = ? WHERE id = ?'),
+    allReports: db.prepare('SELECT * FROM reports ORDER BY created_at'),
+    reportsByStatus: db.prepare('SELECT * FROM reports WHERE status = ? ORDER BY created_at'),
+    distinctReporters: db.prepare(`
+      SELECT COUNT(DISTINCT reporter_address) AS count FROM reports
+      WHERE reported_device_token = ? AND created_at >= ?
+    `),
+
+    insertAction: db.prepare(`
+      INSERT INTO moderation_actions (actor, action, target, details, created_at)
+      VALUES (@actor, @action, @target, @details, @createdAt)
+    `),
+    recentActions: db.prepare('SELECT * FROM moderation_actions ORDER BY id DESC LIMIT ?'),
+
+    incrementStat: db.prepare(`
+      INSERT INTO daily_stats (day, name, count) VALUES (?, ?, ?)
+      ON CONFLICT (day, name) DO UPDATE SET count = count + excluded.count
+    `),
+    statsSince: db.prepare('SELECT * FROM daily_stats WHERE day >= ? ORDER BY day'),
+
+    getConfig: db.prepare('SELECT value FROM config WHERE key = ?'),
+    setConfig: db.prepare(`
+      INSERT INTO config (key, value, updated_at) VALUES (?, ?, ?)
+      ON CONFLICT (key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at
+    `),
+    allConfig: db.prepare('SELECT key, value FROM config')
+  };
+
+  return {
+    bans: {
+      insert: (ban) => { statements.insertBan.run(ban); },
+      delete: (banId) => statements.deleteBan.run(banId).changes > 0,
+      listActive: (now) => statements.activeBans.all(now).map(banFromRow),
+      findActive: ({ address, deviceToken }, now) =>
+        statements.activeBansFor.all({ address: address ?? null, deviceToken: deviceToken ?? null, now }).map(banFromRow)
+    },
+
+    reports: {
+      insert: (report) => { statements.insertReport.run(report); },
+      get: (reportId) => {
+        const row = statements.getReport.get(reportId);
+        return row ? reportFromRow(row) : null;
+      },
+      resolve: (reportId, status, resolvedAt) => statements.resolveReport.run(status, resolvedAt, reportId).changes > 0,
+      list: ({ status } = {}) =>
+        (status ? statements.reportsByStatus.all(status) : statements.allReports.all()).map(reportFromRow),
+      countDistinctReporters: (reportedDeviceToken, since) => statements.distinctReporters.get(reportedDeviceToken, since).count
+    },
+
+    moderationActions: {
+      insert: ({ actor, action, target, details }) => {
+        statements.insertAction.run({
+          actor,
+          action,
+          target: target ?? null,
+          details: details === undefined ? null : JSON.stringify(details),
+          createdAt: Date.now()
+        });
+      },
+      listRecent: (limit) => statements.recentActions.all(limit).map(row => ({
+        id: row.id,
+        actor: row.actor,
+        action: row.action,
+        target: row.target,
+        details: row.details === null ? null : JSON.parse(row.details),
+        createdAt: row.created_at
+      }))
+    },
+
+    dailyStats: {
+      increment: (day, name, by = 1) => { statements.incrementStat.run(day, name, by); },
+      listSince: (day) => statements.statsSince.all(day)
+    },
+
+    config: {
+      get: (key) => {
+        const row = statements.getConfig.get(key);
+        return row ? JSON.parse(row.value) : undefined;
+      },
+      set: (key, value) => { statements.setConfig.run(key, JSON.stringify(value), Date.now()); },
+      all: () => Object.fromEntries(statements.allConfig.all().map(row => [row.key, JSON.parse(row.value)]))
+    },
+
+    close: () => db.close()
+  };
+}
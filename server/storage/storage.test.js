@@ -0,0 +1,152 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createStorage } from './index.js';
+
+// The memory driver stands in for SQLite, so both have to pass the same checks
+
+const ban = (overrides) => ({
+  id: 'ban-1',
+  kind: 'ban',
+  address: '203.0.113.1',
+  deviceToken: null,
+  reason: 'spam',
+  createdAt: 1000,
+  expiresAt: null,
+  ...overrides
+});
+
+const report = (overrides) => ({
+  id: 'report-1',
+  reporterId: 'socket-a',
+  reporterAddress: '198.51.100.1',
+  reportedId: 'socket-b',
+  reportedAddress: '203.0.113.1',
+  reportedDeviceToken: 'token-b',
+  roomId: 'room_1',
+  messageId: 'AAAAAAAAAAAAAAAA',
+  reason: 'spam',
+  excerpt: null,
+  createdAt: 1000,
+  status: 'open',
+  ...overrides
+});
+
+for (const driver of ['memory', 'sqlite']) {
+  describe(`${driver} storage`, () => {
+    let storage;
+
+    beforeEach(() => {
+      storage = createStorage({ driver, filename: ':memory:' });
+    });
+
+    afterEach(() => {
+      storage.close();
+    });
+
+    describe('bans', () => {
+      it('finds active bans by address or device token', () => {
+        storage.bans.insert(ban());
+        storage.bans.insert(ban({ id: 'ban-2', address: null, deviceToken: 'token-1', kind: 'mute' }));
+
+        assert.deepEqual(storage.bans.findActive({ address: '203.0.113.1', deviceToken: 'token-2' }, 2000).map(b => b.id), ['ban-1']);
+        assert.deepEqual(storage.bans.findActive({ address: '192.0.2.1', deviceToken: 'token-1' }, 2000).map(b => b.id), ['ban-2']);
+        assert.deepEqual(storage.bans.findActive({ address: '192.0.2.1' }, 2000), []);
+      });
+
+      it('ignores expired bans', () => {
+        storage.bans.insert(ban({ expiresAt: 5000 }));
+
+        assert.equal(storage.bans.listActive(4999).length, 1);
+        assert.deepEqual(storage.bans.listActive(5000), []);
+        assert.deepEqual(storage.bans.findActive({ address: '203.0.113.1' }, 5000), []);
+      });
+
+      it('round-trips every field', () => {
+        const stored = ban({ deviceToken: 'token-1', expiresAt: 9000 });
+        storage.bans.insert(stored);
+        assert.deepEqual(storage.bans.listActive(2000), [stored]);
+      });
+
+      it('says whether a ban was deleted', () => {
+        storage.bans.insert(ban());
+        assert.equal(storage.bans.delete('ban-1'), true);
+        assert.equal(storage.bans.delete('ban-1'), false);
+        assert.deepEqual(storage.bans.listActive(2000), []);
+      });
+    });
+
+    describe('reports', () => {
+      it('round-trips every field', () => {
+        const stored = report({ reportedDeviceToken: 'token-1', excerpt: 'hi' });
+        storage.reports.insert(stored);
+        const { resolvedAt, ...fields } = storage.reports.get('report-1');
+        assert.deepEqual(fields, stored);
+        assert.equal(resolvedAt, undefined);
+        assert.equal(storage.reports.get('missing'), null);
+      });
+
+      it('keeps message IDs as strings, even all-digit ones', () => {
+        storage.reports.insert(report({ messageId: '0123456789012345' }));
+        assert.equal(storage.reports.get('report-1').messageId, '0123456789012345');
+      });
+
+      it('resolves a report and filters by status', () => {
+        storage.reports.insert(report());
+        storage.reports.insert(report({ id: 'report-2', createdAt: 2000 }));
+
+        assert.equal(storage.reports.resolve('report-1', 'dismissed', 3000), true);
+        assert.equal(storage.reports.resolve('missing', 'dismissed', 3000), false);
+        assert.deepEqual(storage.reports.list({ status: 'open' }).map(r => r.id), ['report-2']);
+        assert.deepEqual(storage.reports.list().map(r => r.id), ['report-1', 'report-2']);
+        assert.equal(storage.reports.get('report-1').resolvedAt, 3000);
+      });
+
+      it('counts each reporter once, within the window', () => {
+        storage.reports.insert(report());
+        storage.reports.insert(report({ id: 'report-2', createdAt: 2000 }));
+        storage.reports.insert(report({ id: 'report-3', reporterAddress: '198.51.100.2', createdAt: 3000 }));
+        storage.reports.insert(report({ id: 'report-4', reporterAddress: '198.51.100.3', reportedDeviceToken: 'token-c' }));
+
+        assert.equal(storage.reports.countDistinctReporters('token-b', 0), 2);
+        assert.equal(storage.reports.countDistinctReporters('token-b', 2500), 1);
+      });
+    });
+
+    describe('moderation actions', () => {
+      it('lists the most recent first', () => {
+        storage.moderationActions.insert({ actor: 'admin', action: 'ban', target: 'ban-1', details: { reason: 'spam' } });
+        storage.moderationActions.insert({ actor: 'admin', action: 'unban' });
+
+        const [latest, first] = storage.moderationActions.listRecent(10);
+        assert.equal(latest.action, 'unban');
+        assert.equal(latest.target, null);
+        assert.equal(latest.details, null);
+        assert.deepEqual(first.details, { reason: 'spam' });
+        assert.equal(storage.moderationActions.listRecent(1).length, 1);
+      });
+    });
+
+    describe('daily stats', () => {
+      it('adds up counts per day and name', () => {
+        storage.dailyStats.increment('2024-01-02', 'messages');
+        storage.dailyStats.increment('2024-01-02', 'messages', 4);
+        storage.dailyStats.increment('2024-01-01', 'messages');
+
+        assert.deepEqual(storage.dailyStats.listSince('2024-01-02'), [{ day: '2024-01-02', name: 'messages', count: 5 }]);
+        assert.deepEqual(storage.dailyStats.listSince('2024-01-01').map(entry => entry.day), ['2024-01-01', '2024-01-02']);
+      });
+    });
+
+    describe('config', () => {
+      it('keeps JSON values by key', () => {
+        assert.equal(storage.config.get('filter'), undefined);
+        storage.config.set('filter', { words: ['spam'] });
+        storage.config.set('limit', 3);
+        storage.config.set('limit', 4);
+
+        assert.deepEqual(storage.config.get('filter'), { words: ['spam'] });
+        assert.deepEqual(storage.config.all(), { filter: { words: ['spam'] }, limit: 4 });
+      });
+    });
+  });
+}
@@ -0,0 +1,74 @@
+import { LIMITS } from '../shared/protocol.js';
+
+/**
+ * Chunked file uploads in progress.
+ *
+ * Each transfer belongs to the sender's current room, so a client can't
+ * inject chunks into someone else's upload. The bytes themselves go to the
+ * media store (see media.js); this only tracks which chunks have arrived and
+ * the message to deliver once they all have.
+ */
+export function createTransferRegistry() {
+  const transfers = new Map(); // transferId -> transfer
+
+  function countFor(socketId) {
+    let count = 0;
+    for (const transfer of transfers.values()) {
+      if (transfer.senderId === socketId) count++;
+    }
+    return count;
+  }
+
+  // Returns an error message, or null once the transfer is registered
+  function offer({ transferId, roomId, senderId, size, chunkCount, message }) {
+    if (transfers.has(transferId)) return 'That transfer already exists.';
+    if (chunkCount !== Math.ceil(size / LIMITS.FILE_CHUNK_SIZE)) return 'chunkCount does not match size.';
+    if (countFor(senderId) >= LIMITS.FILE_TRANSFERS) return 'Too many files are already being sent.';
+
+    transfers.set(transferId, {
+      transferId,
+      roomId,
+      senderId,
+      size,
+      chunkCount,
+      message, // { fileType, mimeType, text, encrypted }
+      received: new Set(),
+      createdAt: Date.now()
+    });
+    return null;
+  }
+
+  function get(transferId) {
+    return transfers.get(transferId) || null;
+  }
+
+  function remove(transferId) {
+    return transfers.delete(transferId);
+  }
+
+  // Hand a reconnected sender's transfers to its new socket
+  function reassign(previousSenderId, senderId) {
+    for (const transfer of transfers.values()) {
+      if (transfer.senderId === previousSenderId) transfer.senderId = senderId;
+    }
+  }
+
+  // Returns the IDs of the transfers removed
+  function removeForSender(senderId) {
+    const removed = [];
+    for (const [transferId, transfer] of transfers) {
+      if (transfer.senderId !== senderId) continue;
+      transfers.delete(transferId);
+      removed.push(transferId);
+    }
+    return removed;
+  }
+
+  function removeForRoom(roomId) {
+    for (const [transferId, transfer] of transfers) {
+      if (transfer.roomId === roomId) transfers.delete(transferId);
+    }
+  }
+
+  return { offer, get, remove, reassign, removeForSender, removeForRoom };
+}
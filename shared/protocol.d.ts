@@ -0,0 +1,348 @@
+/**
+ * Socket.IO event contract shared by the client and the server.
+ * Runtime schemas for the client-to-server payloads are in protocol.js, and
+ * protocol.test.ts fails if the two disagree.
+ */
+
+// Assigned by the server when a message is relayed
+export type MessageId = string;
+export type ChatMode = 'pair' | 'group';
+export type MessageType = 'text' | 'file';
+export type FileType = 'image' | 'video' | 'audio';
+export type ReportReason = 'spam' | 'harassment' | 'explicit' | 'underage' | 'other';
+export type ReceiptStatus = 'delivered' | 'read';
+export type CallKind = 'audio' | 'video' | 'screen';
+export type ErrorCode = 'INVALID_PAYLOAD' | 'NOT_IN_ROOM' | 'ROOM_MISMATCH' | 'NO_PARTNER' | 'MUTED'
+  | 'UNKNOWN_TRANSFER' | 'TRANSFER_REJECTED' | 'UNKNOWN_CALL' | 'CALL_REJECTED' | 'MESSAGE_BLOCKED' | 'FORBIDDEN';
+
+export interface EncryptedEnvelope {
+  v: number;
+  n: number;
+  iv: string;
+  ciphertext: string;
+}
+
+export interface ReplyPreview {
+  id: MessageId;
+  text: string;
+  sender: string;
+  type?: MessageType;
+  // Only used locally; clients fill it in from the replied-to message
+  fileContent?: string;
+  fileType?: FileType;
+}
+
+// Fields that are replaced by `encrypted` when the chat is end-to-end encrypted
+export interface MessageContent {
+  text?: string;
+  replyTo?: ReplyPreview;
+}
+
+// Another person in the chat. The memberId is stable for the whole chat.
+export interface ChatMember {
+  memberId: string;
+  name: string;
+  profilePic?: string;
+}
+
+export interface ChatStartPayload {
+  roomId: string;
+  mode: ChatMode;
+  // Pair chats only
+  partnerName?: string;
+  partnerProfilePic?: string;
+  // Everyone else in the room; a group can gain and lose members later
+  members: ChatMember[];
+  sharedInterests: string[];
+  // Sent back in the handshake to rejoin this chat after a dropped connection
+  resumeToken: string;
+}
+
+export interface PartnerPublicKeyPayload {
+  publicKey: string;
+  version?: number;
+}
+
+// A file held by the server until `expiresAt` or until the chat ends
+export interface MediaReference {
+  // Relative to the server, e.g. /media/<id>. Fetched with the chat's resume
+  // token as a bearer token; see ChatStartPayload.
+  url: string;
+  // Encrypted chunks are bound to the transfer ID
+  transferId: string;
+  // Of the original file, before encryption
+  size: number;
+  mimeType: string;
+  expiresAt: number;
+}
+
+// File messages carry FileOfferContent in `text` or `encrypted`
+export interface ReceiveMessagePayload extends MessageContent {
+  id: MessageId;
+  // Increases by one with every message in the room
+  seq: number;
+  sender: 'other';
+  memberId: string;
+  type: MessageType;
+  fileType?: FileType;
+  media?: MediaReference;
+  encrypted?: EncryptedEnvelope;
+}
+
+export interface MessageEditedPayload {
+  id: MessageId;
+  // The author, who is the only one allowed to edit it
+  memberId: string;
+  text?: string;
+  encrypted?: EncryptedEnvelope;
+}
+
+export interface ServerErrorPayload {
+  code: ErrorCode;
+  event: string;
+  message: string;
+  // Set for rejected file transfer events
+  transferId?: string;
+  // Set for rejected call events
+  callId?: string;
+}
+
+export interface BannedPayload {
+  reason: string;
+  // Epoch milliseconds, or null for a permanent ban
+  expiresAt: number | null;
+}
+
+// Sent in the Socket.IO handshake `auth`
+export interface HandshakeAuth {
+  deviceToken?: string;
+  resumeToken?: string;
+}
+
+export interface JoinQueuePayload {
+  username?: string;
+  profilePic?: string;
+  interests?: string[];
+  // Defaults to 'pair'
+  mode?: ChatMode;
+}
+
+export interface ExchangeKeysPayload {
+  publicKey: string;
+  version?: number;
+}
+
+export interface SendMessagePayload extends MessageContent {
+  roomId?: string;
+  // A random UUID; resending with the same one gets the same ID back
+  clientId: string;
+  type: 'text';
+  encrypted?: EncryptedEnvelope;
+}
+
+// Sealed part of a file offer: the name, plus the per-file key when encrypted
+export interface FileOfferContent {
+  text?: string;
+  key?: string;
+}
+
+export interface FileOfferPayload {
+  roomId?: string;
+  transferId: string;
+  fileType: FileType;
+  mimeType: string;
+  size: number;
+  chunkCount: number;
+  text?: string;
+  encrypted?: EncryptedEnvelope;
+}
+
+export interface FileChunkPayload {
+  transferId: string;
+  index: number;
+  // Present when the chunk is encrypted with the per-file key
+  iv?: string;
+  // SHA-256 of `data`, as hex
+  hash: string;
+  data: ArrayBuffer;
+}
+
+export interface FileChunkAckPayload {
+  transferId: string;
+  index: number;
+  // False asks the sender to send the chunk again
+  ok: boolean;
+  // Set when the chunk was over the rate limit: how long to wait before resending it
+  retryAfterMs?: number;
+}
+
+export interface FileStoredPayload {
+  transferId: string;
+  media: MediaReference;
+  id: MessageId;
+  seq: number;
+}
+
+// Acknowledgement for send_message: whether the server accepted it for the
+// partner, and if so the message's ID and sequence number
+// `text` is set when the content filter masked part of a plaintext message
+export type MessageAck = { ok: true; id: MessageId; seq: number; text?: string } | { ok: false };
+
+// Sent by the receiving client, relayed to the sender
+export interface MessageReceiptPayload {
+  roomId?: string;
+  ids: MessageId[];
+  status: ReceiptStatus;
+}
+
+export interface EditMessagePayload {
+  roomId?: string;
+  id: MessageId;
+  text?: string;
+  encrypted?: EncryptedEnvelope;
+}
+
+// Sealed part of a reaction
+export interface ReactionContent {
+  emoji?: string;
+}
+
+export interface ReactionPayload extends ReactionContent {
+  roomId?: string;
+  id: MessageId;
+  encrypted?: EncryptedEnvelope;
+}
+
+// A member added or took back a reaction to message `id`
+export interface MessageReactionPayload extends ReactionContent {
+  id: MessageId;
+  memberId: string;
+  encrypted?: EncryptedEnvelope;
+}
+
+export interface CallInvitePayload {
+  roomId?: string;
+  // A random UUID picked by the caller
+  callId: string;
+  kind: CallKind;
+}
+
+// Sent to the callee with the invite and to the caller once accepted
+export interface CallConfig {
+  callId: string;
+  iceServers: RTCIceServer[];
+}
+
+// Either an SDP offer/answer or one ICE candidate
+export interface CallSignalPayload {
+  callId: string;
+  description?: { type: 'offer' | 'answer'; sdp: string };
+  candidate?: RTCIceCandidateInit;
+}
+
+export interface ReportMessagePayload {
+  messageId: MessageId;
+  reason: ReportReason;
+  excerpt?: string;
+}
+
+export interface ServerToClientEvents {
+  chat_start: (data: ChatStartPayload) => void;
+  partner_public_key: (data: PartnerPublicKeyPayload) => void;
+  receive_message: (data: ReceiveMessagePayload) => void;
+  message_edited: (data: MessageEditedPayload) => void;
+  message_deleted: (data: { id: MessageId; memberId: string }) => void;
+  message_reacted: (data: MessageReactionPayload) => void;
+  message_unreacted: (data: MessageReactionPayload) => void;
+  message_receipt: (data: Omit<MessageReceiptPayload, 'roomId'>) => void;
+  // Everyone else left, so the chat is over
+  partner_disconnected: () => void;
+  // Group chats only; the room carries on while two or more members remain
+  member_joined: (data: ChatMember) => void;
+  member_left: (data: { memberId: string }) => void;
+  // A member's connection dropped; their seat is held for a grace period
+  partner_reconnecting: (data: { memberId: string }) => void;
+  partner_reconnected: (data: { memberId: string }) => void;
+  // Answers a handshake resumeToken. Events buffered meanwhile follow session_resumed.
+  session_resumed: () => void;
+  session_expired: () => void;
+  typing: (data: { memberId: string }) => void;
+  stop_typing: (data: { memberId: string }) => void;
+  // The event was dropped; penalized events stay blocked for retryAfterMs
+  rate_limit_exceeded: (data: { event: string; retryAfterMs: number; message: string }) => void;
+  server_error: (data: ServerErrorPayload) => void;
+  report_received: (data: { reportId: string }) => void;
+  banned: (data: BannedPayload) => void;
+  system_notice: (data: { message: string }) => void;
+  file_chunk_ack: (data: FileChunkAckPayload) => void;
+  file_stored: (data: FileStoredPayload) => void;
+  call_invite: (data: CallConfig & { kind: CallKind }) => void;
+  call_accepted: (data: CallConfig) => void;
+  call_declined: (data: { callId: string }) => void;
+  call_ended: (data: { callId: string }) => void;
+  call_signal: (data: CallSignalPayload) => void;
+}
+
+export interface ClientToServerEvents {
+  join_queue: (data: JoinQueuePayload) => void;
+  exchange_keys: (data: ExchangeKeysPayload) => void;
+  send_message: (data: SendMessagePayload, ack: (response: MessageAck) => void) => void;
+  message_receipt: (data: MessageReceiptPayload) => void;
+  typing: (data: { roomId?: string }) => void;
+  stop_typing: (data: { roomId?: string }) => void;
+  edit_message: (data: EditMessagePayload) => void;
+  delete_message: (data: { roomId?: string; id: MessageId }) => void;
+  react_message: (data: ReactionPayload) => void;
+  unreact_message: (data: ReactionPayload) => void;
+  report_message: (data: ReportMessagePayload) => void;
+  file_offer: (data: FileOfferPayload) => void;
+  file_chunk: (data: FileChunkPayload) => void;
+  file_complete: (data: { transferId: string }) => void;
+  file_cancel: (data: { transferId: string }) => void;
+  call_invite: (data: CallInvitePayload) => void;
+  call_accept: (data: { callId: string }) => void;
+  call_decline: (data: { callId: string }) => void;
+  call_end: (data: { callId: string }) => void;
+  call_signal: (data: CallSignalPayload) => void;
+  skip: () => void;
+}
+
+export declare const LIMITS: {
+  USERNAME_LENGTH: number;
+  TEXT_LENGTH: number;
+  ENVELOPE_LENGTH: number;
+  PROFILE_PIC_LENGTH: number;
+  PUBLIC_KEY_LENGTH: number;
+  INTERESTS: number;
+  INTEREST_LENGTH: number;
+  RECEIPT_IDS: number;
+  REPORT_EXCERPT_LENGTH: number;
+  REACTION_LENGTH: number;
+  FILE_SIZE: number;
+  FILE_NAME_LENGTH: number;
+  FILE_CHUNK_SIZE: number;
+  FILE_CHUNK_OVERHEAD: number;
+  FILE_TRANSFERS: number;
+  SDP_LENGTH: number;
+  ICE_CANDIDATE_LENGTH: number;
+};
+
+export declare const CHAT_MODES: ChatMode[];
+export declare const MESSAGE_TYPES: MessageType[];
+export declare const FILE_TYPES: FileType[];
+export declare const REPORT_REASONS: ReportReason[];
+export declare const RECEIPT_STATUSES: ReceiptStatus[];
+export declare const CALL_KINDS: CallKind[];
+export declare const ERROR_CODES: { [K in ErrorCode]: K };
+
+export type ValidationResult<T> = { ok: true; value: T } | { ok: false; error: string };
+
+// One validator per client event: (value, path) => { value } | { error }
+export declare const clientEventSchemas: {
+  [E in keyof ClientToServerEvents]: (value: unknown, path: string) => { value?: unknown; error?: string };
+};
+
+export declare function validatePayload<E extends keyof ClientToServerEvents>(
+  event: E,
+  payload: unknown
+): ValidationResult<Parameters<ClientToServerEvents[E]>[0]>;
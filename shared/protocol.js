@@ -0,0 +1,289 @@
+/**
+ * Socket.IO event contract shared by the client and the server.
+ *
+ * Event payload types live in protocol.d.ts; this file holds the runtime
+ * schemas the server validates every inbound payload against. Change both
+ * together so a protocol change fails at compile time on the client;
+ * protocol.test.ts checks that they still describe the same payloads.
+ */
+
+export const LIMITS = {
+  USERNAME_LENGTH: 50,
+  TEXT_LENGTH: 2000,
+  // Encrypted message content: the text plus a reply preview, as base64
+  ENVELOPE_LENGTH: 64 * 1024,
+  PROFILE_PIC_LENGTH: 2e5,
+  PUBLIC_KEY_LENGTH: 512,
+  INTERESTS: 5,
+  INTEREST_LENGTH: 24,
+  // Message IDs per delivery or read receipt
+  RECEIPT_IDS: 100,
+  REPORT_EXCERPT_LENGTH: 280,
+  // One emoji, allowing for skin tones and joined (ZWJ) sequences
+  REACTION_LENGTH: 32,
+  FILE_SIZE: 100 * 1024 * 1024,
+  FILE_NAME_LENGTH: 255,
+  FILE_CHUNK_SIZE: 64 * 1024,
+  // AES-GCM adds a 16-byte tag to every encrypted chunk
+  FILE_CHUNK_OVERHEAD: 16,
+  // Transfers a socket may have in progress at once
+  FILE_TRANSFERS: 3,
+  // A WebRTC session description and a single ICE candidate line
+  SDP_LENGTH: 32 * 1024,
+  ICE_CANDIDATE_LENGTH: 1024,
+};
+
+// 'pair' is a one-on-one chat; 'group' puts several strangers in one room
+export const CHAT_MODES = ['pair', 'group'];
+export const MESSAGE_TYPES = ['text', 'file'];
+export const FILE_TYPES = ['image', 'video', 'audio'];
+export const REPORT_REASONS = ['spam', 'harassment', 'explicit', 'underage', 'other'];
+export const RECEIPT_STATUSES = ['delivered', 'read'];
+// A 'screen' call is one-way: only the caller sends media
+export const CALL_KINDS = ['audio', 'video', 'screen'];
+
+export const ERROR_CODES = {
+  INVALID_PAYLOAD: 'INVALID_PAYLOAD',
+  NOT_IN_ROOM: 'NOT_IN_ROOM',
+  ROOM_MISMATCH: 'ROOM_MISMATCH',
+  NO_PARTNER: 'NO_PARTNER',
+  MUTED: 'MUTED',
+  UNKNOWN_TRANSFER: 'UNKNOWN_TRANSFER',
+  TRANSFER_REJECTED: 'TRANSFER_REJECTED',
+  UNKNOWN_CALL: 'UNKNOWN_CALL',
+  CALL_REJECTED: 'CALL_REJECTED',
+  MESSAGE_BLOCKED: 'MESSAGE_BLOCKED',
+  FORBIDDEN: 'FORBIDDEN',
+};
+
+const ROOM_ID_PATTERN = /^room_[0-9a-f]{32}$/;
+const BASE64_PATTERN = /^[A-Za-z0-9+/]*={0,2}$/;
+const INTEREST_PATTERN = /^#?[\p{L}\p{N} _-]+$/u;
+const UUID_PATTERN = /^[0-9a-f-]{36}$/;
+const MESSAGE_ID_PATTERN = /^[A-Za-z0-9_-]{16}$/;
+// Raster images only: an SVG can carry script, and media is served from the app's origin
+const MIME_TYPE_PATTERN = /^(image\/(png|jpeg|gif|webp|avif|bmp|heic|heif)|(video|audio)\/[\w.+-]+)(;[\w=., -]+)?$/;
+const SHA256_PATTERN = /^[0-9a-f]{64}$/;
+// A single emoji: a flag, a keycap, or a pictograph with an optional skin tone or tag
+// sequence, ZWJ-joined to others. Plain \p{Emoji} would also take digits, # and *.
+const EMOJI_PATTERN = /^(?:\p{Regional_Indicator}{2}|[#*0-9]\uFE0F?\u20E3|\p{Extended_Pictographic}(?:\uFE0F|\p{Emoji_Modifier}|[\u{E0020}-\u{E007E}]+\u{E007F})?(?:\u200D\p{Extended_Pictographic}(?:\uFE0F|\p{Emoji_Modifier})?)*)$/u;
+
+// Schema builders. Each returns a validator: (value, path) => { value } | { error }
+
+function string({ max, pattern, optional = false } = {}) {
+  return (value, path) => {
+    if (value === undefined || value === null) {
+      return optional ? { value: undefined } : { error: `${path} is required` };
+    }
+    if (typeof value !== 'string') return { error: `${path} must be a string` };
+    if (max !== undefined && value.length > max) return { error: `${path} is longer than ${max} characters` };
+    if (pattern && !pattern.test(value)) return { error: `${path} has an invalid format` };
+    return { value };
+  };
+}
+
+function integer({ min = 0, max, optional = false } = {}) {
+  return (value, path) => {
+    if (value === undefined || value === null) {
+      return optional ? { value: undefined } : { error: `${path} is required` };
+    }
+    if (!Number.isSafeInteger(value) || value < min) return { error: `${path} must be an integer >= ${min}` };
+    if (max !== undefined && value > max) return { error: `${path} must be <= ${max}` };
+    return { value };
+  };
+}
+
+// Socket.IO delivers binary attachments as Buffers on the server, which are Uint8Arrays
+function binary({ max }) {
+  return (value, path) => {
+    if (!(value instanceof Uint8Array) && !(value instanceof ArrayBuffer)) return { error: `${path} must be binary` };
+    if (value.byteLength > max) return { error: `${path} is larger than ${max} bytes` };
+    return { value };
+  };
+}
+
+function oneOf(options, { optional = false } = {}) {
+  return (value, path) => {
+    if (value === undefined || value === null) {
+      return optional ? { value: undefined } : { error: `${path} is required` };
+    }
+    if (!options.includes(value)) return { error: `${path} must be one of ${options.join(', ')}` };
+    return { value };
+  };
+}
+
+// Unknown keys are dropped so nothing unvalidated is ever relayed.
+// `exactlyOne` lists fields of which one, and only one, has to be set.
+function object(shape, { optional = false, exactlyOne } = {}) {
+  return (value, path) => {
+    if (value === undefined || value === null) {
+      return optional ? { value: undefined } : { error: `${path} is required` };
+    }
+    if (typeof value !== 'object' || Array.isArray(value)) return { error: `${path} must be an object` };
+
+    const result = {};
+    for (const [key, validate] of Object.entries(shape)) {
+      const field = validate(value[key], `${path}.${key}`);
+      if (field.error) return field;
+      if (field.value !== undefined) result[key] = field.value;
+    }
+    if (exactlyOne && exactlyOne.filter(key => result[key] !== undefined).length !== 1) {
+      return { error: `${path} needs exactly one of ${exactlyOne.join(', ')}` };
+    }
+    return { value: result };
+  };
+}
+
+function array(item, { max, optional = false } = {}) {
+  return (value, path) => {
+    if (value === undefined || value === null) {
+      return optional ? { value: undefined } : { error: `${path} is required` };
+    }
+    if (!Array.isArray(value)) return { error: `${path} must be an array` };
+    if (max !== undefined && value.length > max) return { error: `${path} has more than ${max} items` };
+
+    const result = [];
+    for (let i = 0; i < value.length; i++) {
+      const entry = item(value[i], `${path}[${i}]`);
+      if (entry.error) return entry;
+      result.push(entry.value);
+    }
+    return { value: result };
+  };
+}
+
+function none() {
+  return () => ({ value: undefined });
+}
+
+const roomId = string({ pattern: ROOM_ID_PATTERN, optional: true });
+// Message IDs are assigned by the server; clients pick a random clientId when sending
+const messageId = string({ pattern: MESSAGE_ID_PATTERN });
+const clientId = string({ pattern: UUID_PATTERN });
+const transferId = string({ pattern: UUID_PATTERN });
+const callId = string({ pattern: UUID_PATTERN });
+
+const encryptedEnvelope = object({
+  v: integer({ min: 1 }),
+  n: integer(),
+  iv: string({ max: 24, pattern: BASE64_PATTERN }),
+  ciphertext: string({ max: LIMITS.ENVELOPE_LENGTH, pattern: BASE64_PATTERN }),
+}, { optional: true });
+
+const replyPreview = object({
+  id: messageId,
+  text: string({ max: LIMITS.TEXT_LENGTH }),
+  sender: string({ max: 16 }),
+  type: oneOf(MESSAGE_TYPES, { optional: true }),
+  fileType: oneOf(FILE_TYPES, { optional: true }),
+}, { optional: true });
+
+// Sealed content travels either in plaintext or in `encrypted`, never both or neither
+const reaction = object({
+  roomId,
+  id: messageId,
+  emoji: string({ max: LIMITS.REACTION_LENGTH, pattern: EMOJI_PATTERN, optional: true }),
+  encrypted: encryptedEnvelope,
+}, { exactlyOne: ['emoji', 'encrypted'] });
+
+export const clientEventSchemas = {
+  join_queue: object({
+    username: string({ max: LIMITS.USERNAME_LENGTH, optional: true }),
+    profilePic: string({ max: LIMITS.PROFILE_PIC_LENGTH, pattern: /^data:image\//, optional: true }),
+    interests: array(string({ max: LIMITS.INTEREST_LENGTH, pattern: INTEREST_PATTERN }), { max: LIMITS.INTERESTS, optional: true }),
+    mode: oneOf(CHAT_MODES, { optional: true }),
+  }, { optional: true }),
+  exchange_keys: object({
+    publicKey: string({ max: LIMITS.PUBLIC_KEY_LENGTH, pattern: BASE64_PATTERN }),
+    version: integer({ min: 1, optional: true }),
+  }),
+  send_message: object({
+    roomId,
+    clientId,
+    type: oneOf(['text']),
+    text: string({ max: LIMITS.TEXT_LENGTH, optional: true }),
+    replyTo: replyPreview,
+    encrypted: encryptedEnvelope,
+  }, { exactlyOne: ['text', 'encrypted'] }),
+  // The file name and, when encrypted, the per-file key travel in `encrypted`
+  file_offer: object({
+    roomId,
+    transferId,
+    fileType: oneOf(FILE_TYPES),
+    mimeType: string({ max: 100, pattern: MIME_TYPE_PATTERN }),
+    size: integer({ min: 1, max: LIMITS.FILE_SIZE }),
+    chunkCount: integer({ min: 1, max: Math.ceil(LIMITS.FILE_SIZE / LIMITS.FILE_CHUNK_SIZE) }),
+    text: string({ max: LIMITS.FILE_NAME_LENGTH, optional: true }),
+    encrypted: encryptedEnvelope,
+  }),
+  file_chunk: object({
+    transferId,
+    index: integer(),
+    iv: string({ max: 24, pattern: BASE64_PATTERN, optional: true }),
+    hash: string({ pattern: SHA256_PATTERN }),
+    data: binary({ max: LIMITS.FILE_CHUNK_SIZE + LIMITS.FILE_CHUNK_OVERHEAD }),
+  }),
+  file_complete: object({ transferId }),
+  file_cancel: object({ transferId }),
+  message_receipt: object({
+    roomId,
+    ids: array(messageId, { max: LIMITS.RECEIPT_IDS }),
+    status: oneOf(RECEIPT_STATUSES),
+  }),
+  typing: object({ roomId }, { optional: true }),
+  stop_typing: object({ roomId }, { optional: true }),
+  edit_message: object({
+    roomId,
+    id: messageId,
+    text: string({ max: LIMITS.TEXT_LENGTH, optional: true }),
+    encrypted: encryptedEnvelope,
+  }, { exactlyOne: ['text', 'encrypted'] }),
+  delete_message: object({
+    roomId,
+    id: messageId,
+  }),
+  // The emoji travels in `encrypted` when the chat is end-to-end encrypted
+  react_message: reaction,
+  unreact_message: reaction,
+  report_message: object({
+    messageId: messageId,
+    reason: oneOf(REPORT_REASONS),
+    excerpt: string({ max: LIMITS.REPORT_EXCERPT_LENGTH, optional: true }),
+  }),
+  // Calls need the callee's consent; signals are only relayed once they accept
+  call_invite: object({
+    roomId,
+    callId,
+    kind: oneOf(CALL_KINDS),
+  }),
+  call_accept: object({ callId }),
+  call_decline: object({ callId }),
+  call_end: object({ callId }),
+  call_signal: object({
+    callId,
+    description: object({
+      type: oneOf(['offer', 'answer']),
+      sdp: string({ max: LIMITS.SDP_LENGTH }),
+    }, { optional: true }),
+    candidate: object({
+      candidate: string({ max: LIMITS.ICE_CANDIDATE_LENGTH }),
+      sdpMid: string({ max: 64, optional: true }),
+      sdpMLineIndex: integer({ max: 64, optional: true }),
+      usernameFragment: string({ max: 256, optional: true }),
+    }, { optional: true }),
+  }),
+  skip: none(),
+};
+
+/**
+ * Validate an inbound client payload against its event schema.
+ * Returns the sanitized payload, or an error describing the first problem.
+ */
+export function validatePayload(event, payload) {
+  const schema = clientEventSchemas[event];
+  if (!schema) return { ok: false, error: `Unknown event ${event}` };
+
+  const result = schema(payload, event);
+  if (result.error) return { ok: false, error: result.error };
+  return { ok: true, value: result.value };
+}
@@ -0,0 +1,175 @@
+import { describe, expect, it } from 'vitest';
+import {
+  CALL_KINDS, CHAT_MODES, ERROR_CODES, FILE_TYPES, LIMITS, MESSAGE_TYPES, RECEIPT_STATUSES, REPORT_REASONS,
+  clientEventSchemas, validatePayload
+} from './protocol';
+import type {
+  CallKind, ChatMode, ClientToServerEvents, EncryptedEnvelope, ErrorCode, FileType, MessageType, ReceiptStatus, ReportReason
+} from './protocol';
+import { EMOJI_CATEGORIES, SKIN_TONES, applySkinTone } from '../src/utils/emoji';
+import { QUICK_REACTIONS } from '../src/app/components/chat/MessageReactions';
+
+// The types are checked against these at compile time, the schemas at run time
+
+type Payloads = { [E in keyof ClientToServerEvents]: Required<Parameters<ClientToServerEvents[E]>[0]> };
+
+const roomId = `room_${'0'.repeat(32)}`;
+const messageId = 'AAAAAAAAAAAAAAAA';
+const uuid = '00000000-0000-0000-0000-000000000000';
+const encrypted: EncryptedEnvelope = { v: 1, n: 0, iv: 'AAAAAAAAAAAAAAAA', ciphertext: 'AAAA' };
+
+// Every field set, so a field the schema doesn't know gets dropped and fails the test
+const payloads: Payloads = {
+  join_queue: { username: 'Alice', profilePic: 'data:image/png;base64,', interests: ['music'], mode: 'group' },
+  exchange_keys: { publicKey: 'AAAA', version: 1 },
+  send_message: {
+    roomId,
+    clientId: uuid,
+    type: 'text',
+    text: 'hi',
+    replyTo: { id: messageId, text: 'hello', sender: 'other', type: 'file', fileType: 'image' },
+    encrypted
+  },
+  message_receipt: { roomId, ids: [messageId], status: 'read' },
+  typing: { roomId },
+  stop_typing: { roomId },
+  edit_message: { roomId, id: messageId, text: 'hi', encrypted },
+  delete_message: { roomId, id: messageId },
+  react_message: { roomId, id: messageId, emoji: '👍', encrypted },
+  unreact_message: { roomId, id: messageId, emoji: '👍', encrypted },
+  report_message: { messageId, reason: 'spam', excerpt: 'hi' },
+  file_offer: {
+    roomId,
+    transferId: uuid,
+    fileType: 'image',
+    mimeType: 'image/png',
+    size: 1,
+    chunkCount: 1,
+    text: 'cat.png',
+    encrypted
+  },
+  file_chunk: { transferId: uuid, index: 0, iv: 'AAAAAAAAAAAAAAAA', hash: '0'.repeat(64), data: new ArrayBuffer(1) },
+  file_complete: { transferId: uuid },
+  file_cancel: { transferId: uuid },
+  call_invite: { roomId, callId: uuid, kind: 'video' },
+  call_accept: { callId: uuid },
+  call_decline: { callId: uuid },
+  call_end: { callId: uuid },
+  call_signal: {
+    callId: uuid,
+    description: { type: 'offer', sdp: 'v=0' },
+    candidate: { candidate: 'candidate:1', sdpMid: '0', sdpMLineIndex: 0, usernameFragment: 'abcd' }
+  },
+  skip: undefined
+};
+
+// Events whose content is sealed: the plaintext field that `encrypted` stands in for
+const sealed: Partial<Record<keyof ClientToServerEvents, string>> = {
+  send_message: 'text',
+  edit_message: 'text',
+  react_message: 'emoji',
+  unreact_message: 'emoji'
+};
+
+const without = (payload: object = {}, ...keys: string[]) =>
+  Object.fromEntries(Object.entries(payload).filter(([key]) => !keys.includes(key)));
+
+// Records keyed by a union have to list every member of it, and nothing else
+const chatModes: Record<ChatMode, true> = { pair: true, group: true };
+const messageTypes: Record<MessageType, true> = { text: true, file: true };
+const fileTypes: Record<FileType, true> = { image: true, video: true, audio: true };
+const reportReasons: Record<ReportReason, true> = { spam: true, harassment: true, explicit: true, underage: true, other: true };
+const receiptStatuses: Record<ReceiptStatus, true> = { delivered: true, read: true };
+const callKinds: Record<CallKind, true> = { audio: true, video: true, screen: true };
+const errorCodes: Record<ErrorCode, true> = {
+  INVALID_PAYLOAD: true,
+  NOT_IN_ROOM: true,
+  ROOM_MISMATCH: true,
+  NO_PARTNER: true,
+  MUTED: true,
+  UNKNOWN_TRANSFER: true,
+  TRANSFER_REJECTED: true,
+  UNKNOWN_CALL: true,
+  CALL_REJECTED: true,
+  MESSAGE_BLOCKED: true,
+  FORBIDDEN: true
+};
+const limits: Record<keyof typeof LIMITS, true> = {
+  USERNAME_LENGTH: true,
+  TEXT_LENGTH: true,
+  ENVELOPE_LENGTH: true,
+  PROFILE_PIC_LENGTH: true,
+  PUBLIC_KEY_LENGTH: true,
+  INTERESTS: true,
+  INTEREST_LENGTH: true,
+  RECEIPT_IDS: true,
+  REPORT_EXCERPT_LENGTH: true,
+  REACTION_LENGTH: true,
+  FILE_SIZE: true,
+  FILE_NAME_LENGTH: true,
+  FILE_CHUNK_SIZE: true,
+  FILE_CHUNK_OVERHEAD: true,
+  FILE_TRANSFERS: true,
+  SDP_LENGTH: true,
+  ICE_CANDIDATE_LENGTH: true
+};
+
+describe('protocol', () => {
+  it('has a schema for every client event and no others', () => {
+    expect(Object.keys(clientEventSchemas).sort()).toEqual(Object.keys(payloads).sort());
+  });
+
+  for (const [event, payload] of Object.entries(payloads)) {
+    const plaintext = sealed[event as keyof ClientToServerEvents];
+    if (!plaintext) {
+      it(`accepts and keeps every field of a typed ${event} payload`, () => {
+        expect(validatePayload(event as keyof ClientToServerEvents, payload)).toEqual({ ok: true, value: payload });
+      });
+      continue;
+    }
+
+    it(`accepts and keeps every field of a typed ${event} payload, in plaintext or sealed`, () => {
+      for (const variant of [without(payload, 'encrypted'), without(payload, plaintext)]) {
+        expect(validatePayload(event as keyof ClientToServerEvents, variant)).toEqual({ ok: true, value: variant });
+      }
+    });
+
+    it(`needs exactly one of ${plaintext} and encrypted in ${event}`, () => {
+      expect(validatePayload(event as keyof ClientToServerEvents, payload).ok).toBe(false);
+      expect(validatePayload(event as keyof ClientToServerEvents, without(payload, plaintext, 'encrypted')).ok).toBe(false);
+    });
+  }
+
+  it('declares the same enum values as it validates', () => {
+    expect(CHAT_MODES).toEqual(Object.keys(chatModes));
+    expect(MESSAGE_TYPES).toEqual(Object.keys(messageTypes));
+    expect(FILE_TYPES).toEqual(Object.keys(fileTypes));
+    expect(REPORT_REASONS).toEqual(Object.keys(reportReasons));
+    expect(RECEIPT_STATUSES).toEqual(Object.keys(receiptStatuses));
+    expect(CALL_KINDS).toEqual(Object.keys(callKinds));
+  });
+
+  it('declares the same error codes as the server sends', () => {
+    expect(Object.keys(ERROR_CODES)).toEqual(Object.keys(errorCodes));
+    for (const [key, code] of Object.entries(ERROR_CODES)) expect(code).toBe(key);
+  });
+
+  it('declares the same limits as it enforces', () => {
+    expect(Object.keys(LIMITS)).toEqual(Object.keys(limits));
+  });
+
+  const reacts = (emoji: string) => validatePayload('react_message', { roomId, id: messageId, emoji }).ok;
+
+  it('takes every emoji the app offers as a reaction, in every skin tone', () => {
+    const offered = new Set(QUICK_REACTIONS);
+    for (const entry of EMOJI_CATEGORIES.flatMap(category => category.emojis)) {
+      for (const { id } of SKIN_TONES) offered.add(applySkinTone(entry, id));
+    }
+    expect([...offered].filter(emoji => !reacts(emoji))).toEqual([]);
+  });
+
+  it('takes exactly one emoji as a reaction', () => {
+    for (const emoji of ['1', '#', '*', '12', 'a', '👍👍', '🇺', '\u200D', '\uFE0F']) expect(reacts(emoji)).toBe(false);
+    for (const emoji of ['1️⃣', '🇺🇸', '🏴󠁧󠁢󠁥󠁮󠁧󠁿', '👨‍👩‍👧‍👦', '🏌🏻‍♂️', '❤️‍🔥']) expect(reacts(emoji)).toBe(true);
+  });
+});
@@ -0,0 +1,387 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { Ban, Megaphone, RefreshCw, Shield } from 'lucide-react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '../ui/tabs';
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from '../ui/chart';
+import type { ChartConfig } from '../ui/chart';
+import { AdminApiError, createAdminApi } from '../../../utils/adminApi';
+import type { AdminBan, AdminReport, AdminRoom, AdminSocket, AdminStats, BanKind, BanRequest, MetricsPoint } from '../../../utils/adminApi';
+
+const POLL_INTERVAL_MS = 5000;
+
+const BAN_DURATIONS: { label: string; ms?: number }[] = [
+  { label: '1 hour', ms: 60 * 60 * 1000 },
+  { label: '24 hours', ms: 24 * 60 * 60 * 1000 },
+  { label: '7 days', ms: 7 * 24 * 60 * 60 * 1000 },
+  { label: 'Permanent' },
+];
+
+const chartConfig = {
+  connections: { label: 'Connections', color: '#a78bfa' },
+  matches: { label: 'Matches', color: '#f472b6' },
+} satisfies ChartConfig;
+
+const formatTime = (ms: number) => new Date(ms).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+const formatDate = (ms: number | null) => (ms === null ? 'Never' : new Date(ms).toLocaleString());
+
+const buttonClass = 'px-3 py-1 rounded-lg bg-white/10 hover:bg-white/20 text-white text-xs transition-colors disabled:opacity-50';
+const dangerButtonClass = 'px-3 py-1 rounded-lg bg-red-500/20 border border-red-400/40 hover:bg-red-500/30 text-red-200 text-xs transition-colors';
+const fieldClass = 'px-3 py-2 rounded-xl bg-white/5 border border-white/10 text-white text-sm outline-none focus:bg-white/10';
+
+export function AdminConsole() {
+  const [apiKey, setApiKey] = useState(() => sessionStorage.getItem('admin_api_key') || '');
+  const [keyDraft, setKeyDraft] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [tab, setTab] = useState('rooms');
+  const [stats, setStats] = useState<AdminStats | null>(null);
+  const [metrics, setMetrics] = useState<MetricsPoint[]>([]);
+  const [rooms, setRooms] = useState<AdminRoom[]>([]);
+  const [sockets, setSockets] = useState<AdminSocket[]>([]);
+  const [reports, setReports] = useState<AdminReport[]>([]);
+  const [bans, setBans] = useState<AdminBan[]>([]);
+  const [banForm, setBanForm] = useState<BanRequest>({ kind: 'ban', reason: '' });
+  const [banDuration, setBanDuration] = useState(1);
+  const [notice, setNotice] = useState('');
+
+  const api = useMemo(() => createAdminApi(apiKey), [apiKey]);
+
+  const handleError = useCallback((err: unknown) => {
+    if (err instanceof AdminApiError && err.status === 401) {
+      sessionStorage.removeItem('admin_api_key');
+      setApiKey('');
+    }
+    setError(err instanceof Error ? err.message : String(err));
+  }, []);
+
+  const refresh = useCallback(async () => {
+    try {
+      const [nextStats, nextMetrics, nextRooms, nextSockets, nextReports, nextBans] = await Promise.all([
+        api.stats(), api.metrics(), api.rooms(), api.sockets(), api.reports('open'), api.bans(),
+      ]);
+      setStats(nextStats);
+      setMetrics(nextMetrics);
+      setRooms(nextRooms);
+      setSockets(nextSockets);
+      setReports(nextReports);
+      setBans(nextBans);
+      setError(null);
+    } catch (err) {
+      handleError(err);
+    }
+  }, [api, handleError]);
+
+  useEffect(() => {
+    if (!apiKey) return;
+    refresh();
+    const interval = setInterval(refresh, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [apiKey, refresh]);
+
+  // Run a moderation action, then reload so the tables reflect it
+  const act = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+      await refresh();
+    } catch (err) {
+      handleError(err);
+    }
+  };
+
+  const prefillBan = (target: Pick<BanRequest, 'socketId' | 'address' | 'deviceToken'>, reason = '') => {
+    setBanForm({ kind: 'ban', reason, ...target });
+    setTab('bans');
+  };
+
+  const submitBan = (e: React.FormEvent) => {
+    e.preventDefault();
+    act(async () => {
+      await api.ban({ ...banForm, durationMs: BAN_DURATIONS[banDuration].ms });
+      setBanForm({ kind: 'ban', reason: '' });
+    });
+  };
+
+  const submitNotice = (e: React.FormEvent) => {
+    e.preventDefault();
+    act(async () => {
+      await api.broadcast(notice);
+      setNotice('');
+    });
+  };
+
+  if (!apiKey) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-950 text-white">
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            sessionStorage.setItem('admin_api_key', keyDraft);
+            setApiKey(keyDraft);
+            setKeyDraft('');
+          }}
+          className="flex flex-col gap-3 w-80 p-6 rounded-2xl bg-white/5 border border-white/10"
+        >
+          <h1 className="flex items-center gap-2 text-lg"><Shield className="w-5 h-5" /> Admin console</h1>
+          {error && <p className="text-sm text-red-300">{error}</p>}
+          <input
+            type="password"
+            placeholder="Admin API key"
+            value={keyDraft}
+            onChange={(e) => setKeyDraft(e.target.value)}
+            className={fieldClass}
+          />
+          <button type="submit" disabled={!keyDraft} className="px-4 py-2 rounded-xl bg-purple-500/30 hover:bg-purple-500/40 text-sm disabled:opacity-50">
+            Sign in
+          </button>
+        </form>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-950 text-white p-4 md:p-8 flex flex-col gap-6">
+      <header className="flex items-center justify-between">
+        <h1 className="flex items-center gap-2 text-xl"><Shield className="w-6 h-6" /> Admin console</h1>
+        <div className="flex items-center gap-2">
+          <button onClick={refresh} className={buttonClass}><RefreshCw className="w-3 h-3 inline mr-1" /> Refresh</button>
+          <button
+            onClick={() => { sessionStorage.removeItem('admin_api_key'); setApiKey(''); }}
+            className={buttonClass}
+          >
+            Sign out
+          </button>
+        </div>
+      </header>
+
+      {error && <p className="rounded-xl border border-red-500/50 bg-red-500/15 px-3 py-2 text-sm text-red-200">{error}</p>}
+
+      <section className="grid grid-cols-2 md:grid-cols-5 gap-3">
+        {([
+          ['In queue', stats?.queueLength],
+          ['Shadow queue', stats?.shadowQueueLength],
+          ['Active rooms', stats?.activeRooms],
+          ['Connected', stats?.connectedSockets],
+          ['Open reports', stats?.openReports],
+        ] as const).map(([label, value]) => (
+          <div key={label} className="rounded-2xl bg-white/5 border border-white/10 p-4">
+            <p className="text-xs text-white/60">{label}</p>
+            <p className="text-2xl">{value ?? '–'}</p>
+          </div>
+        ))}
+      </section>
+
+      <section className="rounded-2xl bg-white/5 border border-white/10 p-4">
+        <h2 className="text-sm text-white/70 mb-2">Per minute, last hour</h2>
+        <ChartContainer config={chartConfig} className="h-56 w-full aspect-auto">
+          <LineChart data={metrics}>
+            <CartesianGrid vertical={false} strokeOpacity={0.1} />
+            <XAxis dataKey="minute" tickFormatter={formatTime} minTickGap={40} />
+            <YAxis allowDecimals={false} width={30} />
+            <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => formatTime(payload[0]?.payload.minute)} />} />
+            <ChartLegend content={<ChartLegendContent />} />
+            <Line dataKey="connections" type="monotone" stroke="var(--color-connections)" dot={false} />
+            <Line dataKey="matches" type="monotone" stroke="var(--color-matches)" dot={false} />
+          </LineChart>
+        </ChartContainer>
+      </section>
+
+      <Tabs value={tab} onValueChange={setTab}>
+        <TabsList>
+          <TabsTrigger value="rooms">Rooms ({rooms.length})</TabsTrigger>
+          <TabsTrigger value="sockets">Sockets ({sockets.length})</TabsTrigger>
+          <TabsTrigger value="reports">Reports ({reports.length})</TabsTrigger>
+          <TabsTrigger value="bans">Bans ({bans.length})</TabsTrigger>
+          <TabsTrigger value="broadcast">Broadcast</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="rooms">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Room</TableHead>
+                <TableHead>Members</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rooms.map((room) => (
+                <TableRow key={room.roomId}>
+                  <TableCell className="font-mono text-xs">{room.roomId}</TableCell>
+                  <TableCell>{room.members.map((m) => m.username || m.socketId).join(' & ')}</TableCell>
+                  <TableCell className="text-right">
+                    <button onClick={() => act(() => api.endRoom(room.roomId))} className={dangerButtonClass}>End</button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TabsContent>
+
+        <TabsContent value="sockets">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Socket</TableHead>
+                <TableHead>Name</TableHead>
+                <TableHead>Address</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Connected</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sockets.map((socket) => (
+                <TableRow key={socket.socketId}>
+                  <TableCell className="font-mono text-xs">{socket.socketId}</TableCell>
+                  <TableCell>{socket.username || '–'}</TableCell>
+                  <TableCell className="font-mono text-xs">{socket.address}</TableCell>
+                  <TableCell>{socket.roomId ? 'Chatting' : socket.queued ? 'Queued' : 'Idle'}</TableCell>
+                  <TableCell>{formatTime(socket.connectedAt)}</TableCell>
+                  <TableCell className="text-right">
+                    <button onClick={() => prefillBan({ socketId: socket.socketId })} className={dangerButtonClass}>Ban…</button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TabsContent>
+
+        <TabsContent value="reports">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Filed</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead>Reported</TableHead>
+                <TableHead>Excerpt</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {reports.map((report) => (
+                <TableRow key={report.id}>
+                  <TableCell>{formatDate(report.createdAt)}</TableCell>
+                  <TableCell>{report.reason}</TableCell>
+                  <TableCell className="font-mono text-xs">{report.reportedAddress}</TableCell>
+                  <TableCell className="max-w-xs whitespace-normal text-white/80">{report.excerpt || <span className="text-white/40">None attached</span>}</TableCell>
+                  <TableCell className="text-right space-x-2">
+                    <button
+                      onClick={() => prefillBan(
+                        { address: report.reportedAddress, deviceToken: report.reportedDeviceToken || undefined },
+                        `Reported for ${report.reason}`,
+                      )}
+                      className={dangerButtonClass}
+                    >
+                      Ban…
+                    </button>
+                    <button onClick={() => act(() => api.resolveReport(report.id, 'actioned'))} className={buttonClass}>Resolve</button>
+                    <button onClick={() => act(() => api.resolveReport(report.id, 'dismissed'))} className={buttonClass}>Dismiss</button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TabsContent>
+
+        <TabsContent value="bans" className="flex flex-col gap-4">
+          <form onSubmit={submitBan} className="flex flex-wrap items-end gap-2 rounded-2xl bg-white/5 border border-white/10 p-4">
+            <input
+              placeholder="Socket ID"
+              value={banForm.socketId || ''}
+              onChange={(e) => setBanForm({ ...banForm, socketId: e.target.value || undefined })}
+              className={fieldClass}
+            />
+            <input
+              placeholder="or address"
+              value={banForm.address || ''}
+              disabled={!!banForm.socketId}
+              onChange={(e) => setBanForm({ ...banForm, address: e.target.value || undefined })}
+              className={fieldClass}
+            />
+            <input
+              placeholder="and/or device token"
+              value={banForm.deviceToken || ''}
+              disabled={!!banForm.socketId}
+              onChange={(e) => setBanForm({ ...banForm, deviceToken: e.target.value || undefined })}
+              className={fieldClass}
+            />
+            <select
+              value={banForm.kind}
+              onChange={(e) => setBanForm({ ...banForm, kind: e.target.value as BanKind })}
+              className={fieldClass}
+            >
+              <option value="ban">Ban</option>
+              <option value="shadow">Shadow ban</option>
+              <option value="mute">Mute</option>
+            </select>
+            <select value={banDuration} onChange={(e) => setBanDuration(Number(e.target.value))} className={fieldClass}>
+              {BAN_DURATIONS.map((duration, index) => (
+                <option key={duration.label} value={index}>{duration.label}</option>
+              ))}
+            </select>
+            <input
+              placeholder="Reason"
+              value={banForm.reason}
+              onChange={(e) => setBanForm({ ...banForm, reason: e.target.value })}
+              className={`${fieldClass} flex-1 min-w-40`}
+            />
+            <button
+              type="submit"
+              disabled={!banForm.reason.trim() || !(banForm.socketId || banForm.address || banForm.deviceToken)}
+              className="px-4 py-2 rounded-xl bg-red-500/20 border border-red-400/40 hover:bg-red-500/30 text-red-200 text-sm disabled:opacity-50 flex items-center gap-2"
+            >
+              <Ban className="w-4 h-4" /> Apply
+            </button>
+          </form>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Kind</TableHead>
+                <TableHead>Address</TableHead>
+                <TableHead>Device</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead>Expires</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {bans.map((ban) => (
+                <TableRow key={ban.id}>
+                  <TableCell>{ban.kind}</TableCell>
+                  <TableCell className="font-mono text-xs">{ban.address || '–'}</TableCell>
+                  <TableCell className="font-mono text-xs">{ban.deviceToken || '–'}</TableCell>
+                  <TableCell>{ban.reason}</TableCell>
+                  <TableCell>{formatDate(ban.expiresAt)}</TableCell>
+                  <TableCell className="text-right">
+                    <button onClick={() => act(() => api.unban(ban.id))} className={buttonClass}>Lift</button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TabsContent>
+
+        <TabsContent value="broadcast">
+          <form onSubmit={submitNotice} className="flex flex-col gap-2 max-w-xl">
+            <textarea
+              placeholder="Shown to everyone connected as a system message"
+              value={notice}
+              maxLength={500}
+              rows={3}
+              onChange={(e) => setNotice(e.target.value)}
+              className={`${fieldClass} resize-none`}
+            />
+            <button
+              type="submit"
+              disabled={!notice.trim()}
+              className="self-start px-4 py-2 rounded-xl bg-purple-500/30 hover:bg-purple-500/40 text-sm disabled:opacity-50 flex items-center gap-2"
+            >
+              <Megaphone className="w-4 h-4" /> Send notice
+            </button>
+          </form>
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
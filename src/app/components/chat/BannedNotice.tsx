@@ -0,0 +1,39 @@
+import { motion } from 'motion/react';
+import { Ban, LogOut } from 'lucide-react';
+import type { BannedPayload } from '../../../../shared/protocol';
+
+interface BannedNoticeProps {
+  ban: BannedPayload;
+  onHome: () => void;
+}
+
+export function BannedNotice({ ban, onHome }: BannedNoticeProps) {
+  const until = ban.expiresAt === null
+    ? 'This ban is permanent.'
+    : `You can chat again after ${new Date(ban.expiresAt).toLocaleString()}.`;
+
+  return (
+    <motion.div
+      key="banned"
+      initial={{ opacity: 0, scale: 0.8 }}
+      animate={{ opacity: 1, scale: 1 }}
+      exit={{ opacity: 0, scale: 0.8 }}
+      transition={{ duration: 0.5, ease: [0.25, 0.1, 0.25, 1] }}
+      className="flex flex-col items-center gap-4 max-w-sm px-6 py-8 rounded-3xl bg-white/10 backdrop-blur-xl border border-red-400/40 text-center"
+    >
+      <Ban className="w-10 h-10 text-red-300" />
+      <h2 className="text-white text-xl">You can't chat right now</h2>
+      <p className="text-white/70 text-sm">
+        Reason: {ban.reason}
+        <br />
+        {until}
+      </p>
+      <button
+        onClick={onHome}
+        className="px-4 py-2 bg-white/10 border border-white/20 rounded-xl text-white hover:bg-white/20 transition-colors flex items-center gap-2"
+      >
+        <LogOut className="w-4 h-4" /> Home
+      </button>
+    </motion.div>
+  );
+}
@@ -0,0 +1,101 @@
+import { Mic, MicOff, Phone, PhoneOff, Video, VideoOff } from 'lucide-react';
+import type { CallKind } from '../../../../shared/protocol';
+import type { CallPhase } from '../../hooks/useCall';
+import { StreamVideo } from './StreamVideo';
+
+interface CallPanelProps {
+  phase: Exclude<CallPhase, 'idle'>;
+  kind: CallKind;
+  localStream: MediaStream | null;
+  remoteStream: MediaStream | null;
+  micOn: boolean;
+  cameraOn: boolean;
+  onAccept: () => void;
+  onDecline: () => void;
+  onHangUp: () => void;
+  onToggleMic: () => void;
+  onToggleCamera: () => void;
+}
+
+const controlClass = 'p-3 rounded-full backdrop-blur-xl border transition-colors';
+
+export function CallPanel({
+  phase, kind, localStream, remoteStream, micOn, cameraOn,
+  onAccept, onDecline, onHangUp, onToggleMic, onToggleCamera
+}: CallPanelProps) {
+  const label = kind === 'video' ? 'video call' : 'voice call';
+
+  if (phase === 'incoming') {
+    return (
+      <div className="mb-2 mx-1 rounded-xl border border-white/20 bg-white/10 backdrop-blur-xl px-4 py-3 flex items-center gap-3 shadow-lg">
+        {kind === 'video' ? <Video className="w-5 h-5 text-white/80" /> : <Phone className="w-5 h-5 text-white/80" />}
+        <p className="flex-1 text-sm text-white">Stranger wants to start a {label}.</p>
+        <button
+          onClick={onAccept}
+          className="px-3 py-1.5 rounded-lg bg-green-500/30 hover:bg-green-500/45 text-white text-xs transition-colors"
+        >
+          Accept
+        </button>
+        <button
+          onClick={onDecline}
+          className="px-3 py-1.5 rounded-lg bg-red-500/25 hover:bg-red-500/40 text-white text-xs transition-colors"
+        >
+          Decline
+        </button>
+      </div>
+    );
+  }
+
+  const showSelf = kind === 'video' && cameraOn && localStream;
+  return (
+    <div className="relative mb-2 mx-1 h-[40%] min-h-[180px] rounded-2xl overflow-hidden border border-white/20 bg-black/40 backdrop-blur-xl shadow-lg">
+      {kind === 'video' && remoteStream ? (
+        <StreamVideo stream={remoteStream} className="w-full h-full object-contain" />
+      ) : (
+        <>
+          {/* Voice calls still need an element to play the partner's audio */}
+          <StreamVideo stream={remoteStream} className="hidden" />
+          <div className="w-full h-full flex flex-col items-center justify-center gap-2 text-white/70 text-sm">
+            {kind === 'video' ? <Video className="w-8 h-8" /> : <Phone className="w-8 h-8" />}
+            {phase === 'outgoing' ? 'Calling Stranger…' : phase === 'connecting' ? 'Connecting…' : 'Voice call with Stranger'}
+          </div>
+        </>
+      )}
+
+      {/* Picture-in-picture self view */}
+      {showSelf && (
+        <StreamVideo
+          stream={localStream}
+          muted
+          className="absolute bottom-3 right-3 w-28 md:w-36 aspect-video object-cover rounded-lg border border-white/30 shadow-lg scale-x-[-1]"
+        />
+      )}
+
+      <div className="absolute bottom-3 left-1/2 -translate-x-1/2 flex items-center gap-2">
+        <button
+          onClick={onToggleMic}
+          title={micOn ? 'Mute microphone' : 'Unmute microphone'}
+          className={`${controlClass} ${micOn ? 'bg-white/15 border-white/25 hover:bg-white/25' : 'bg-red-500/30 border-red-400/40 hover:bg-red-500/45'}`}
+        >
+          {micOn ? <Mic className="w-4 h-4 text-white" /> : <MicOff className="w-4 h-4 text-white" />}
+        </button>
+        {kind === 'video' && (
+          <button
+            onClick={onToggleCamera}
+            title={cameraOn ? 'Turn camera off' : 'Turn camera on'}
+            className={`${controlClass} ${cameraOn ? 'bg-white/15 border-white/25 hover:bg-white/25' : 'bg-red-500/30 border-red-400/40 hover:bg-red-500/45'}`}
+          >
+            {cameraOn ? <Video className="w-4 h-4 text-white" /> : <VideoOff className="w-4 h-4 text-white" />}
+          </button>
+        )}
+        <button
+          onClick={onHangUp}
+          title="Hang up and go back to text"
+          className={`${controlClass} bg-red-600/70 border-red-400/50 hover:bg-red-600/90`}
+        >
+          <PhoneOff className="w-4 h-4 text-white" />
+        </button>
+      </div>
+    </div>
+  );
+}
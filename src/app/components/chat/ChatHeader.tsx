@@ -0,0 +1,154 @@
+import { Bell, BellOff, Lock, LockOpen, Phone, Shield, ShieldAlert, ShieldCheck, Video } from 'lucide-react';
+import type { CallKind } from '../../../../shared/protocol';
+import type { ChatRoom } from '../../hooks/useChatSession';
+import type { PartnerKeyStatus } from '../../hooks/useEncryption';
+import { MemberAvatar } from './MemberAvatar';
+import type { PreviewMedia } from './MediaPreview';
+
+interface ChatHeaderProps {
+  room: ChatRoom;
+  active: boolean;
+  encryptionEnabled: boolean;
+  partnerKeyStatus: PartnerKeyStatus;
+  verified: boolean;
+  keyChanged: boolean;
+  onToggleEncryption: () => void;
+  onShowSafetyNumber: () => void;
+  notificationsOn: boolean;
+  onToggleNotifications: () => void;
+  // Omitted while a call is already going
+  onCall?: (kind: CallKind) => void;
+  onNext: () => void;
+  onPreview: (media: PreviewMedia) => void;
+}
+
+export function ChatHeader({
+  room, active, encryptionEnabled, partnerKeyStatus, verified, keyChanged, onToggleEncryption, onShowSafetyNumber,
+  notificationsOn, onToggleNotifications, onCall, onNext, onPreview
+}: ChatHeaderProps) {
+  const { partnerName, partnerProfilePic, members } = room;
+
+  return (
+    <header className="mb-2 md:mb-3 px-1">
+      <div className="flex items-center justify-between">
+        {/* Left: Profile and Username */}
+        <div className="flex items-center gap-2">
+          {room.mode === 'group' ? (
+            <>
+              <div className="flex -space-x-2 flex-shrink-0">
+                {members.slice(0, 4).map((member) => (
+                  <MemberAvatar key={member.memberId} member={member} className="w-8 h-8 ring-2 ring-black/30" />
+                ))}
+              </div>
+              <div className="flex-shrink-0">
+                <h2 className="text-white/90 text-sm">Group</h2>
+                <p className="text-white/50 text-[11px]">{members.length + 1} people</p>
+              </div>
+            </>
+          ) : (
+            <>
+              {/* Profile Picture */}
+              <div className="relative flex-shrink-0">
+                <div className="w-10 h-10 rounded-full bg-gradient-to-br from-blue-400 to-purple-500 flex items-center justify-center backdrop-blur-xl overflow-hidden shadow-md">
+                  {partnerProfilePic ? (
+                    <img
+                      src={partnerProfilePic}
+                      alt="Partner"
+                      className="w-full h-full object-cover cursor-pointer hover:opacity-90 transition-opacity"
+                      onClick={() => onPreview({ type: 'image', url: partnerProfilePic })}
+                    />
+                  ) : (
+                    <span className="text-white text-sm">{partnerName.substring(0, 2).toUpperCase()}</span>
+                  )}
+                </div>
+              </div>
+
+              {/* Username */}
+              <div className="flex-shrink-0">
+                <h2 className="text-white/90 text-sm">{partnerName}</h2>
+              </div>
+            </>
+          )}
+
+          {/* Encryption Badge */}
+          <button
+            onClick={onToggleEncryption}
+            title={encryptionEnabled ? 'Turn off end-to-end encryption' : 'Turn on end-to-end encryption'}
+            className={`flex items-center gap-1 px-2 py-0.5 rounded-full border text-[11px] backdrop-blur-xl transition-colors ${encryptionEnabled && partnerKeyStatus === 'ready'
+              ? 'bg-green-500/15 border-green-400/40 text-green-300 hover:bg-green-500/25'
+              : encryptionEnabled && partnerKeyStatus === 'pending'
+                ? 'bg-white/10 border-white/20 text-white/60 hover:bg-white/20'
+                : 'bg-yellow-500/15 border-yellow-400/40 text-yellow-300 hover:bg-yellow-500/25'
+              }`}
+          >
+            {encryptionEnabled && partnerKeyStatus === 'ready' ? (
+              <><Lock className="w-3 h-3" /> Encrypted</>
+            ) : encryptionEnabled && partnerKeyStatus === 'pending' ? (
+              <><Lock className="w-3 h-3 animate-pulse" /> Securing…</>
+            ) : (
+              <><LockOpen className="w-3 h-3" /> Not encrypted</>
+            )}
+          </button>
+
+          {/* Safety Number */}
+          {partnerKeyStatus === 'ready' && (
+            <button
+              onClick={onShowSafetyNumber}
+              title={verified ? 'Verified' : 'Verify safety number'}
+              className="p-1 rounded-full hover:bg-white/10 transition-colors"
+            >
+              {keyChanged ? (
+                <ShieldAlert className="w-4 h-4 text-red-400 animate-pulse" />
+              ) : verified ? (
+                <ShieldCheck className="w-4 h-4 text-green-400" />
+              ) : (
+                <Shield className="w-4 h-4 text-white/60" />
+              )}
+            </button>
+          )}
+        </div>
+
+        {/* Right: Notification, Call and Next Buttons */}
+        <div className="flex items-center gap-2">
+          <button
+            onClick={onToggleNotifications}
+            title={notificationsOn ? 'Turn off notifications' : 'Notify me while this tab is in the background'}
+            className="p-2 rounded-lg bg-white/10 backdrop-blur-xl border border-white/20 hover:bg-white/20 transition-colors"
+          >
+            {notificationsOn
+              ? <Bell className="w-4 h-4 text-white/80" />
+              : <BellOff className="w-4 h-4 text-white/40" />}
+          </button>
+          {room.mode === 'pair' && active && onCall && (
+            <>
+              <button
+                onClick={() => onCall('audio')}
+                title="Start a voice call"
+                className="p-2 rounded-lg bg-white/10 backdrop-blur-xl border border-white/20 hover:bg-white/20 transition-colors"
+              >
+                <Phone className="w-4 h-4 text-white/80" />
+              </button>
+              <button
+                onClick={() => onCall('video')}
+                title="Start a video call"
+                className="p-2 rounded-lg bg-white/10 backdrop-blur-xl border border-white/20 hover:bg-white/20 transition-colors"
+              >
+                <Video className="w-4 h-4 text-white/80" />
+              </button>
+            </>
+          )}
+          <button
+            onClick={onNext}
+            className="relative group px-5 py-2 rounded-lg bg-white/10 backdrop-blur-xl border border-white/20 text-white/90 text-sm hover:bg-white/20 transition-all duration-300 shadow-md hover:scale-105 active:scale-95"
+          >
+            <span className="relative z-10">Next</span>
+            {/* Glow effect */}
+            <div
+              className="absolute -inset-[1px] rounded-lg bg-gradient-to-r from-purple-500/50 to-pink-500/50 -z-10 blur-lg opacity-0 group-hover:opacity-100 transition-opacity duration-300"
+            />
+          </button>
+        </div>
+      </div>
+    </header>
+  );
+}
@@ -0,0 +1,291 @@
+import { useEffect, useState } from 'react';
+import { AnimatePresence, motion } from 'motion/react';
+import { ShieldAlert } from 'lucide-react';
+import type { FileType, ReplyPreview, ReportReason } from '../../../../shared/protocol';
+import type { ChatRoom } from '../../hooks/useChatSession';
+import type { useCall } from '../../hooks/useCall';
+import type { useEncryption } from '../../hooks/useEncryption';
+import { CallPanel } from './CallPanel';
+import { ChatHeader } from './ChatHeader';
+import { Composer } from './Composer';
+import { MediaPreview } from './MediaPreview';
+import type { PreviewMedia } from './MediaPreview';
+import { typingLabel } from './MemberAvatar';
+import { MessageBubble } from './MessageBubble';
+import type { ChatMessage } from './MessageBubble';
+import { MessageList } from './MessageList';
+import { OptionsModal } from './OptionsModal';
+import { ReportDialog } from './ReportDialog';
+import { SafetyNumberDialog } from './SafetyNumberDialog';
+import { ScreenShare } from './ScreenShare';
+import { toReplyPreview } from '../../../utils/sealedContent';
+
+// How long the header and messages wait for the search spinner to clear
+const ENTER_DELAY_MS = 800;
+
+interface ChatViewProps {
+  room: ChatRoom;
+  // False once the chat has ended
+  active: boolean;
+  messages: ChatMessage[];
+  // Member IDs of whoever is typing right now
+  typingMembers: string[];
+  encryption: ReturnType<typeof useEncryption>;
+  call: ReturnType<typeof useCall>;
+  screenShare: ReturnType<typeof useCall>;
+  cooldownSeconds: number;
+  notificationsOn: boolean;
+  onToggleNotifications: () => void;
+  notificationPreviews: boolean;
+  onToggleNotificationPreviews: () => void;
+  readReceipts: boolean;
+  onToggleReadReceipts: () => void;
+  onRead: (ids: string[]) => void;
+  nameOf: (memberId: string | null) => string;
+  onSend: (text: string, replyTo?: ReplyPreview) => void;
+  onTyping: () => void;
+  onSendFile: (file: Blob, name: string, fileType: FileType) => void;
+  // Returns false if the edit couldn't be sent, which keeps the editor open
+  onEdit: (id: string, text: string) => boolean;
+  onDelete: (id: string) => void;
+  onReact: (id: string, emoji: string) => void;
+  onRetry: (msg: ChatMessage) => void;
+  onCancelTransfer: (transferId: string) => void;
+  onReport: (report: { messageId: string; reason: ReportReason; excerpt?: string }) => void;
+  onNext: () => void;
+  onQuit: () => void;
+  onHome: () => void;
+}
+
+export function ChatView({
+  room, active, messages, typingMembers, encryption, call, screenShare, cooldownSeconds,
+  notificationsOn, onToggleNotifications, notificationPreviews, onToggleNotificationPreviews, readReceipts, onToggleReadReceipts, onRead,
+  nameOf, onSend, onTyping, onSendFile, onEdit, onDelete, onReact, onRetry, onCancelTransfer, onReport, onNext, onQuit, onHome
+}: ChatViewProps) {
+  const [entered, setEntered] = useState(false);
+  const [showOptions, setShowOptions] = useState(false);
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [replyingTo, setReplyingTo] = useState<ReplyPreview | null>(null);
+  const [previewMedia, setPreviewMedia] = useState<PreviewMedia | null>(null);
+  const [showSafetyDialog, setShowSafetyDialog] = useState(false);
+  const [reportingMessage, setReportingMessage] = useState<{ id: string; text: string } | null>(null);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setEntered(true), ENTER_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setShowOptions(prev => !prev);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const next = () => {
+    setShowOptions(false);
+    onNext();
+  };
+
+  const quit = () => {
+    setShowOptions(false);
+    onQuit();
+  };
+
+  const send = (text: string) => {
+    onSend(text, replyingTo || undefined);
+    setReplyingTo(null);
+  };
+
+  const changeVerified = (verified: boolean) => {
+    encryption.changeVerified(verified);
+    if (verified) setShowSafetyDialog(false);
+  };
+
+  return (
+    <motion.div
+      key="chat"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      transition={{ duration: 0.6 }}
+      className="w-full h-[96dvh] md:h-[92dvh] max-w-3xl px-2 md:px-4 py-2 md:py-4 flex flex-col relative overflow-hidden"
+    >
+      {/* Header */}
+      <AnimatePresence>
+        {entered && (
+          <ChatHeader
+            room={room}
+            active={active}
+            encryptionEnabled={encryption.enabled}
+            partnerKeyStatus={encryption.partnerKeyStatus}
+            verified={encryption.verified}
+            keyChanged={encryption.keyChanged}
+            onToggleEncryption={encryption.toggle}
+            onShowSafetyNumber={() => setShowSafetyDialog(true)}
+            notificationsOn={notificationsOn}
+            onToggleNotifications={onToggleNotifications}
+            onCall={call.phase === 'idle' ? call.start : undefined}
+            onNext={next}
+            onPreview={setPreviewMedia}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Key Change Warning */}
+      {encryption.keyChanged && (
+        <div className="mb-2 mx-1 rounded-xl border border-red-500/60 bg-red-600/25 backdrop-blur-xl px-4 py-3 flex flex-col md:flex-row md:items-center gap-3 shadow-lg">
+          <div className="flex items-start gap-2 flex-1">
+            <ShieldAlert className="w-5 h-5 text-red-300 flex-shrink-0 mt-0.5" />
+            <p className="text-sm text-red-100">
+              <span className="font-semibold">{room.partnerName}'s encryption key changed.</span>{' '}
+              Someone may be intercepting this chat. Sending is paused until you compare the new safety number.
+            </p>
+          </div>
+          <div className="flex gap-2 flex-shrink-0">
+            <button
+              onClick={() => setShowSafetyDialog(true)}
+              className="px-3 py-1.5 rounded-lg bg-white/15 hover:bg-white/25 text-white text-xs transition-colors"
+            >
+              Verify
+            </button>
+            <button
+              onClick={encryption.acceptKeyChange}
+              className="px-3 py-1.5 rounded-lg hover:bg-white/10 text-red-200 text-xs transition-colors"
+            >
+              Accept anyway
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Call */}
+      {call.phase !== 'idle' && (
+        <CallPanel
+          phase={call.phase}
+          kind={call.kind}
+          localStream={call.localStream}
+          remoteStream={call.remoteStream}
+          micOn={call.micOn}
+          cameraOn={call.cameraOn}
+          onAccept={call.accept}
+          onDecline={call.decline}
+          onHangUp={call.hangUp}
+          onToggleMic={call.toggleMic}
+          onToggleCamera={call.toggleCamera}
+        />
+      )}
+
+      {/* Screen share */}
+      {screenShare.phase !== 'idle' && (
+        <ScreenShare
+          phase={screenShare.phase}
+          isSharing={screenShare.isCaller}
+          remoteStream={screenShare.remoteStream}
+          onAccept={screenShare.accept}
+          onDecline={screenShare.decline}
+          onStop={screenShare.hangUp}
+        />
+      )}
+
+      {/* Messages Container */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: entered ? 1 : 0, y: entered ? 0 : 20 }}
+        transition={{ delay: 0.5, duration: 0.8 }}
+        className="flex-1 min-h-0 flex flex-col mb-3"
+      >
+        <MessageList
+          messages={messages}
+          readReceipts={readReceipts && active}
+          onRead={onRead}
+          renderMessage={(msg) => (
+            <MessageBubble
+              msg={msg}
+              active={active}
+              editing={editingMessageId === msg.id}
+              showActions={!editingMessageId}
+              nameOf={nameOf}
+              onStartEdit={() => setEditingMessageId(msg.id)}
+              onSubmitEdit={(text) => {
+                if (onEdit(msg.id, text)) setEditingMessageId(null);
+              }}
+              onCancelEdit={() => setEditingMessageId(null)}
+              onDelete={() => onDelete(msg.id)}
+              onReply={() => setReplyingTo({ ...toReplyPreview(msg), fileContent: msg.fileContent })}
+              onReport={() => setReportingMessage({ id: msg.id, text: msg.text })}
+              onReact={(emoji) => onReact(msg.id, emoji)}
+              onRetry={() => onRetry(msg)}
+              onCancelTransfer={onCancelTransfer}
+              onPreview={setPreviewMedia}
+            />
+          )}
+          footer={typingMembers.length > 0 && (
+            /* Typing Indicator */
+            <div className="flex justify-start items-center gap-2">
+              <div className="px-4 py-3 bg-white/10 backdrop-blur-xl rounded-3xl rounded-tl-none border border-white/20 flex gap-1 items-center">
+                <div className="w-1.5 h-1.5 bg-white/60 rounded-full animate-bounce" style={{ animationDelay: '0ms' }} />
+                <div className="w-1.5 h-1.5 bg-white/60 rounded-full animate-bounce" style={{ animationDelay: '150ms' }} />
+                <div className="w-1.5 h-1.5 bg-white/60 rounded-full animate-bounce" style={{ animationDelay: '300ms' }} />
+              </div>
+              {room.mode === 'group' && (
+                <span className="text-xs text-white/50">
+                  {typingLabel(typingMembers.map(id => room.members.find(member => member.memberId === id)?.name || 'Someone'))}
+                </span>
+              )}
+            </div>
+          )}
+        />
+      </motion.div>
+
+      {/* Input Bar */}
+      <Composer
+        active={active}
+        keyChanged={encryption.keyChanged}
+        cooldownSeconds={cooldownSeconds}
+        replyingTo={replyingTo}
+        onCancelReply={() => setReplyingTo(null)}
+        onSend={send}
+        onTyping={onTyping}
+        onSendFile={onSendFile}
+        onShareScreen={room.mode === 'pair' ? () => screenShare.start('screen') : undefined}
+        sharingScreen={screenShare.phase !== 'idle'}
+        onNext={next}
+        onHome={onHome}
+      />
+
+      <OptionsModal
+        open={showOptions}
+        onClose={() => setShowOptions(false)}
+        readReceipts={readReceipts}
+        onToggleReadReceipts={onToggleReadReceipts}
+        notificationPreviews={notificationPreviews}
+        onToggleNotificationPreviews={onToggleNotificationPreviews}
+        onNext={next}
+        onQuit={quit}
+      />
+
+      <SafetyNumberDialog
+        open={showSafetyDialog}
+        onOpenChange={setShowSafetyDialog}
+        safetyNumber={encryption.safetyNumber}
+        partnerName={room.partnerName}
+        verified={encryption.verified}
+        keyChanged={encryption.keyChanged}
+        onVerifiedChange={changeVerified}
+      />
+
+      <ReportDialog
+        message={reportingMessage}
+        partnerName={room.partnerName}
+        onOpenChange={(open) => !open && setReportingMessage(null)}
+        onSubmit={(report) => {
+          onReport(report);
+          setReportingMessage(null);
+        }}
+      />
+
+      <MediaPreview media={previewMedia} onClose={() => setPreviewMedia(null)} />
+    </motion.div>
+  );
+}
@@ -0,0 +1,258 @@
+import { useRef, useState } from 'react';
+import { AnimatePresence, motion } from 'motion/react';
+import { LogOut, Mic, MonitorUp, Paperclip, Send, SkipForward, Smile, StopCircle, X } from 'lucide-react';
+import { LIMITS } from '../../../../shared/protocol';
+import type { FileType, ReplyPreview } from '../../../../shared/protocol';
+import { useVoiceRecorder } from '../../hooks/useVoiceRecorder';
+import { EmojiPicker, insertEmoji } from './EmojiPicker';
+
+interface ComposerProps {
+  // False once the chat has ended, which swaps in the New Chat and Home buttons
+  active: boolean;
+  // Sending is paused until a changed safety number is dealt with
+  keyChanged: boolean;
+  cooldownSeconds: number;
+  replyingTo: ReplyPreview | null;
+  onCancelReply: () => void;
+  onSend: (text: string) => void;
+  onTyping: () => void;
+  onSendFile: (file: Blob, name: string, fileType: FileType) => void;
+  // One-on-one chats only
+  onShareScreen?: () => void;
+  sharingScreen: boolean;
+  onNext: () => void;
+  onHome: () => void;
+}
+
+export function Composer({
+  active, keyChanged, cooldownSeconds, replyingTo, onCancelReply, onSend, onTyping, onSendFile,
+  onShareScreen, sharingScreen, onNext, onHome
+}: ComposerProps) {
+  const [message, setMessage] = useState('');
+  const messageInputRef = useRef<HTMLInputElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const recorder = useVoiceRecorder((audio) => onSendFile(audio, 'Audio Message', 'audio'));
+
+  const canSend = active && !keyChanged && !cooldownSeconds && Boolean(message.trim());
+
+  const handleSubmit = (e?: React.FormEvent) => {
+    e?.preventDefault();
+    if (!canSend) return;
+    onSend(message);
+    setMessage('');
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setMessage(e.target.value);
+    onTyping();
+  };
+
+  const onFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      const type: FileType = file.type.startsWith('image/') ? 'image' : file.type.startsWith('video/') ? 'video' : 'audio';
+      onSendFile(file, file.name, type);
+    }
+    // Reset input
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, scale: 0.8, y: 0 }}
+      animate={{
+        opacity: 1,
+        scale: 1,
+        y: 0,
+      }}
+      transition={{
+        opacity: { duration: 0.5 },
+        scale: {
+          duration: 0.6,
+          type: 'spring',
+          stiffness: 200,
+          damping: 20
+        },
+      }}
+      className="w-full px-1"
+    >
+      {/* Input Form */}
+      <input
+        type="file"
+        ref={fileInputRef}
+        className="hidden"
+        onChange={onFileChange}
+        accept="image/*,video/*,audio/*"
+      />
+      <form onSubmit={handleSubmit} className="relative group">
+        {/* Glass input container */}
+        <motion.div
+          className="relative rounded-2xl bg-white/10 backdrop-blur-2xl border border-white/20 shadow-lg overflow-hidden"
+          whileHover={{ scale: 1.01 }}
+          transition={{ duration: 0.2 }}
+        >
+          {/* Reply Banner */}
+          <AnimatePresence>
+            {replyingTo && (
+              <motion.div
+                initial={{ height: 0, opacity: 0 }}
+                animate={{ height: 'auto', opacity: 1 }}
+                exit={{ height: 0, opacity: 0 }}
+                className="bg-white/5 border-b border-white/10 px-4 py-2 flex items-center justify-between"
+              >
+                <div className="flex flex-col text-xs text-white/80 w-full mr-2">
+                  <span className="font-bold text-purple-300 mb-0.5">Replying to {replyingTo.sender === 'user' ? 'yourself' : 'Stranger'}</span>
+                  {replyingTo.type === 'file' ? (
+                    <div className="flex items-center gap-2">
+                      {replyingTo.fileType === 'image' ? (
+                        <img src={replyingTo.fileContent} alt="Reply preview" className="w-8 h-8 rounded object-cover" />
+                      ) : replyingTo.fileType === 'video' ? (
+                        <div className="w-8 h-8 rounded bg-white/10 flex items-center justify-center">
+                          <div className="w-0 h-0 border-t-4 border-t-transparent border-l-6 border-l-white border-b-4 border-b-transparent ml-0.5"></div>
+                        </div>
+                      ) : (
+                        <div className="w-8 h-8 rounded bg-white/10 flex items-center justify-center">
+                          <Mic className="w-4 h-4 opacity-70" />
+                        </div>
+                      )}
+                      <span className="truncate opacity-70">{replyingTo.text}</span>
+                    </div>
+                  ) : (
+                    <span className="truncate opacity-70">{replyingTo.text}</span>
+                  )}
+                </div>
+                <button type="button" onClick={onCancelReply} className="p-1 hover:bg-white/10 rounded-full">
+                  <X className="w-3 h-3 text-white/60" />
+                </button>
+              </motion.div>
+            )}
+          </AnimatePresence>
+          {/* Shimmer effect */}
+          <motion.div
+            className="absolute inset-0 bg-gradient-to-r from-transparent via-white/10 to-transparent"
+            animate={{
+              x: ['-100%', '100%'],
+            }}
+            transition={{
+              duration: 3,
+              repeat: Infinity,
+              repeatDelay: 2,
+              ease: 'easeInOut',
+            }}
+          />
+
+          <div className="relative flex items-center px-2 md:px-4 py-2 md:py-3">
+            {/* File Input Button */}
+            <motion.button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              className="p-1.5 rounded-lg hover:bg-white/10 transition-colors"
+              whileHover={{ scale: 1.1 }}
+              whileTap={{ scale: 0.9 }}
+            >
+              <Paperclip className="w-4 h-4 md:w-5 md:h-5 text-white/70" />
+            </motion.button>
+
+            {/* Screen Share Button - asks the partner before anything is sent */}
+            {onShareScreen && (
+              <motion.button
+                type="button"
+                onClick={onShareScreen}
+                disabled={!active || sharingScreen}
+                title="Share your screen"
+                className="p-1.5 rounded-lg hover:bg-white/10 transition-colors ml-0.5 md:ml-1 disabled:opacity-40 disabled:hover:bg-transparent"
+                whileHover={{ scale: 1.1 }}
+                whileTap={{ scale: 0.9 }}
+              >
+                <MonitorUp className="w-4 h-4 md:w-5 md:h-5 text-white/70" />
+              </motion.button>
+            )}
+
+            {/* Emoji Button */}
+            <EmojiPicker inputRef={messageInputRef} onSelect={(emoji) => insertEmoji(messageInputRef.current, message, setMessage, emoji)}>
+              <motion.button
+                type="button"
+                disabled={recorder.isRecording || cooldownSeconds > 0}
+                className="p-1.5 rounded-lg hover:bg-white/10 transition-colors ml-0.5 md:ml-1 disabled:opacity-40"
+                whileHover={{ scale: 1.1 }}
+                whileTap={{ scale: 0.9 }}
+              >
+                <Smile className="w-4 h-4 md:w-5 md:h-5 text-white/70" />
+              </motion.button>
+            </EmojiPicker>
+
+            {/* Input */}
+            <input
+              ref={messageInputRef}
+              type="text"
+              placeholder={recorder.isRecording ? "Recording..." : cooldownSeconds > 0 ? `Slow down! You can send again in ${cooldownSeconds}s` : "Message..."}
+              value={message}
+              maxLength={LIMITS.TEXT_LENGTH}
+              onChange={handleInputChange}
+              className="flex-1 bg-transparent text-white text-sm md:text-base placeholder-white/50 outline-none ml-2 md:ml-3 min-w-0"
+              autoFocus
+              disabled={recorder.isRecording || cooldownSeconds > 0}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  handleSubmit();
+                }
+              }}
+            />
+
+            {/* Mic / Stop Button */}
+            <motion.button
+              type="button"
+              onClick={recorder.isRecording ? recorder.stop : recorder.start}
+              className={`p-1.5 rounded-lg ml-1 md:ml-2 transition-all ${recorder.isRecording ? 'bg-red-500/50 hover:bg-red-500/70 animate-pulse' : 'hover:bg-white/10'}`}
+              whileHover={{ scale: 1.1 }}
+              whileTap={{ scale: 0.9 }}
+            >
+              {recorder.isRecording ? <StopCircle className="w-4 h-4 md:w-5 md:h-5 text-white" /> : <Mic className="w-4 h-4 md:w-5 md:h-5 text-white/70" />}
+            </motion.button>
+
+            {/* Send Button */}
+            <motion.button
+              type="submit"
+              className={`p-1.5 rounded-lg ml-2 transition-all ${!canSend ? 'bg-gray-500/50 cursor-not-allowed' : 'bg-gradient-to-br from-purple-500/50 to-pink-500/50 hover:from-purple-500/70 hover:to-pink-500/70'}`}
+              whileHover={canSend ? { scale: 1.1 } : {}}
+              whileTap={canSend ? { scale: 0.9 } : {}}
+              disabled={!canSend}
+            >
+              <Send className="w-4 h-4 text-white" />
+            </motion.button>
+          </div>
+        </motion.div>
+
+        {/* Session Ended Overlay */}
+        {!active && (
+          <motion.div
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="absolute bottom-full left-0 right-0 mb-4 flex justify-end gap-3"
+          >
+            <button
+              type="button"
+              onClick={onNext}
+              className="px-4 py-2 bg-white/10 backdrop-blur-xl border border-white/20 rounded-xl text-white hover:bg-white/20 transition-colors flex items-center gap-2"
+            >
+              <SkipForward className="w-4 h-4" /> New Chat
+            </button>
+            <button
+              type="button"
+              onClick={onHome}
+              className="px-4 py-2 bg-white/10 backdrop-blur-xl border border-white/20 rounded-xl text-white hover:bg-white/20 transition-colors flex items-center gap-2"
+            >
+              <LogOut className="w-4 h-4" /> Home
+            </button>
+          </motion.div>
+        )}
+
+        {/* Glow effect on hover */}
+        <motion.div
+          className="absolute -inset-[1px] rounded-2xl bg-gradient-to-r from-purple-500/50 via-pink-500/50 to-cyan-500/50 -z-10 blur-lg opacity-0 group-hover:opacity-100 transition-opacity duration-500"
+        />
+      </form>
+    </motion.div>
+  );
+}
@@ -0,0 +1,55 @@
+import { AlertCircle, Check, CheckCheck, Clock, RotateCw } from 'lucide-react';
+
+export type DeliveryState = 'sending' | 'sent' | 'delivered' | 'read' | 'failed';
+
+const RANK: Record<DeliveryState, number> = { failed: 0, sending: 1, sent: 2, delivered: 3, read: 4 };
+
+/**
+ * Whether a message in `current` may move to `next`. Receipts can arrive out
+ * of order, so a message never moves backwards, and only a message still
+ * sending can fail. A receipt for a message marked failed means it got
+ * through after all.
+ */
+export function canAdvance(current: DeliveryState | undefined, next: DeliveryState) {
+  if (next === 'failed') return current === 'sending';
+  return current === undefined || RANK[next] > RANK[current];
+}
+
+interface DeliveryStatusProps {
+  status: DeliveryState;
+  // Omitted when the message can't be sent again, e.g. after the chat ended
+  onRetry?: () => void;
+}
+
+export function DeliveryStatus({ status, onRetry }: DeliveryStatusProps) {
+  if (status === 'failed') {
+    return (
+      <div className="flex items-center justify-end gap-1 mt-1 text-[11px] text-red-300">
+        <AlertCircle className="w-3 h-3" />
+        Not delivered
+        {onRetry && (
+          <button
+            onClick={onRetry}
+            className="flex items-center gap-0.5 ml-1 px-1.5 py-0.5 rounded-md bg-white/10 hover:bg-white/20 text-white/80 transition-colors"
+          >
+            <RotateCw className="w-3 h-3" />
+            Retry
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  const title = status === 'sending' ? 'Sending' : status === 'sent' ? 'Sent' : status === 'delivered' ? 'Delivered' : 'Read';
+  return (
+    <div className="flex justify-end mt-1" title={title}>
+      {status === 'sending' ? (
+        <Clock className="w-3 h-3 text-white/40" />
+      ) : status === 'sent' ? (
+        <Check className="w-3 h-3 text-white/50" />
+      ) : (
+        <CheckCheck className={`w-3 h-3 ${status === 'read' ? 'text-sky-300' : 'text-white/50'}`} />
+      )}
+    </div>
+  );
+}
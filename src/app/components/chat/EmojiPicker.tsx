@@ -0,0 +1,182 @@
+import { useMemo, useState } from 'react';
+import type { ReactNode, RefObject } from 'react';
+import { Clock, Flag, Hand, Heart, Lightbulb, PawPrint, Plane, Search, Smile, Trophy, Utensils } from 'lucide-react';
+import type { LucideIcon } from 'lucide-react';
+import { Popover, PopoverContent, PopoverTrigger } from '../ui/popover';
+import { LIMITS } from '../../../../shared/protocol';
+import {
+  EMOJI_CATEGORIES,
+  SKIN_TONES,
+  applySkinTone,
+  loadRecentEmoji,
+  loadSkinTone,
+  rememberEmoji,
+  saveSkinTone,
+  searchEmoji,
+} from '../../../utils/emoji';
+import type { SkinTone } from '../../../utils/emoji';
+
+const CATEGORY_ICONS: Record<string, LucideIcon> = {
+  recent: Clock,
+  smileys: Smile,
+  people: Hand,
+  nature: PawPrint,
+  food: Utensils,
+  activities: Trophy,
+  travel: Plane,
+  objects: Lightbulb,
+  symbols: Heart,
+  flags: Flag,
+};
+
+// Swatch colours for the skin tone buttons
+const TONE_COLORS: Record<SkinTone, string> = {
+  default: '#ffc83d',
+  light: '#f7dece',
+  'medium-light': '#f3d2a2',
+  medium: '#d5ab88',
+  'medium-dark': '#af7e57',
+  dark: '#7c533e',
+};
+
+// Put an emoji at the input's caret, replacing any selection, and leave the caret after it
+export function insertEmoji(input: HTMLInputElement | null, value: string, setValue: (value: string) => void, emoji: string) {
+  const start = input?.selectionStart ?? value.length;
+  const end = input?.selectionEnd ?? value.length;
+  const next = value.slice(0, start) + emoji + value.slice(end);
+  if (next.length > LIMITS.TEXT_LENGTH) return;
+  setValue(next);
+  const caret = start + emoji.length;
+  requestAnimationFrame(() => input?.setSelectionRange(caret, caret));
+}
+
+interface EmojiPickerProps {
+  // The button that opens the picker
+  children: ReactNode;
+  onSelect: (emoji: string) => void;
+  // Focused again when the picker closes, so typing carries on where the emoji went
+  inputRef?: RefObject<HTMLInputElement | null>;
+  align?: 'start' | 'center' | 'end';
+  // Pass both to control whether the picker is open
+  open?: boolean;
+  onOpenChange?: (open: boolean) => void;
+}
+
+export function EmojiPicker({ children, onSelect, inputRef, align = 'start', open, onOpenChange }: EmojiPickerProps) {
+  const [query, setQuery] = useState('');
+  const [recent, setRecent] = useState(loadRecentEmoji);
+  const [category, setCategory] = useState(() => recent.length > 0 ? 'recent' : 'smileys');
+  const [tone, setTone] = useState<SkinTone>(loadSkinTone);
+
+  const results = useMemo(() => searchEmoji(query), [query]);
+  const entries = query
+    ? results.map(entry => ({ emoji: applySkinTone(entry, tone), name: entry.name }))
+    : category === 'recent'
+      ? recent.map(emoji => ({ emoji, name: emoji }))
+      : (EMOJI_CATEGORIES.find(item => item.id === category)?.emojis ?? []).map(entry => ({ emoji: applySkinTone(entry, tone), name: entry.name }));
+
+  const pick = (emoji: string) => {
+    setRecent(rememberEmoji(emoji));
+    onSelect(emoji);
+  };
+
+  const chooseTone = (next: SkinTone) => {
+    setTone(next);
+    saveSkinTone(next);
+  };
+
+  const tabs = [{ id: 'recent', label: 'Recently used' }, ...EMOJI_CATEGORIES];
+
+  return (
+    <Popover open={open} onOpenChange={onOpenChange}>
+      <PopoverTrigger asChild>{children}</PopoverTrigger>
+      <PopoverContent
+        side="top"
+        align={align}
+        sideOffset={10}
+        className="w-80 p-0 bg-gray-900/95 border-white/10 text-white backdrop-blur-xl rounded-2xl overflow-hidden"
+        onCloseAutoFocus={(e) => {
+          if (!inputRef?.current) return;
+          e.preventDefault();
+          inputRef.current.focus();
+        }}
+      >
+        {/* Search */}
+        <div className="p-2 border-b border-white/10">
+          <div className="flex items-center gap-2 px-2 py-1.5 rounded-lg bg-white/5 border border-white/10">
+            <Search className="w-4 h-4 text-white/40" />
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search emoji"
+              className="flex-1 bg-transparent text-sm text-white placeholder-white/40 outline-none min-w-0"
+              autoFocus
+            />
+          </div>
+        </div>
+
+        {/* Categories */}
+        {!query && (
+          <div className="flex justify-between px-2 pt-1.5 border-b border-white/10">
+            {tabs.map(tab => {
+              const Icon = CATEGORY_ICONS[tab.id];
+              return (
+                <button
+                  key={tab.id}
+                  type="button"
+                  title={tab.label}
+                  onClick={() => setCategory(tab.id)}
+                  className={`p-1.5 mb-1.5 rounded-md transition-colors ${category === tab.id ? 'bg-white/15 text-white' : 'text-white/50 hover:text-white hover:bg-white/10'}`}
+                >
+                  <Icon className="w-4 h-4" />
+                </button>
+              );
+            })}
+          </div>
+        )}
+
+        {/* Grid */}
+        <div className="h-56 overflow-y-auto p-2">
+          <p className="px-1 pb-1 text-[11px] uppercase tracking-wide text-white/40">
+            {query ? 'Search results' : tabs.find(tab => tab.id === category)?.label}
+          </p>
+          {entries.length > 0 ? (
+            <div className="grid grid-cols-8 gap-0.5">
+              {entries.map(({ emoji, name }) => (
+                <button
+                  key={emoji}
+                  type="button"
+                  title={name}
+                  onClick={() => pick(emoji)}
+                  className="h-8 rounded-md text-xl leading-none hover:bg-white/15 transition-colors"
+                >
+                  {emoji}
+                </button>
+              ))}
+            </div>
+          ) : (
+            <p className="py-8 text-center text-sm text-white/40">
+              {query ? 'No emoji found' : 'Emoji you use will show up here'}
+            </p>
+          )}
+        </div>
+
+        {/* Skin tone */}
+        <div className="flex items-center gap-1.5 px-3 py-2 border-t border-white/10">
+          <span className="text-xs text-white/50 mr-auto">Skin tone</span>
+          {SKIN_TONES.map(option => (
+            <button
+              key={option.id}
+              type="button"
+              title={option.label}
+              onClick={() => chooseTone(option.id)}
+              className={`w-4 h-4 rounded-full border transition-transform ${tone === option.id ? 'border-white scale-125' : 'border-white/20 hover:scale-110'}`}
+              style={{ backgroundColor: TONE_COLORS[option.id] }}
+            />
+          ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,50 @@
+import { AnimatePresence, motion } from 'motion/react';
+import { X } from 'lucide-react';
+
+export interface PreviewMedia {
+  type: 'image' | 'video';
+  url: string;
+}
+
+interface MediaPreviewProps {
+  media: PreviewMedia | null;
+  onClose: () => void;
+}
+
+// Full-screen view of a shared image or video; clicking anywhere closes it
+export function MediaPreview({ media, onClose }: MediaPreviewProps) {
+  return (
+    <AnimatePresence>
+      {media && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-50 bg-black/90 flex items-center justify-center p-4"
+          onClick={onClose}
+        >
+          <button
+            className="absolute top-4 right-4 p-2 bg-white/10 rounded-full hover:bg-white/20 text-white"
+            onClick={onClose}
+          >
+            <X className="w-6 h-6" />
+          </button>
+          {media.type === 'image' ? (
+            <img
+              src={media.url}
+              alt="Preview"
+              className="max-w-full max-h-full object-contain rounded-lg"
+            />
+          ) : (
+            <video
+              src={media.url}
+              controls
+              autoPlay
+              className="max-w-full max-h-full rounded-lg"
+            />
+          )}
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
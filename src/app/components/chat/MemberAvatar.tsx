@@ -0,0 +1,26 @@
+import type { ChatMember } from '../../../../shared/protocol';
+
+interface MemberAvatarProps {
+  member: Pick<ChatMember, 'name' | 'profilePic'>;
+  className?: string;
+}
+
+// A member's profile picture, or their initials when they didn't set one
+export function MemberAvatar({ member, className = 'w-7 h-7' }: MemberAvatarProps) {
+  return (
+    <div className={`${className} rounded-full bg-gradient-to-br from-blue-400 to-purple-500 flex items-center justify-center overflow-hidden flex-shrink-0 shadow-md`}>
+      {member.profilePic ? (
+        <img src={member.profilePic} alt={member.name} className="w-full h-full object-cover" />
+      ) : (
+        <span className="text-white text-[10px]">{member.name.substring(0, 2).toUpperCase()}</span>
+      )}
+    </div>
+  );
+}
+
+// "Ana is typing", "Ana and Bo are typing", "Several people are typing"
+export function typingLabel(names: string[]) {
+  if (names.length === 1) return `${names[0]} is typing`;
+  if (names.length === 2) return `${names[0]} and ${names[1]} are typing`;
+  return 'Several people are typing';
+}
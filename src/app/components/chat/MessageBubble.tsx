@@ -0,0 +1,307 @@
+import { useEffect, useRef, useState } from 'react';
+import { Copy, Flag, Mic, Pencil, Reply, Send, ShieldOff, Smile, SmilePlus, Trash, X } from 'lucide-react';
+import { LIMITS } from '../../../../shared/protocol';
+import type { ChatMember, FileType, ReplyPreview } from '../../../../shared/protocol';
+import { MemberAvatar } from './MemberAvatar';
+import { TransferProgress } from './TransferProgress';
+import type { TransferState } from './TransferProgress';
+import { DeliveryStatus } from './DeliveryStatus';
+import type { DeliveryState } from './DeliveryStatus';
+import { EmojiPicker, insertEmoji } from './EmojiPicker';
+import { MessageReactions, QUICK_REACTIONS } from './MessageReactions';
+import type { Reaction } from './MessageReactions';
+import type { PreviewMedia } from './MediaPreview';
+
+export interface ChatMessage {
+  id: string;
+  // The local ID our own messages had before the server assigned `id`
+  key?: string;
+  // Set once the server has relayed the message
+  seq?: number;
+  text: string;
+  sender: 'user' | 'other' | 'system';
+  // Who sent it, for other people's messages
+  memberId?: string;
+  // Shown on the bubble in group chats only
+  author?: ChatMember;
+  type?: 'text' | 'file';
+  fileContent?: string;
+  fileType?: FileType;
+  isEdited?: boolean;
+  isDeleted?: boolean;
+  // Sent in plaintext although the chat is end-to-end encrypted
+  unencrypted?: boolean;
+  replyTo?: ReplyPreview;
+  transfer?: TransferState;
+  // Our own messages only
+  status?: DeliveryState;
+  reactions?: Reaction[];
+}
+
+function InlineEditor({ initialText, onSubmit, onCancel }: { initialText: string; onSubmit: (text: string) => void; onCancel: () => void }) {
+  const [text, setText] = useState(initialText);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <div className="flex gap-2 items-center bg-white/10 backdrop-blur-xl p-2 rounded-2xl border border-white/20">
+      <input
+        ref={inputRef}
+        type="text"
+        value={text}
+        maxLength={LIMITS.TEXT_LENGTH}
+        onChange={(e) => setText(e.target.value)}
+        className="bg-transparent text-white outline-none px-2 py-1 w-full"
+        autoFocus
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') onSubmit(text);
+          if (e.key === 'Escape') onCancel();
+        }}
+      />
+      <EmojiPicker inputRef={inputRef} onSelect={(emoji) => insertEmoji(inputRef.current, text, setText, emoji)} align="end">
+        <button type="button" className="p-1 hover:bg-white/10 rounded"><Smile className="w-4 h-4 text-white/70" /></button>
+      </EmojiPicker>
+      <button onClick={() => onSubmit(text)} className="p-1 hover:bg-white/10 rounded"><Send className="w-4 h-4 text-green-400" /></button>
+      <button onClick={onCancel} className="p-1 hover:bg-white/10 rounded"><X className="w-4 h-4 text-red-400" /></button>
+    </div>
+  );
+}
+
+const actionClass = 'p-1 rounded-md hover:bg-white/20 transition-colors hover:scale-110 active:scale-90';
+
+interface MessageBubbleProps {
+  msg: ChatMessage;
+  // Whether the chat is still on, so the message can be reacted to or sent again
+  active: boolean;
+  editing: boolean;
+  // False while another message is being edited
+  showActions: boolean;
+  // Who reacted, for the reaction chips
+  nameOf: (memberId: string | null) => string;
+  onStartEdit: () => void;
+  onSubmitEdit: (text: string) => void;
+  onCancelEdit: () => void;
+  onDelete: () => void;
+  onReply: () => void;
+  onReport: () => void;
+  onReact: (emoji: string) => void;
+  onRetry: () => void;
+  onCancelTransfer: (transferId: string) => void;
+  onPreview: (media: PreviewMedia) => void;
+}
+
+export function MessageBubble({
+  msg, active, editing, showActions, nameOf,
+  onStartEdit, onSubmitEdit, onCancelEdit, onDelete, onReply, onReport, onReact, onRetry, onCancelTransfer, onPreview
+}: MessageBubbleProps) {
+  const rootRef = useRef<HTMLDivElement>(null);
+  const [hovered, setHovered] = useState(false);
+  // The reaction picker is open, which keeps the toolbar up
+  const [reacting, setReacting] = useState(false);
+  // Files are downloaded as soon as they arrive, before their link expires,
+  // but only decoded and shown once the bubble has scrolled into view
+  const hasMedia = msg.type === 'file' && Boolean(msg.fileContent);
+  const [seen, setSeen] = useState(false);
+  useEffect(() => {
+    const element = rootRef.current;
+    if (!hasMedia || seen || !element) return;
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some(entry => entry.isIntersecting)) setSeen(true);
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [hasMedia, seen]);
+
+  const transferProgress = (overlay?: boolean) => msg.transfer && (
+    <TransferProgress transfer={msg.transfer} onCancel={() => onCancelTransfer(msg.transfer!.transferId)} overlay={overlay} />
+  );
+
+  return (
+    <div
+      ref={rootRef}
+      className={`flex ${msg.sender === 'user' ? 'justify-end' : msg.sender === 'system' ? 'justify-center' : 'justify-start'}`}
+      data-read-id={msg.sender === 'other' ? msg.id : undefined}
+      onMouseEnter={() => setHovered(true)}
+      onMouseLeave={() => setHovered(false)}
+    >
+      {msg.sender === 'system' ? (
+        <div className="px-4 py-1 text-xs text-white/50 bg-black/20 rounded-full backdrop-blur-sm">
+          {msg.text}
+        </div>
+      ) : (
+        <div className="relative group max-w-[85%] md:max-w-[80%]">
+          {msg.author && (
+            <div className="flex items-center gap-1.5 mb-1 ml-1">
+              <MemberAvatar member={msg.author} className="w-5 h-5" />
+              <span className="text-[11px] text-white/60">{msg.author.name}</span>
+            </div>
+          )}
+          {msg.isDeleted ? (
+            <div className="px-4 py-2.5 text-sm rounded-3xl backdrop-blur-2xl border shadow-md italic text-white/50 bg-white/5 border-white/10">
+              This message was deleted
+            </div>
+          ) : editing ? (
+            <InlineEditor initialText={msg.text} onSubmit={onSubmitEdit} onCancel={onCancelEdit} />
+          ) : (
+            <div
+              className={`relative text-sm shadow-md ${msg.sender === 'user'
+                ? 'bg-gradient-to-br from-purple-500/40 to-pink-500/40 border-white/30 text-white'
+                : 'bg-white/10 border-white/20 text-white/90'
+                } ${msg.type === 'file' && msg.fileContent && (msg.fileType === 'image' || msg.fileType === 'video') ? 'p-0 rounded-2xl overflow-hidden border-none bg-transparent' : 'px-4 py-2.5 rounded-3xl backdrop-blur-2xl border'}`}
+            >
+              {msg.replyTo && (
+                <div className={`mb-1 px-2 py-1 rounded-lg text-xs border-l-2 ${msg.sender === 'user' ? 'bg-black/10 border-white/50' : 'bg-white/10 border-purple-400'}`}>
+                  <span className="font-bold opacity-70 block">{msg.replyTo.sender === 'user' ? 'You' : 'Stranger'}</span>
+                  {msg.replyTo.type === 'file' ? (
+                    <div className="flex items-center gap-1 mt-0.5">
+                      {msg.replyTo.fileType === 'image' ? (
+                        <img src={msg.replyTo.fileContent} alt="Reply preview" loading="lazy" decoding="async" className="w-8 h-8 rounded object-cover" />
+                      ) : msg.replyTo.fileType === 'video' ? (
+                        <div className="w-8 h-8 rounded bg-black/20 flex items-center justify-center">
+                          <div className="w-0 h-0 border-t-4 border-t-transparent border-l-6 border-l-white border-b-4 border-b-transparent ml-0.5"></div>
+                        </div>
+                      ) : (
+                        <div className="w-8 h-8 rounded bg-black/20 flex items-center justify-center">
+                          <Mic className="w-4 h-4 opacity-70" />
+                        </div>
+                      )}
+                      <span className="opacity-60 truncate max-w-[120px]">{msg.replyTo.text}</span>
+                    </div>
+                  ) : (
+                    <p className="opacity-60 truncate max-w-[150px]">{msg.replyTo.text}</p>
+                  )}
+                </div>
+              )}
+              {msg.type === 'file' && msg.fileContent && !seen ? (
+                /* Holds the bubble's place until it is on screen */
+                msg.fileType === 'audio' ? <div className="h-8 w-48" /> : <div className="w-64 h-64 bg-white/5" />
+              ) : msg.type === 'file' && msg.fileContent ? (
+                msg.fileType === 'image' ? (
+                  <div className="relative">
+                    <img
+                      src={msg.fileContent}
+                      alt="Shared image"
+                      loading="lazy"
+                      decoding="async"
+                      className="max-w-xs max-h-64 object-cover cursor-pointer hover:opacity-90 transition-opacity"
+                      onClick={() => onPreview({ type: 'image', url: msg.fileContent! })}
+                    />
+                    {transferProgress(true)}
+                  </div>
+                ) : msg.fileType === 'video' ? (
+                  <div className="relative">
+                    <video
+                      src={msg.fileContent}
+                      preload="metadata"
+                      className="max-w-xs max-h-64 object-cover cursor-pointer hover:opacity-90 transition-opacity"
+                      onClick={() => onPreview({ type: 'video', url: msg.fileContent! })}
+                    />
+                    {transferProgress(true)}
+                  </div>
+                ) : (
+                  <div className="flex flex-col gap-1">
+                    <audio controls preload="metadata" src={msg.fileContent} className="h-8 w-48" />
+                    {transferProgress()}
+                  </div>
+                )
+              ) : msg.type === 'file' ? (
+                /* Incoming file that hasn't finished arriving */
+                <div className="flex flex-col">
+                  <span className="truncate max-w-[200px]">{msg.text}</span>
+                  {transferProgress()}
+                </div>
+              ) : (
+                <>
+                  {msg.text}
+                  {msg.isEdited && msg.sender !== 'user' && <span className="text-[10px] opacity-60 ml-1">(edited)</span>}
+                </>
+              )}
+            </div>
+          )}
+
+          {msg.unencrypted && !msg.isDeleted && !editing && (
+            <div className="flex items-center gap-1 mt-1 ml-1 text-[10px] text-amber-300/80">
+              <ShieldOff className="w-3 h-3" />
+              Not end-to-end encrypted
+            </div>
+          )}
+
+          {msg.reactions && !msg.isDeleted && !editing && (
+            <MessageReactions
+              reactions={msg.reactions}
+              nameOf={nameOf}
+              onToggle={active && msg.seq !== undefined ? onReact : undefined}
+              alignRight={msg.sender === 'user'}
+            />
+          )}
+
+          {msg.sender === 'user' && msg.status && !msg.isDeleted && !editing && (
+            <DeliveryStatus
+              status={msg.status}
+              onRetry={active && msg.type !== 'file' ? onRetry : undefined}
+            />
+          )}
+
+          {/* Action Icons on Hover */}
+          {(hovered || reacting) && showActions && !msg.isDeleted && (
+            <div
+              className={`absolute top-1/2 -translate-y-1/2 ${msg.sender === 'user' ? 'right-full mr-2' : 'left-full ml-2'
+                } flex items-center gap-1 px-2 py-1.5 rounded-lg bg-white/15 backdrop-blur-xl border border-white/30 shadow-lg z-20`}
+            >
+              {active && msg.seq !== undefined && (
+                <>
+                  {QUICK_REACTIONS.map(emoji => (
+                    <button
+                      key={emoji}
+                      onClick={() => onReact(emoji)}
+                      className="p-0.5 rounded-md text-sm leading-none hover:bg-white/20 transition-colors hover:scale-110 active:scale-90"
+                    >
+                      {emoji}
+                    </button>
+                  ))}
+                  <EmojiPicker
+                    open={reacting}
+                    onOpenChange={setReacting}
+                    onSelect={(emoji) => {
+                      onReact(emoji);
+                      setReacting(false);
+                    }}
+                    align={msg.sender === 'user' ? 'end' : 'start'}
+                  >
+                    <button className={actionClass}>
+                      <SmilePlus className="w-3.5 h-3.5 text-white/80" />
+                    </button>
+                  </EmojiPicker>
+                  <div className="w-px h-4 bg-white/20 mx-0.5" />
+                </>
+              )}
+              {/* Edits, deletes and replies need the ID the server assigns */}
+              {msg.sender === 'user' && msg.seq !== undefined && (
+                <>
+                  <button onClick={onStartEdit} className={actionClass}>
+                    <Pencil className="w-3.5 h-3.5 text-white/80" />
+                  </button>
+                  <button onClick={onDelete} className={actionClass}>
+                    <Trash className="w-3.5 h-3.5 text-red-300" />
+                  </button>
+                </>
+              )}
+              <button onClick={() => navigator.clipboard.writeText(msg.text)} className={actionClass}>
+                <Copy className="w-3.5 h-3.5 text-white/80" />
+              </button>
+              {msg.seq !== undefined && (
+                <button onClick={onReply} className={actionClass}>
+                  <Reply className="w-3.5 h-3.5 text-white/80" />
+                </button>
+              )}
+              {msg.sender === 'other' && (
+                <button onClick={onReport} className={actionClass}>
+                  <Flag className="w-3.5 h-3.5 text-yellow-300" />
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
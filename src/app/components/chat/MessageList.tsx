@@ -0,0 +1,93 @@
+import { useLayoutEffect, useMemo, useRef } from 'react';
+import type { ReactNode } from 'react';
+import { ArrowDown } from 'lucide-react';
+import { useReadReceipts } from '../../hooks/useReadReceipts';
+import { useVirtualList } from '../../hooks/useVirtualList';
+import type { ChatMessage } from './MessageBubble';
+
+// Rough bubble heights, including the gap below each one, until the real ones are measured
+const estimateHeight = (msg: ChatMessage) => {
+  if (msg.sender === 'system') return 32;
+  if (msg.type === 'file' && (msg.fileType === 'image' || msg.fileType === 'video')) return 272;
+  return msg.replyTo ? 104 : 56;
+};
+
+// Our own messages swap their local ID for the server's once sent, so rows are keyed by the original
+const rowKey = (msg: ChatMessage) => msg.key ?? msg.id;
+
+interface MessageListProps {
+  messages: ChatMessage[];
+  renderMessage: (msg: ChatMessage) => ReactNode;
+  // Shown after the last message, like the typing indicator
+  footer?: ReactNode;
+  readReceipts: boolean;
+  onRead: (ids: string[]) => void;
+}
+
+/**
+ * The chat's messages, with only the ones near the viewport rendered. New
+ * messages from others don't pull someone reading history down to the
+ * bottom; a pill counts them instead. Sending a message always does.
+ */
+export function MessageList({ messages, renderMessage, footer, readReceipts, onRead }: MessageListProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const { start, end, before, after, atBottom, measure, measureFooter, scrollToBottom } = useVirtualList(containerRef, messages, {
+    getKey: rowKey,
+    estimateHeight
+  });
+  const visible = useMemo(() => messages.slice(start, end), [messages, start, end]);
+
+  // Receipts pick up bubbles as they're rendered, not just when messages arrive
+  useReadReceipts(containerRef, visible, { enabled: readReceipts, onRead });
+
+  // Partner messages that arrived since the user last saw the bottom
+  const otherCount = useMemo(() => messages.filter(msg => msg.sender === 'other').length, [messages]);
+  const seenCountRef = useRef(otherCount);
+  const newCount = atBottom ? 0 : otherCount - seenCountRef.current;
+  const lengthRef = useRef(messages.length);
+
+  useLayoutEffect(() => {
+    if (atBottom) seenCountRef.current = otherCount;
+  }, [atBottom, otherCount]);
+
+  useLayoutEffect(() => {
+    const added = messages.length > lengthRef.current;
+    lengthRef.current = messages.length;
+    if (added && messages[messages.length - 1].sender === 'user') scrollToBottom();
+  }, [messages, scrollToBottom]);
+
+  return (
+    <div className="relative flex-1 min-h-0">
+      <div
+        ref={containerRef}
+        className="h-full overflow-y-auto px-1 scrollbar-hide"
+        style={{
+          scrollbarWidth: 'none',
+          msOverflowStyle: 'none',
+          overflowAnchor: 'none',
+        }}
+      >
+        <div className="min-h-full flex flex-col justify-end">
+          <div style={{ paddingTop: before, paddingBottom: after }}>
+            {visible.map((msg) => (
+              <div key={rowKey(msg)} ref={measure(rowKey(msg))} className="pb-2">
+                {renderMessage(msg)}
+              </div>
+            ))}
+          </div>
+          <div ref={measureFooter}>{footer}</div>
+        </div>
+      </div>
+
+      {newCount > 0 && (
+        <button
+          onClick={scrollToBottom}
+          className="absolute bottom-2 left-1/2 -translate-x-1/2 flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-white/20 backdrop-blur-xl border border-white/30 text-white text-xs shadow-lg hover:bg-white/30 transition-colors"
+        >
+          <ArrowDown className="w-3.5 h-3.5" />
+          {newCount === 1 ? '1 new message' : `${newCount} new messages`}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+// Offered in the hover toolbar; anything else comes from the full picker
+export const QUICK_REACTIONS = ['👍', '❤️', '😂', '😮', '😢', '🙏'];
+
+export interface Reaction {
+  emoji: string;
+  // null for our own reactions
+  memberId: string | null;
+}
+
+/**
+ * Add `memberId`'s `emoji` to a message's reactions, or take it back when
+ * `add` is false. Adding one that is already there leaves the list alone,
+ * since relays can be replayed after a reconnect.
+ */
+export function applyReaction(reactions: Reaction[] = [], emoji: string, memberId: string | null, add: boolean) {
+  const exists = reactions.some(reaction => reaction.emoji === emoji && reaction.memberId === memberId);
+  if (add) return exists ? reactions : [...reactions, { emoji, memberId }];
+  return reactions.filter(reaction => reaction.emoji !== emoji || reaction.memberId !== memberId);
+}
+
+interface MessageReactionsProps {
+  reactions: Reaction[];
+  // Who reacted, for the chip's tooltip
+  nameOf: (memberId: string | null) => string;
+  // Omitted when reactions can't be changed, e.g. after the chat ended
+  onToggle?: (emoji: string) => void;
+  alignRight?: boolean;
+}
+
+// One chip per emoji, in the order each was first used, with how many reacted with it
+export function MessageReactions({ reactions, nameOf, onToggle, alignRight }: MessageReactionsProps) {
+  const groups = new Map<string, Array<string | null>>();
+  for (const { emoji, memberId } of reactions) {
+    groups.set(emoji, [...(groups.get(emoji) || []), memberId]);
+  }
+  if (groups.size === 0) return null;
+
+  return (
+    <div className={`flex flex-wrap gap-1 mt-1 ${alignRight ? 'justify-end' : 'justify-start'}`}>
+      {[...groups].map(([emoji, memberIds]) => {
+        const mine = memberIds.includes(null);
+        return (
+          <button
+            key={emoji}
+            type="button"
+            disabled={!onToggle}
+            onClick={() => onToggle?.(emoji)}
+            title={memberIds.map(nameOf).join(', ')}
+            className={`flex items-center gap-1 px-2 py-0.5 rounded-full border text-xs backdrop-blur-xl transition-colors disabled:cursor-default ${mine
+              ? 'bg-purple-500/30 border-purple-300/50 text-white'
+              : 'bg-white/10 border-white/20 text-white/80 enabled:hover:bg-white/20'
+              }`}
+          >
+            <span className="text-sm leading-none">{emoji}</span>
+            <span>{memberIds.length}</span>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+import { AnimatePresence, motion } from 'motion/react';
+import { Eye, EyeOff, LogOut, MessageSquareText, MessageSquareOff, SkipForward } from 'lucide-react';
+
+interface OptionsModalProps {
+  open: boolean;
+  onClose: () => void;
+  readReceipts: boolean;
+  onToggleReadReceipts: () => void;
+  notificationPreviews: boolean;
+  onToggleNotificationPreviews: () => void;
+  onNext: () => void;
+  onQuit: () => void;
+}
+
+// Opened with Esc during a chat
+export function OptionsModal({
+  open, onClose, readReceipts, onToggleReadReceipts, notificationPreviews, onToggleNotificationPreviews, onNext, onQuit
+}: OptionsModalProps) {
+  return (
+    <AnimatePresence>
+      {open && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="absolute inset-0 z-50 flex items-center justify-center"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ scale: 0.9, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            exit={{ scale: 0.9, opacity: 0 }}
+            className="bg-gray-900/90 border border-white/10 p-6 rounded-2xl shadow-2xl w-80 flex flex-col gap-3"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <h3 className="text-white text-lg font-medium mb-2 text-center">Options</h3>
+
+            <button
+              onClick={onNext}
+              className="flex items-center gap-3 w-full p-3 rounded-xl bg-white/5 hover:bg-white/10 text-white transition-colors"
+            >
+              <SkipForward className="w-5 h-5 text-blue-400" />
+              <span>Find Next Stranger</span>
+              <span className="ml-auto text-xs text-white/40 border border-white/20 px-1.5 py-0.5 rounded">Esc</span>
+            </button>
+
+            <button
+              onClick={onToggleReadReceipts}
+              className="flex items-center gap-3 w-full p-3 rounded-xl bg-white/5 hover:bg-white/10 text-white transition-colors"
+            >
+              {readReceipts ? <Eye className="w-5 h-5 text-sky-300" /> : <EyeOff className="w-5 h-5 text-white/40" />}
+              <span>Read receipts</span>
+              <span className="ml-auto text-xs text-white/40">{readReceipts ? 'On' : 'Off'}</span>
+            </button>
+
+            <button
+              onClick={onToggleNotificationPreviews}
+              className="flex items-center gap-3 w-full p-3 rounded-xl bg-white/5 hover:bg-white/10 text-white transition-colors"
+            >
+              {notificationPreviews ? <MessageSquareText className="w-5 h-5 text-sky-300" /> : <MessageSquareOff className="w-5 h-5 text-white/40" />}
+              <span>Message text in notifications</span>
+              <span className="ml-auto text-xs text-white/40">{notificationPreviews ? 'Shown' : 'Hidden'}</span>
+            </button>
+
+            <button
+              onClick={onQuit}
+              className="flex items-center gap-3 w-full p-3 rounded-xl bg-white/5 hover:bg-red-500/20 text-red-400 transition-colors"
+            >
+              <LogOut className="w-5 h-5" />
+              <span>Quit Chat</span>
+            </button>
+
+            <button
+              onClick={onClose}
+              className="flex items-center gap-3 w-full p-3 rounded-xl hover:bg-white/5 text-white/60 transition-colors justify-center mt-2"
+            >
+              Cancel
+            </button>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
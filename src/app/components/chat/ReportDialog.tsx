@@ -0,0 +1,115 @@
+import { useEffect, useState } from 'react';
+import { Flag } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '../ui/dialog';
+import { RadioGroup, RadioGroupItem } from '../ui/radio-group';
+import { Checkbox } from '../ui/checkbox';
+import { LIMITS, REPORT_REASONS } from '../../../../shared/protocol';
+import type { ReportReason } from '../../../../shared/protocol';
+
+const REASON_LABELS: Record<ReportReason, string> = {
+  spam: 'Spam or scam',
+  harassment: 'Harassment or hate',
+  explicit: 'Sexual or explicit content',
+  underage: 'Appears to be underage',
+  other: 'Something else',
+};
+
+interface ReportDialogProps {
+  message: { id: string; text: string } | null;
+  partnerName: string;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (report: { messageId: string; reason: ReportReason; excerpt?: string }) => void;
+}
+
+export function ReportDialog({ message, partnerName, onOpenChange, onSubmit }: ReportDialogProps) {
+  const [reason, setReason] = useState<ReportReason>('spam');
+  const [attachExcerpt, setAttachExcerpt] = useState(true);
+  const [excerpt, setExcerpt] = useState('');
+
+  useEffect(() => {
+    if (message) {
+      setReason('spam');
+      setAttachExcerpt(true);
+      setExcerpt(message.text.slice(0, LIMITS.REPORT_EXCERPT_LENGTH));
+    }
+  }, [message]);
+
+  const handleSubmit = () => {
+    if (!message) return;
+    onSubmit({
+      messageId: message.id,
+      reason,
+      excerpt: attachExcerpt && excerpt.trim() ? excerpt.trim() : undefined,
+    });
+  };
+
+  return (
+    <Dialog open={message !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-gray-900/95 border-white/10 text-white backdrop-blur-xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Flag className="w-5 h-5 text-yellow-300" />
+            Report {partnerName}
+          </DialogTitle>
+          <DialogDescription className="text-white/60">
+            Moderators can't read encrypted chats, so they only see what you choose to attach.
+          </DialogDescription>
+        </DialogHeader>
+
+        <RadioGroup value={reason} onValueChange={(value) => setReason(value as ReportReason)} className="gap-2">
+          {REPORT_REASONS.map((option) => (
+            <label
+              key={option}
+              className="flex items-center gap-3 px-3 py-2 rounded-xl bg-white/5 hover:bg-white/10 cursor-pointer text-sm transition-colors"
+            >
+              <RadioGroupItem value={option} className="border-white/40" />
+              {REASON_LABELS[option]}
+            </label>
+          ))}
+        </RadioGroup>
+
+        <div className="flex flex-col gap-2">
+          <label className="flex items-center gap-2 text-sm text-white/80 cursor-pointer">
+            <Checkbox
+              checked={attachExcerpt}
+              onCheckedChange={(checked) => setAttachExcerpt(checked === true)}
+              className="border-white/40"
+            />
+            Attach an excerpt of the message
+          </label>
+          {attachExcerpt && (
+            <textarea
+              value={excerpt}
+              onChange={(e) => setExcerpt(e.target.value)}
+              maxLength={LIMITS.REPORT_EXCERPT_LENGTH}
+              rows={3}
+              className="w-full rounded-xl bg-white/5 border border-white/10 px-3 py-2 text-sm text-white outline-none focus:bg-white/10 resize-none"
+            />
+          )}
+        </div>
+
+        <DialogFooter>
+          <button
+            onClick={() => onOpenChange(false)}
+            className="px-4 py-2 rounded-xl hover:bg-white/5 text-white/60 text-sm transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSubmit}
+            className="px-4 py-2 rounded-xl bg-red-500/20 border border-red-400/40 hover:bg-red-500/30 text-red-200 text-sm transition-colors"
+          >
+            Send report
+          </button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,106 @@
+import { useEffect, useState } from 'react';
+import QRCode from 'qrcode';
+import { ShieldAlert, ShieldCheck } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '../ui/dialog';
+import type { SafetyNumber } from '../../../utils/crypto';
+
+interface SafetyNumberDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  safetyNumber: SafetyNumber | null;
+  partnerName: string;
+  verified: boolean;
+  keyChanged: boolean;
+  onVerifiedChange: (verified: boolean) => void;
+}
+
+export function SafetyNumberDialog({
+  open,
+  onOpenChange,
+  safetyNumber,
+  partnerName,
+  verified,
+  keyChanged,
+  onVerifiedChange,
+}: SafetyNumberDialogProps) {
+  const [qrCode, setQrCode] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!safetyNumber) {
+      setQrCode(null);
+      return;
+    }
+    let cancelled = false;
+    QRCode.toDataURL(`codxell-safety:${safetyNumber.fingerprint}`, { margin: 1, width: 192 })
+      .then((url) => { if (!cancelled) setQrCode(url); })
+      .catch((err) => console.error('Failed to render safety number QR code:', err));
+    return () => { cancelled = true; };
+  }, [safetyNumber]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-gray-900/95 border-white/10 text-white backdrop-blur-xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            {verified ? <ShieldCheck className="w-5 h-5 text-green-400" /> : <ShieldAlert className="w-5 h-5 text-yellow-300" />}
+            Verify safety number
+          </DialogTitle>
+          <DialogDescription className="text-white/60">
+            Compare these symbols with {partnerName} over another channel, like a call or in person.
+            If they match, nobody is intercepting this chat.
+          </DialogDescription>
+        </DialogHeader>
+
+        {keyChanged && (
+          <div className="rounded-xl border border-red-500/50 bg-red-500/15 px-3 py-2 text-sm text-red-200">
+            {partnerName}'s encryption key changed during this chat. Compare the new safety number before sending anything else.
+          </div>
+        )}
+
+        {safetyNumber ? (
+          <div className="flex flex-col items-center gap-4">
+            <div className="grid grid-cols-4 sm:grid-cols-6 gap-2 w-full">
+              {safetyNumber.symbols.map((symbol, index) => (
+                <div key={index} className="flex flex-col items-center rounded-xl bg-white/5 border border-white/10 py-1.5">
+                  <span className="text-2xl leading-none">{symbol.emoji}</span>
+                  <span className="mt-1 text-[10px] text-white/60 truncate max-w-full px-1">{symbol.word}</span>
+                </div>
+              ))}
+            </div>
+            {qrCode && (
+              <img src={qrCode} alt="Safety number QR code" className="w-40 h-40 rounded-lg bg-white p-1" />
+            )}
+          </div>
+        ) : (
+          <p className="text-sm text-white/60">The encryption handshake hasn't finished yet.</p>
+        )}
+
+        <DialogFooter>
+          {verified ? (
+            <button
+              onClick={() => onVerifiedChange(false)}
+              className="px-4 py-2 rounded-xl bg-white/5 hover:bg-white/10 text-white/80 text-sm transition-colors"
+            >
+              Clear verification
+            </button>
+          ) : (
+            <button
+              onClick={() => onVerifiedChange(true)}
+              disabled={!safetyNumber}
+              className="px-4 py-2 rounded-xl bg-green-500/20 border border-green-400/40 hover:bg-green-500/30 text-green-200 text-sm transition-colors disabled:opacity-50"
+            >
+              They match, mark as verified
+            </button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
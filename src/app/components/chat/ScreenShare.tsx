@@ -0,0 +1,84 @@
+import { MonitorUp, MonitorX } from 'lucide-react';
+import type { CallPhase } from '../../hooks/useCall';
+import { StreamVideo } from './StreamVideo';
+
+interface ScreenShareProps {
+  phase: Exclude<CallPhase, 'idle'>;
+  // True on the side sharing its screen, false on the side viewing it
+  isSharing: boolean;
+  remoteStream: MediaStream | null;
+  onAccept: () => void;
+  onDecline: () => void;
+  onStop: () => void;
+}
+
+const bannerClass = 'mb-2 mx-1 rounded-xl border backdrop-blur-xl px-4 py-3 flex items-center gap-3 shadow-lg';
+
+export function ScreenShare({ phase, isSharing, remoteStream, onAccept, onDecline, onStop }: ScreenShareProps) {
+  // The sharer never sees their own screen echoed back, just a reminder that it's live
+  if (isSharing) {
+    const live = phase === 'active';
+    return (
+      <div className={`${bannerClass} ${live ? 'border-red-400/50 bg-red-500/20' : 'border-white/20 bg-white/10'}`}>
+        {live ? (
+          <span className="w-2.5 h-2.5 rounded-full bg-red-500 animate-pulse flex-shrink-0" />
+        ) : (
+          <MonitorUp className="w-5 h-5 text-white/80" />
+        )}
+        <p className="flex-1 text-sm text-white">
+          {phase === 'outgoing' ? 'Waiting for Stranger to accept your screen share…'
+            : phase === 'connecting' ? 'Connecting your screen share…'
+            : 'You are sharing your screen with Stranger'}
+        </p>
+        <button
+          onClick={onStop}
+          className="px-3 py-1.5 rounded-lg bg-red-500/30 hover:bg-red-500/45 text-white text-xs transition-colors"
+        >
+          {live ? 'Stop sharing' : 'Cancel'}
+        </button>
+      </div>
+    );
+  }
+
+  if (phase === 'incoming') {
+    return (
+      <div className={`${bannerClass} border-white/20 bg-white/10`}>
+        <MonitorUp className="w-5 h-5 text-white/80" />
+        <p className="flex-1 text-sm text-white">Stranger wants to share their screen with you.</p>
+        <button
+          onClick={onAccept}
+          className="px-3 py-1.5 rounded-lg bg-green-500/30 hover:bg-green-500/45 text-white text-xs transition-colors"
+        >
+          View
+        </button>
+        <button
+          onClick={onDecline}
+          className="px-3 py-1.5 rounded-lg bg-red-500/25 hover:bg-red-500/40 text-white text-xs transition-colors"
+        >
+          Decline
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative mb-2 mx-1 h-[45%] min-h-[200px] rounded-2xl overflow-hidden border border-white/20 bg-black/60 backdrop-blur-xl shadow-lg">
+      {remoteStream ? (
+        <StreamVideo stream={remoteStream} muted className="w-full h-full object-contain" />
+      ) : (
+        <div className="w-full h-full flex flex-col items-center justify-center gap-2 text-white/70 text-sm">
+          <MonitorUp className="w-8 h-8" />
+          Connecting to Stranger's screen…
+        </div>
+      )}
+      <button
+        onClick={onStop}
+        title="Stop viewing"
+        className="absolute top-3 right-3 flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-black/50 hover:bg-black/70 border border-white/20 text-white text-xs transition-colors"
+      >
+        <MonitorX className="w-4 h-4" />
+        Stop viewing
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+import { motion } from 'motion/react';
+import type { ChatMode } from '../../../../shared/protocol';
+
+interface SearchingNoticeProps {
+  mode: ChatMode;
+  // Set while the server has us waiting before we can join the queue again
+  cooldownSeconds: number;
+}
+
+export function SearchingNotice({ mode, cooldownSeconds }: SearchingNoticeProps) {
+  return (
+    <motion.div
+      key="loading"
+      initial={{ opacity: 0, scale: 0.8 }}
+      animate={{ opacity: 1, scale: 1 }}
+      exit={{
+        opacity: 0,
+        scale: 0.8,
+      }}
+      transition={{
+        duration: 0.5,
+        ease: [0.25, 0.1, 0.25, 1]
+      }}
+      className="flex items-center gap-4"
+    >
+      {/* Simple rotating circle */}
+      <motion.div
+        className="w-8 h-8 rounded-full border-3 border-white/30 border-t-white"
+        animate={{ rotate: 360 }}
+        transition={{
+          duration: 1,
+          repeat: Infinity,
+          ease: 'linear',
+        }}
+      />
+
+      {/* Loading text */}
+      <motion.p
+        className="text-white/90 text-xl"
+        animate={{
+          opacity: [0.5, 1, 0.5],
+        }}
+        transition={{
+          duration: 1.5,
+          repeat: Infinity,
+          ease: 'easeInOut',
+        }}
+      >
+        {cooldownSeconds > 0
+          ? `too many new chats, searching again in ${cooldownSeconds}s...`
+          : mode === 'group' ? 'finding strangers...' : 'finding stranger...'}
+      </motion.p>
+    </motion.div>
+  );
+}
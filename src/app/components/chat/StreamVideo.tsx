@@ -0,0 +1,16 @@
+import { useEffect, useRef } from 'react';
+
+interface StreamVideoProps {
+  stream: MediaStream | null;
+  muted?: boolean;
+  className?: string;
+}
+
+// A <video> playing a live MediaStream, which can't be set through a prop
+export function StreamVideo({ stream, muted = false, className }: StreamVideoProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  useEffect(() => {
+    if (videoRef.current) videoRef.current.srcObject = stream;
+  }, [stream]);
+  return <video ref={videoRef} autoPlay playsInline muted={muted} className={className} />;
+}
@@ -0,0 +1,48 @@
+import { X } from 'lucide-react';
+
+export interface TransferState {
+  transferId: string;
+  transferred: number;
+  total: number;
+  status: 'active' | 'complete' | 'cancelled' | 'failed';
+}
+
+const formatMB = (bytes: number) => (bytes / (1024 * 1024)).toFixed(2);
+
+interface TransferProgressProps {
+  transfer: TransferState;
+  onCancel: () => void;
+  // Cover the media preview instead of sitting inline
+  overlay?: boolean;
+}
+
+export function TransferProgress({ transfer, onCancel, overlay = false }: TransferProgressProps) {
+  if (transfer.status === 'complete') return null;
+
+  const label = transfer.status === 'cancelled'
+    ? 'Cancelled'
+    : transfer.status === 'failed'
+      ? 'Failed'
+      : `${formatMB(transfer.transferred)}MB / ${formatMB(transfer.total)}MB`;
+
+  return (
+    <div className={`${overlay ? 'absolute inset-0 bg-black/50 justify-center' : 'mt-1'} flex items-center gap-2`}>
+      <div className="flex flex-col gap-1 min-w-[120px]">
+        <span className="text-white text-xs font-medium">{label}</span>
+        {transfer.status === 'active' && (
+          <div className="h-1 rounded-full bg-white/20 overflow-hidden">
+            <div
+              className="h-full bg-white transition-all"
+              style={{ width: `${(transfer.transferred / transfer.total) * 100}%` }}
+            />
+          </div>
+        )}
+      </div>
+      {transfer.status === 'active' && (
+        <button type="button" onClick={onCancel} className="p-1 rounded-full hover:bg-white/20" title="Cancel">
+          <X className="w-3 h-3 text-white" />
+        </button>
+      )}
+    </div>
+  );
+}
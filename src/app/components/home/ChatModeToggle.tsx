@@ -0,0 +1,34 @@
+import { User, Users } from 'lucide-react';
+import type { ChatMode } from '../../../../shared/protocol';
+
+interface ChatModeToggleProps {
+  mode: ChatMode;
+  onChange: (mode: ChatMode) => void;
+}
+
+const OPTIONS: { mode: ChatMode; label: string; Icon: typeof User }[] = [
+  { mode: 'pair', label: '1-on-1', Icon: User },
+  { mode: 'group', label: 'Group', Icon: Users },
+];
+
+export function ChatModeToggle({ mode, onChange }: ChatModeToggleProps) {
+  return (
+    <div className="flex p-1 bg-white/10 backdrop-blur-xl border border-white/20 rounded-2xl self-center md:self-auto">
+      {OPTIONS.map(({ mode: option, label, Icon }) => (
+        <button
+          key={option}
+          type="button"
+          onClick={() => onChange(option)}
+          title={option === 'group' ? 'Chat with a few strangers at once. Group chats are not end-to-end encrypted.' : 'Chat with one stranger'}
+          className={`flex items-center gap-1.5 px-4 py-3 rounded-xl text-sm transition-colors ${mode === option
+            ? 'bg-white/20 text-white'
+            : 'text-white/60 hover:text-white hover:bg-white/10'
+            }`}
+        >
+          <Icon className="w-4 h-4" />
+          {label}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+import { useRef } from 'react';
+import { motion } from 'motion/react';
+import { Camera, User } from 'lucide-react';
+import type { ChatMode } from '../../../../shared/protocol';
+import { ChatModeToggle } from './ChatModeToggle';
+import { InterestInput } from './InterestInput';
+
+interface HomeViewProps {
+  username: string;
+  onUsernameChange: (username: string) => void;
+  profilePic: string | null;
+  onProfilePicSelect: (file: File) => void;
+  chatMode: ChatMode;
+  onChatModeChange: (mode: ChatMode) => void;
+  interests: string[];
+  onInterestsChange: (interests: string[]) => void;
+  onStart: () => void;
+}
+
+export function HomeView({
+  username, onUsernameChange, profilePic, onProfilePicSelect, chatMode, onChatModeChange, interests, onInterestsChange, onStart
+}: HomeViewProps) {
+  const profilePicInputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, scale: 0.9 }}
+      animate={{ opacity: 1, scale: 1 }}
+      exit={{ opacity: 0, scale: 0.9 }}
+      className="flex flex-col items-start gap-8 max-w-4xl w-full px-6 md:px-12"
+    >
+      <div className="space-y-4 md:space-y-2 w-full">
+        <h1 className="text-5xl md:text-7xl font-bold text-white tracking-tighter drop-shadow-lg">
+          Codxell
+        </h1>
+        <p className="text-white/60 text-lg md:text-xl max-w-2xl leading-relaxed">
+          Experience seamless connections in a beautifully designed environment.
+          Chat anonymously, share moments, and discover new conversations with people across the globe.
+        </p>
+      </div>
+
+      <div className="flex flex-col md:flex-row items-stretch md:items-center gap-4 w-full md:w-auto">
+        {/* Profile Pic Upload */}
+        <div className="relative group/profile flex-shrink-0 self-center md:self-auto">
+          <input
+            type="file"
+            ref={profilePicInputRef}
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onProfilePicSelect(file);
+            }}
+            accept="image/*"
+          />
+          <button
+            onClick={() => profilePicInputRef.current?.click()}
+            className="w-16 h-16 rounded-full bg-white/10 backdrop-blur-xl flex items-center justify-center overflow-hidden hover:bg-white/20 transition-all relative"
+          >
+            {profilePic ? (
+              <img src={profilePic} alt="Profile" className="w-full h-full object-cover" />
+            ) : (
+              <User className="w-8 h-8 text-white/50" />
+            )}
+            <div className="absolute inset-0 bg-black/50 flex items-center justify-center opacity-0 group-hover/profile:opacity-100 transition-opacity">
+              <Camera className="w-6 h-6 text-white" />
+            </div>
+          </button>
+        </div>
+
+        <input
+          type="text"
+          placeholder="Enter your name"
+          value={username}
+          onChange={(e) => onUsernameChange(e.target.value)}
+          className="px-6 py-4 bg-white/10 backdrop-blur-xl border border-white/20 rounded-2xl text-white text-xl placeholder-white/40 outline-none focus:bg-white/20 transition-all w-full md:w-64"
+          onKeyDown={(e) => e.key === 'Enter' && onStart()}
+        />
+        <ChatModeToggle mode={chatMode} onChange={onChatModeChange} />
+        {/* Groups are filled without looking at interests */}
+        {chatMode === 'pair' && <InterestInput interests={interests} onChange={onInterestsChange} />}
+        <button
+          onClick={onStart}
+          disabled={!username.trim()}
+          className="group relative px-8 py-4 bg-white/10 backdrop-blur-xl border border-white/20 rounded-2xl text-white text-xl font-medium overflow-hidden shadow-xl hover:scale-105 active:scale-95 transition-transform duration-200 disabled:opacity-50 disabled:cursor-not-allowed w-full md:w-auto"
+        >
+          <span className="relative z-10">Start Chatting</span>
+          <div
+            className="absolute inset-0 bg-gradient-to-r from-purple-500/50 via-pink-500/50 to-blue-500/50 opacity-0 group-hover:opacity-100 transition-opacity duration-500"
+          />
+        </button>
+      </div>
+    </motion.div>
+  );
+}
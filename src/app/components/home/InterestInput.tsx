@@ -0,0 +1,60 @@
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import { LIMITS } from '../../../../shared/protocol';
+
+interface InterestInputProps {
+  interests: string[];
+  onChange: (interests: string[]) => void;
+}
+
+export function InterestInput({ interests, onChange }: InterestInputProps) {
+  const [draft, setDraft] = useState('');
+
+  const addInterest = (value: string) => {
+    const tag = value.trim().toLowerCase().replace(/^#/, '').replace(/[^\p{L}\p{N} _-]/gu, '');
+    if (!tag || interests.includes(tag) || interests.length >= LIMITS.INTERESTS) return;
+    onChange([...interests, tag]);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      if (draft.trim()) {
+        e.preventDefault();
+        e.stopPropagation();
+        addInterest(draft);
+        setDraft('');
+      }
+    } else if (e.key === 'Backspace' && !draft && interests.length > 0) {
+      onChange(interests.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5 px-4 py-3 bg-white/10 backdrop-blur-xl border border-white/20 rounded-2xl focus-within:bg-white/20 transition-all w-full md:w-72 min-h-[60px]">
+      {interests.map((tag) => (
+        <span key={tag} className="flex items-center gap-1 pl-2.5 pr-1 py-0.5 rounded-full bg-purple-500/30 border border-white/20 text-white text-sm">
+          #{tag}
+          <button
+            type="button"
+            onClick={() => onChange(interests.filter((t) => t !== tag))}
+            className="p-0.5 rounded-full hover:bg-white/20"
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </span>
+      ))}
+      {interests.length < LIMITS.INTERESTS && (
+        <input
+          type="text"
+          placeholder={interests.length === 0 ? 'Interests (optional)' : 'Add more'}
+          value={draft}
+          maxLength={LIMITS.INTEREST_LENGTH}
+          onChange={(e) => setDraft(e.target.value.replace(',', ''))}
+          onKeyDown={handleKeyDown}
+          onBlur={() => { addInterest(draft); setDraft(''); }}
+          className="flex-1 min-w-[100px] bg-transparent text-white text-base placeholder-white/40 outline-none"
+        />
+      )}
+    </div>
+  );
+}
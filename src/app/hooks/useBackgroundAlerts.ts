@@ -0,0 +1,53 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { isTabFocused, setFaviconBadge, showNotification } from '../../utils/notifications';
+
+interface Alert {
+  title: string;
+  body: string;
+  // Message text, shown in place of `body` only if `showContent` is on
+  content?: string;
+  // Whether this counts toward the unread badge
+  unread?: boolean;
+}
+
+/**
+ * Let the user know about chat activity while the tab is in the background:
+ * a system notification when `enabled`, and an unread count in the title and
+ * favicon that clears once the tab is focused again. Alerts raised while the
+ * tab is focused are ignored.
+ */
+export function useBackgroundAlerts({ enabled, showContent }: { enabled: boolean; showContent: boolean }) {
+  const [unread, setUnread] = useState(0);
+  const baseTitleRef = useRef(document.title);
+  const enabledRef = useRef(enabled);
+  const showContentRef = useRef(showContent);
+  enabledRef.current = enabled;
+  showContentRef.current = showContent;
+
+  useEffect(() => {
+    const clear = () => {
+      if (isTabFocused()) setUnread(0);
+    };
+    window.addEventListener('focus', clear);
+    document.addEventListener('visibilitychange', clear);
+    return () => {
+      window.removeEventListener('focus', clear);
+      document.removeEventListener('visibilitychange', clear);
+    };
+  }, []);
+
+  useEffect(() => {
+    document.title = unread > 0 ? `(${unread}) ${baseTitleRef.current}` : baseTitleRef.current;
+    setFaviconBadge(unread);
+  }, [unread]);
+
+  // Stable, so socket handlers registered once can call it
+  return useCallback(({ title, body, content, unread: countsAsUnread = false }: Alert) => {
+    if (isTabFocused()) return;
+    if (countsAsUnread) setUnread(count => count + 1);
+    if (enabledRef.current) {
+      // Notifications with the same tag replace each other instead of piling up
+      showNotification(title, { body: content && showContentRef.current ? content : body, tag: 'stranger-chat' });
+    }
+  }, []);
+}
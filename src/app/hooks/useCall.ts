@@ -0,0 +1,264 @@
+import { useEffect, useRef, useState } from 'react';
+import type { RefObject } from 'react';
+import type { Socket } from 'socket.io-client';
+import type { CallKind, ClientToServerEvents, ServerToClientEvents } from '../../../shared/protocol';
+import { canUseMedia, connectPeer } from '../../utils/rtc';
+import type { PeerLink } from '../../utils/rtc';
+
+// How long an unanswered call rings before the caller gives up
+const RING_TIMEOUT_MS = 30000;
+
+export type CallPhase = 'idle' | 'outgoing' | 'incoming' | 'connecting' | 'active';
+
+interface Call {
+  callId: string;
+  kind: CallKind;
+  isCaller: boolean;
+  iceServers: RTCIceServer[];
+  stream: MediaStream | null;
+  link: PeerLink | null;
+  ringTimer?: ReturnType<typeof setTimeout>;
+}
+
+// Notices for each way a call can end, from this side's point of view
+function describe({ kind, isCaller }: Call) {
+  if (kind !== 'screen') {
+    return { declined: 'Stranger declined the call.', ended: 'Call ended.', missed: 'Missed call from Stranger.', peerEnded: 'Stranger ended the call.' };
+  }
+  return {
+    declined: 'Stranger declined to view your screen.',
+    ended: 'Screen sharing ended.',
+    missed: 'Stranger stopped sharing their screen.',
+    peerEnded: isCaller ? 'Stranger stopped viewing your screen.' : 'Stranger stopped sharing their screen.'
+  };
+}
+
+/**
+ * A call with the partner, signalled over the chat socket. Each instance
+ * handles the `kinds` it is given, so a screen share can run next to a voice
+ * or video call. Listens on the socket, so call it after the socket has been
+ * created. `enabled` is false outside an active one-on-one chat, which ends
+ * any call.
+ */
+export function useCall(
+  socketRef: RefObject<Socket<ServerToClientEvents, ClientToServerEvents> | null>,
+  { kinds, enabled, onNotice }: { kinds: CallKind[]; enabled: boolean; onNotice: (text: string) => void }
+) {
+  const [phase, setPhase] = useState<CallPhase>('idle');
+  const [kind, setKind] = useState<CallKind>(kinds[0]);
+  // Whether we started the call; for screen shares, whether we're the one sharing
+  const [isCaller, setIsCaller] = useState(false);
+  const [localStream, setLocalStream] = useState<MediaStream | null>(null);
+  const [remoteStream, setRemoteStream] = useState<MediaStream | null>(null);
+  const [micOn, setMicOn] = useState(true);
+  const [cameraOn, setCameraOn] = useState(true);
+  const callRef = useRef<Call | null>(null);
+  const onNoticeRef = useRef(onNotice);
+  onNoticeRef.current = onNotice;
+  const kindsRef = useRef(kinds);
+  kindsRef.current = kinds;
+
+  const cleanup = () => {
+    const call = callRef.current;
+    if (!call) return;
+    callRef.current = null;
+    clearTimeout(call.ringTimer);
+    call.link?.close();
+    call.stream?.getTracks().forEach(track => track.stop());
+    setPhase('idle');
+    setLocalStream(null);
+    setRemoteStream(null);
+    setMicOn(true);
+    setCameraOn(true);
+  };
+
+  // Returns false if the call ended while the browser asked for permission.
+  // Only the sharing side of a screen share sends anything.
+  const getMedia = async (call: Call) => {
+    if (call.kind === 'screen' && !call.isCaller) return callRef.current === call;
+    const stream = call.kind === 'screen'
+      ? await navigator.mediaDevices.getDisplayMedia({ video: true, audio: false })
+      : await navigator.mediaDevices.getUserMedia({ audio: true, video: call.kind === 'video' });
+    if (callRef.current !== call) {
+      stream.getTracks().forEach(track => track.stop());
+      return false;
+    }
+    call.stream = stream;
+    setLocalStream(stream);
+    // The browser's own "Stop sharing" control ends the share
+    if (call.kind === 'screen') stream.getVideoTracks()[0].onended = () => hangUp();
+    return true;
+  };
+
+  const connect = (call: Call, initiator: boolean) => {
+    call.link = connectPeer({
+      iceServers: call.iceServers,
+      initiator,
+      localStream: call.stream,
+      onSignal: (signal) => socketRef.current?.emit('call_signal', { callId: call.callId, ...signal }),
+      onTrack: setRemoteStream,
+      onStateChange: (state) => {
+        if (callRef.current !== call) return;
+        if (state === 'connected') setPhase('active');
+        if (state === 'failed') {
+          socketRef.current?.emit('call_end', { callId: call.callId });
+          cleanup();
+          onNoticeRef.current("The call couldn't connect.");
+        }
+      }
+    });
+  };
+
+  const mediaError = (call: Call, err: unknown) => {
+    console.error('Could not get media for the call:', err);
+    const blocked = err instanceof DOMException && err.name === 'NotAllowedError';
+    if (call.kind === 'screen') {
+      // Closing the browser's picker counts as not wanting to share
+      if (!blocked) onNoticeRef.current("Couldn't share your screen.");
+      return;
+    }
+    onNoticeRef.current(blocked ? 'Camera or microphone access was blocked.' : "Couldn't start your camera or microphone.");
+  };
+
+  const start = async (callKind: CallKind) => {
+    if (!enabled || callRef.current) return;
+    if (!canUseMedia()) {
+      onNoticeRef.current('Calls need a secure (https) connection to the app.');
+      return;
+    }
+    const call: Call = { callId: window.crypto.randomUUID(), kind: callKind, isCaller: true, iceServers: [], stream: null, link: null };
+    callRef.current = call;
+    setKind(callKind);
+    setIsCaller(true);
+    setPhase('outgoing');
+
+    try {
+      if (!await getMedia(call)) return;
+    } catch (err) {
+      cleanup();
+      mediaError(call, err);
+      return;
+    }
+    socketRef.current?.emit('call_invite', { callId: call.callId, kind: callKind });
+    call.ringTimer = setTimeout(() => {
+      if (callRef.current !== call || call.link) return;
+      socketRef.current?.emit('call_end', { callId: call.callId });
+      cleanup();
+      onNoticeRef.current(call.kind === 'screen' ? "Stranger didn't answer your screen share." : 'No answer.');
+    }, RING_TIMEOUT_MS);
+  };
+
+  const accept = async () => {
+    const call = callRef.current;
+    if (!call || phase !== 'incoming') return;
+    setPhase('connecting');
+    try {
+      if (call.kind !== 'screen' && !canUseMedia()) throw new Error('Media devices are unavailable');
+      if (!await getMedia(call)) return;
+    } catch (err) {
+      socketRef.current?.emit('call_decline', { callId: call.callId });
+      cleanup();
+      mediaError(call, err);
+      return;
+    }
+    // Ready for the caller's offer before telling them to send it
+    connect(call, false);
+    socketRef.current?.emit('call_accept', { callId: call.callId });
+  };
+
+  const decline = () => {
+    const call = callRef.current;
+    if (!call) return;
+    socketRef.current?.emit('call_decline', { callId: call.callId });
+    cleanup();
+  };
+
+  // Back to text; the chat itself carries on
+  const hangUp = () => {
+    const call = callRef.current;
+    if (!call) return;
+    socketRef.current?.emit('call_end', { callId: call.callId });
+    cleanup();
+    onNoticeRef.current(describe(call).ended);
+  };
+
+  const toggleMic = () => {
+    callRef.current?.stream?.getAudioTracks().forEach(track => { track.enabled = !micOn; });
+    setMicOn(!micOn);
+  };
+
+  const toggleCamera = () => {
+    callRef.current?.stream?.getVideoTracks().forEach(track => { track.enabled = !cameraOn; });
+    setCameraOn(!cameraOn);
+  };
+
+  useEffect(() => {
+    const socket = socketRef.current;
+    if (!socket) return;
+    const current = (callId: string) => callRef.current?.callId === callId ? callRef.current : null;
+
+    const onInvite: ServerToClientEvents['call_invite'] = ({ callId, kind: callKind, iceServers }) => {
+      if (!kindsRef.current.includes(callKind)) return;
+      // One call of each sort at a time
+      if (callRef.current) {
+        socket.emit('call_decline', { callId });
+        return;
+      }
+      callRef.current = { callId, kind: callKind, isCaller: false, iceServers, stream: null, link: null };
+      setKind(callKind);
+      setIsCaller(false);
+      setPhase('incoming');
+    };
+    const onAccepted: ServerToClientEvents['call_accepted'] = ({ callId, iceServers }) => {
+      const call = current(callId);
+      if (!call) return;
+      clearTimeout(call.ringTimer);
+      call.iceServers = iceServers;
+      setPhase('connecting');
+      connect(call, true);
+    };
+    const onDeclined: ServerToClientEvents['call_declined'] = ({ callId }) => {
+      const call = current(callId);
+      if (!call) return;
+      cleanup();
+      onNoticeRef.current(describe(call).declined);
+    };
+    const onEnded: ServerToClientEvents['call_ended'] = ({ callId }) => {
+      const call = current(callId);
+      if (!call) return;
+      const missed = !call.link;
+      cleanup();
+      onNoticeRef.current(missed ? describe(call).missed : describe(call).peerEnded);
+    };
+    const onSignal: ServerToClientEvents['call_signal'] = ({ callId, ...signal }) => {
+      current(callId)?.link?.handleSignal(signal);
+    };
+    const onError: ServerToClientEvents['server_error'] = ({ callId, message }) => {
+      if (!callId || !current(callId)) return;
+      cleanup();
+      onNoticeRef.current(message);
+    };
+
+    socket.on('call_invite', onInvite);
+    socket.on('call_accepted', onAccepted);
+    socket.on('call_declined', onDeclined);
+    socket.on('call_ended', onEnded);
+    socket.on('call_signal', onSignal);
+    socket.on('server_error', onError);
+    return () => {
+      socket.off('call_invite', onInvite);
+      socket.off('call_accepted', onAccepted);
+      socket.off('call_declined', onDeclined);
+      socket.off('call_ended', onEnded);
+      socket.off('call_signal', onSignal);
+      socket.off('server_error', onError);
+    };
+  }, [socketRef]);
+
+  // The server drops a room's calls with the room, so just let go locally
+  useEffect(() => {
+    if (!enabled) cleanup();
+  }, [enabled]);
+
+  return { phase, kind, isCaller, localStream, remoteStream, micOn, cameraOn, start, accept, decline, hangUp, toggleMic, toggleCamera };
+}
@@ -0,0 +1,31 @@
+import { useState } from 'react';
+import type { ChatMessage } from '../components/chat/MessageBubble';
+import { canAdvance } from '../components/chat/DeliveryStatus';
+
+// Local IDs for system messages, and for our own messages until the server assigns one
+export const localId = () => window.crypto.randomUUID();
+
+/**
+ * The messages shown for the current chat. It doesn't listen on the socket,
+ * so it can be called first and collect the socket's own notices; the hooks
+ * that send and receive messages and files update it through `setMessages`.
+ */
+export function useChatLog() {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+
+  const addSystemMessage = (text: string) => {
+    setMessages((prev) => [...prev, { id: localId(), text, sender: 'system' }]);
+  };
+
+  // Swap a message's local ID for the one the server assigned
+  // `text` replaces the local copy when the server masked part of it
+  const confirmMessage = (match: (msg: ChatMessage) => boolean, id: string, seq: number, text?: string) => {
+    setMessages((prev) => prev.map(msg => msg.sender === 'user' && match(msg)
+      ? { ...msg, key: msg.key ?? msg.id, id, seq, ...(text !== undefined && { text }), status: canAdvance(msg.status, 'sent') ? 'sent' : msg.status }
+      : msg));
+  };
+
+  return { messages, setMessages, addSystemMessage, confirmMessage };
+}
+
+export type ChatLog = ReturnType<typeof useChatLog>;
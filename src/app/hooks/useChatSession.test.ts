@@ -0,0 +1,168 @@
+import { describe, expect, it } from 'vitest';
+import type { BannedPayload, ChatMember, ChatStartPayload } from '../../../shared/protocol';
+import { chatSessionReducer, initialChatSession, isSearching } from './useChatSession';
+import type { ChatPhase, ChatRoom, ChatSession, ChatSessionAction } from './useChatSession';
+
+const alice: ChatMember = { memberId: 'm1', name: 'Alice' };
+const bob: ChatMember = { memberId: 'm2', name: 'Bob' };
+
+const chat: ChatStartPayload = {
+  roomId: 'room_1',
+  mode: 'group',
+  members: [alice],
+  sharedInterests: [],
+  resumeToken: 'token'
+};
+
+const room: ChatRoom = {
+  roomId: 'room_1',
+  mode: 'group',
+  partnerName: 'Stranger',
+  partnerProfilePic: null,
+  members: [alice]
+};
+
+const ban: BannedPayload = { reason: 'spam', expiresAt: null };
+
+const sessions: Record<ChatPhase, ChatSession> = {
+  idle: initialChatSession,
+  queued: { phase: 'queued', room: null, ban: null },
+  matched: { phase: 'matched', room, ban: null },
+  ended: { phase: 'ended', room, ban: null },
+  requeued: { phase: 'requeued', room: null, ban: null },
+  banned: { phase: 'banned', room: null, ban }
+};
+
+const actions: Record<ChatSessionAction['type'], ChatSessionAction> = {
+  join: { type: 'join' },
+  next: { type: 'next' },
+  matched: { type: 'matched', chat },
+  member_joined: { type: 'member_joined', member: bob },
+  member_left: { type: 'member_left', memberId: alice.memberId },
+  ended: { type: 'ended' },
+  banned: { type: 'banned', ban },
+  home: { type: 'home' }
+};
+
+// The session each action leads to from each phase; null means it's ignored
+const transitions: Record<ChatPhase, Record<ChatSessionAction['type'], ChatSession | null>> = {
+  idle: {
+    join: sessions.queued,
+    next: null,
+    matched: null,
+    member_joined: null,
+    member_left: null,
+    ended: null,
+    banned: null,
+    home: null
+  },
+  queued: {
+    join: null,
+    next: null,
+    matched: sessions.matched,
+    member_joined: null,
+    member_left: null,
+    ended: null,
+    banned: sessions.banned,
+    home: null
+  },
+  matched: {
+    join: null,
+    next: sessions.requeued,
+    matched: null,
+    member_joined: { phase: 'matched', room: { ...room, members: [alice, bob] }, ban: null },
+    member_left: { phase: 'matched', room: { ...room, members: [] }, ban: null },
+    ended: sessions.ended,
+    banned: sessions.banned,
+    home: null
+  },
+  ended: {
+    join: null,
+    next: sessions.requeued,
+    matched: null,
+    member_joined: null,
+    member_left: null,
+    ended: null,
+    banned: sessions.banned,
+    home: initialChatSession
+  },
+  requeued: {
+    join: null,
+    next: null,
+    matched: sessions.matched,
+    member_joined: null,
+    member_left: null,
+    ended: null,
+    banned: sessions.banned,
+    home: null
+  },
+  banned: {
+    join: null,
+    next: null,
+    matched: null,
+    member_joined: null,
+    member_left: null,
+    ended: null,
+    banned: sessions.banned,
+    home: initialChatSession
+  }
+};
+
+describe('chatSessionReducer', () => {
+  for (const [phase, results] of Object.entries(transitions) as [ChatPhase, typeof transitions[ChatPhase]][]) {
+    describe(`when ${phase}`, () => {
+      for (const [type, expected] of Object.entries(results) as [ChatSessionAction['type'], ChatSession | null][]) {
+        const session = sessions[phase];
+
+        if (expected) {
+          it(`${type} moves to ${expected.phase}`, () => {
+            expect(chatSessionReducer(session, actions[type])).toEqual(expected);
+          });
+        } else {
+          it(`ignores ${type}`, () => {
+            expect(chatSessionReducer(session, actions[type])).toBe(session);
+          });
+        }
+      }
+    });
+  }
+
+  it('names a pair partner Stranger when the server sends no name', () => {
+    const next = chatSessionReducer(sessions.queued, { type: 'matched', chat: { ...chat, mode: 'pair', members: [] } });
+    expect(next.room).toMatchObject({ mode: 'pair', partnerName: 'Stranger', partnerProfilePic: null });
+  });
+
+  it('keeps the partner name and picture from the server', () => {
+    const next = chatSessionReducer(sessions.requeued, {
+      type: 'matched',
+      chat: { ...chat, mode: 'pair', partnerName: 'Alice', partnerProfilePic: 'data:image/png;base64,' }
+    });
+    expect(next.room).toMatchObject({ partnerName: 'Alice', partnerProfilePic: 'data:image/png;base64,' });
+  });
+
+  it('replaces a member who joins again instead of listing them twice', () => {
+    const renamed = { ...alice, name: 'Alicia' };
+    const next = chatSessionReducer(sessions.matched, { type: 'member_joined', member: renamed });
+    expect(next.room?.members).toEqual([renamed]);
+  });
+
+  it('ignores a member leaving who is not in the room', () => {
+    const next = chatSessionReducer(sessions.matched, { type: 'member_left', memberId: bob.memberId });
+    expect(next.room?.members).toEqual([alice]);
+  });
+
+  it('keeps the room on screen once the chat ends', () => {
+    expect(chatSessionReducer(sessions.matched, actions.ended).room).toBe(room);
+  });
+
+  it('ignores member updates for an ended chat', () => {
+    expect(chatSessionReducer(sessions.ended, actions.member_joined)).toBe(sessions.ended);
+  });
+});
+
+describe('isSearching', () => {
+  it('is true only while queued or requeued', () => {
+    const searching = (Object.keys(sessions) as ChatPhase[]).filter(isSearching);
+    expect(searching).toEqual(['queued', 'requeued']);
+  });
+});
@@ -0,0 +1,111 @@
+import { useCallback, useReducer, useRef } from 'react';
+import type { BannedPayload, ChatMember, ChatMode, ChatStartPayload } from '../../../shared/protocol';
+
+/**
+ * Where we are in finding and having a chat:
+ *  - idle:     on the home screen
+ *  - queued:   waiting for a match after starting from home
+ *  - matched:  in a chat
+ *  - ended:    the chat is over but still on screen
+ *  - requeued: waiting for a match after skipping or leaving a chat
+ *  - banned:   the server refused us; shown in place of the search
+ */
+export type ChatPhase = 'idle' | 'queued' | 'matched' | 'ended' | 'requeued' | 'banned';
+
+// The chat we're in, kept once it ends so its header stays on screen
+export interface ChatRoom {
+  roomId: string;
+  mode: ChatMode;
+  // One-on-one chats only
+  partnerName: string;
+  partnerProfilePic: string | null;
+  // Everyone else in the room
+  members: ChatMember[];
+}
+
+export interface ChatSession {
+  phase: ChatPhase;
+  room: ChatRoom | null;
+  ban: BannedPayload | null;
+}
+
+export type ChatSessionAction =
+  | { type: 'join' }
+  | { type: 'next' }
+  | { type: 'matched'; chat: ChatStartPayload }
+  | { type: 'member_joined'; member: ChatMember }
+  | { type: 'member_left'; memberId: string }
+  | { type: 'ended' }
+  | { type: 'banned'; ban: BannedPayload }
+  | { type: 'home' };
+
+export const initialChatSession: ChatSession = { phase: 'idle', room: null, ban: null };
+
+export const isSearching = (phase: ChatPhase) => phase === 'queued' || phase === 'requeued';
+
+/**
+ * The chat session state machine. Actions that don't apply in the current
+ * phase leave the session as it is, so late or repeated server events can't
+ * move it somewhere it shouldn't be.
+ */
+export function chatSessionReducer(session: ChatSession, action: ChatSessionAction): ChatSession {
+  switch (action.type) {
+    case 'join':
+      return session.phase === 'idle' ? { phase: 'queued', room: null, ban: null } : session;
+
+    case 'next':
+      return session.phase === 'matched' || session.phase === 'ended'
+        ? { phase: 'requeued', room: null, ban: null }
+        : session;
+
+    case 'matched': {
+      if (!isSearching(session.phase)) return session;
+      const { roomId, mode, partnerName, partnerProfilePic, members } = action.chat;
+      return {
+        phase: 'matched',
+        room: { roomId, mode, partnerName: partnerName || 'Stranger', partnerProfilePic: partnerProfilePic || null, members },
+        ban: null
+      };
+    }
+
+    case 'member_joined': {
+      const { room } = session;
+      if (session.phase !== 'matched' || !room) return session;
+      const members = room.members.filter(member => member.memberId !== action.member.memberId);
+      return { ...session, room: { ...room, members: [...members, action.member] } };
+    }
+
+    case 'member_left': {
+      const { room } = session;
+      if (session.phase !== 'matched' || !room) return session;
+      return { ...session, room: { ...room, members: room.members.filter(member => member.memberId !== action.memberId) } };
+    }
+
+    case 'ended':
+      return session.phase === 'matched' ? { ...session, phase: 'ended' } : session;
+
+    // The server ends any chat when it bans someone
+    case 'banned':
+      return session.phase === 'idle' ? session : { phase: 'banned', room: null, ban: action.ban };
+
+    case 'home':
+      return session.phase === 'ended' || session.phase === 'banned' ? initialChatSession : session;
+  }
+}
+
+/**
+ * The chat session, plus a ref that socket handlers can read between
+ * renders. The ref is updated as soon as an action is dispatched, so a
+ * handler running right after chat_start already sees the new room.
+ */
+export function useChatSession() {
+  const [session, dispatch] = useReducer(chatSessionReducer, initialChatSession);
+  const sessionRef = useRef(session);
+
+  const update = useCallback((action: ChatSessionAction) => {
+    sessionRef.current = chatSessionReducer(sessionRef.current, action);
+    dispatch(action);
+  }, []);
+
+  return { session, sessionRef, dispatch: update };
+}
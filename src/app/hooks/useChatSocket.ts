@@ -0,0 +1,116 @@
+import { useCallback, useEffect, useRef } from 'react';
+import type { RefObject } from 'react';
+import { io } from 'socket.io-client';
+import type { Socket } from 'socket.io-client';
+import type { ClientToServerEvents, ServerToClientEvents } from '../../../shared/protocol';
+
+export type ChatSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+
+// How long to wait before connecting again after the server refuses us
+const REFUSED_RETRY_MS = 30000;
+
+// Anonymous per-browser id the server checks bans against, along with the address
+function getDeviceToken() {
+  try {
+    let token = localStorage.getItem('stranger_device_token');
+    if (!token) {
+      token = window.crypto.randomUUID();
+      localStorage.setItem('stranger_device_token', token);
+    }
+    return token;
+  } catch (e) {
+    console.error('Failed to read device token from localStorage:', e);
+    return undefined;
+  }
+}
+
+/**
+ * The connection to the chat server, open for as long as the app is. Keeps
+ * the current chat's resume token so a dropped connection picks the chat
+ * back up; it also proves membership of the chat when downloading its files.
+ * Tells the user through `onNotice` when the connection drops
+ * or the server refuses it. Call it before any hook that listens on the
+ * socket, so the socket exists when they subscribe.
+ */
+export function useChatSocket({ onNotice }: { onNotice: (text: string) => void }) {
+  const socketRef = useRef<ChatSocket | null>(null);
+  // Lets the server put us back in the current chat after a dropped connection
+  const resumeTokenRef = useRef<string | null>(null);
+  const onNoticeRef = useRef(onNotice);
+  onNoticeRef.current = onNotice;
+
+  useEffect(() => {
+    // A function so every reconnect sends the current resume token
+    const socket: ChatSocket = io({
+      auth: (cb) => cb({ deviceToken: getDeviceToken(), resumeToken: resumeTokenRef.current ?? undefined })
+    });
+    socketRef.current = socket;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    const forgetChat = () => { resumeTokenRef.current = null; };
+
+    socket.on('connect', () => {
+      console.log('Connected to server');
+    });
+
+    // Refused by the server, e.g. too many connections from this network.
+    // Socket.IO only retries transport errors on its own, so try again later.
+    socket.on('connect_error', (err) => {
+      if (socket.active) return;
+      console.warn('Connection refused:', err.message);
+      onNoticeRef.current(err.message);
+      clearTimeout(retryTimer);
+      retryTimer = setTimeout(() => socket.connect(), REFUSED_RETRY_MS);
+    });
+
+    socket.on('disconnect', (reason) => {
+      console.log('Disconnected from server:', reason);
+      if (resumeTokenRef.current) onNoticeRef.current('Connection lost. Reconnecting…');
+      // The server closed the connection, which Socket.IO doesn't reconnect by itself
+      if (reason === 'io server disconnect') socket.connect();
+    });
+
+    socket.on('session_resumed', () => onNoticeRef.current('Reconnected.'));
+    socket.on('chat_start', ({ resumeToken }) => { resumeTokenRef.current = resumeToken; });
+    // Once the chat is over there is nothing to resume
+    socket.on('session_expired', forgetChat);
+    socket.on('partner_disconnected', forgetChat);
+    socket.on('banned', forgetChat);
+
+    return () => {
+      clearTimeout(retryTimer);
+      socket.disconnect();
+    };
+  }, []);
+
+  // Leave the current chat, or stop searching for one
+  const leave = useCallback(() => {
+    resumeTokenRef.current = null;
+    socketRef.current?.emit('skip');
+  }, []);
+
+  return { socketRef, resumeTokenRef, leave };
+}
+
+/**
+ * Subscribe to server events for as long as the component is mounted. The
+ * latest `handlers` are always the ones called, so they can use current
+ * state; the set of events is fixed when the component mounts.
+ */
+export function useSocketEvents(socketRef: RefObject<ChatSocket | null>, handlers: Partial<ServerToClientEvents>) {
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    const socket = socketRef.current;
+    if (!socket) return;
+    const events = Object.keys(handlersRef.current) as Array<keyof ServerToClientEvents>;
+    const listeners = events.map((event) => {
+      const listener = (...args: unknown[]) => (handlersRef.current[event] as ((...args: unknown[]) => void) | undefined)?.(...args);
+      socket.on(event, listener as ServerToClientEvents[typeof event]);
+      return [event, listener] as const;
+    });
+    return () => {
+      listeners.forEach(([event, listener]) => socket.off(event, listener as ServerToClientEvents[typeof event]));
+    };
+  }, [socketRef]);
+}
@@ -0,0 +1,23 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * Whole seconds left until `until` (a timestamp), ticking down once a second.
+ * 0 once it has passed, or when there is nothing to count down to.
+ */
+export function useCountdown(until: number | null) {
+  const secondsLeft = () => until === null ? 0 : Math.max(0, Math.ceil((until - Date.now()) / 1000));
+  const [seconds, setSeconds] = useState(secondsLeft);
+
+  useEffect(() => {
+    setSeconds(secondsLeft());
+    if (until === null) return;
+    const timer = setInterval(() => {
+      const left = secondsLeft();
+      setSeconds(left);
+      if (left === 0) clearInterval(timer);
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [until]);
+
+  return seconds;
+}
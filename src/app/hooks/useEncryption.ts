@@ -0,0 +1,247 @@
+import { useEffect, useRef, useState } from 'react';
+import type { RefObject } from 'react';
+import type { Socket } from 'socket.io-client';
+import * as crypto from '../../utils/crypto';
+import type { ClientToServerEvents, EncryptedEnvelope, ServerToClientEvents } from '../../../shared/protocol';
+
+// How long to wait for the partner's public key before falling back to plaintext
+const KEY_EXCHANGE_TIMEOUT_MS = 5000;
+
+// The part of a message that is end-to-end encrypted when both sides have keys
+export type Sealed<T> = T | { encrypted: EncryptedEnvelope };
+
+export type PartnerKeyStatus = 'pending' | 'ready' | 'missing';
+
+/**
+ * End-to-end encryption for a one-on-one chat: the key exchange, the safety
+ * number, and sealing and opening content in the order the ratchet needs.
+ * Listens on the socket, so call it after the socket has been created.
+ * `start` runs a fresh key exchange for each chat and `stop` ends it.
+ */
+export function useEncryption(
+  socketRef: RefObject<Socket<ServerToClientEvents, ClientToServerEvents> | null>,
+  { onNotice }: { onNotice: (text: string) => void }
+) {
+  const [enabled, setEnabled] = useState(() => localStorage.getItem('stranger_encryption') !== 'off');
+  const [partnerKeyStatus, setPartnerKeyStatus] = useState<PartnerKeyStatus>('pending');
+  const [safetyNumber, setSafetyNumber] = useState<crypto.SafetyNumber | null>(null);
+  const [verified, setVerified] = useState(false);
+  const [keyChanged, setKeyChanged] = useState(false);
+  const myKeysRef = useRef<Promise<{ keyPair: crypto.KeyPair; publicKey: string }> | null>(null);
+  const sessionRef = useRef<crypto.RatchetSession | null>(null);
+  const enabledRef = useRef(enabled);
+  enabledRef.current = enabled;
+  const keyChangedRef = useRef(false);
+  const keyGenerationRef = useRef(0);
+  const keyExchangeTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const partnerKeyReadyRef = useRef<{ promise: Promise<void>; resolve: () => void } | null>(null);
+  const outgoingQueueRef = useRef<Promise<void>>(Promise.resolve());
+  const incomingQueueRef = useRef<Promise<void>>(Promise.resolve());
+  const onNoticeRef = useRef(onNotice);
+  onNoticeRef.current = onNotice;
+
+  const setKeyChangeBlocked = (blocked: boolean) => {
+    keyChangedRef.current = blocked;
+    setKeyChanged(blocked);
+  };
+
+  const markUnavailable = (generation: number, warning: string) => {
+    if (generation !== keyGenerationRef.current) return;
+    if (keyExchangeTimeoutRef.current) clearTimeout(keyExchangeTimeoutRef.current);
+    setPartnerKeyStatus('missing');
+    onNoticeRef.current(warning);
+    partnerKeyReadyRef.current?.resolve();
+  };
+
+  // Generate a fresh ECDH key pair for this chat and send the public half to the partner.
+  // Outgoing messages wait on partnerKeyReadyRef so nothing leaks in plaintext mid-handshake.
+  const start = async () => {
+    const generation = ++keyGenerationRef.current;
+    sessionRef.current = null;
+    partnerKeyReadyRef.current?.resolve();
+    setPartnerKeyStatus('pending');
+    setSafetyNumber(null);
+    setVerified(false);
+    setKeyChangeBlocked(false);
+
+    let resolve!: () => void;
+    const promise = new Promise<void>((r) => { resolve = r; });
+    partnerKeyReadyRef.current = { promise, resolve };
+
+    if (keyExchangeTimeoutRef.current) clearTimeout(keyExchangeTimeoutRef.current);
+    keyExchangeTimeoutRef.current = setTimeout(() => {
+      if (sessionRef.current) return;
+      markUnavailable(generation, "Stranger's app doesn't support encryption. Messages in this chat are NOT end-to-end encrypted.");
+    }, KEY_EXCHANGE_TIMEOUT_MS);
+
+    const localKeys = (async () => {
+      const keyPair = await crypto.generateKeyPair();
+      return { keyPair, publicKey: await crypto.exportPublicKey(keyPair.publicKey) };
+    })();
+    myKeysRef.current = localKeys;
+
+    try {
+      const { publicKey } = await localKeys;
+      if (generation !== keyGenerationRef.current) return;
+      socketRef.current?.emit('exchange_keys', { publicKey, version: crypto.PROTOCOL_VERSION });
+    } catch (err) {
+      console.error('Key generation failed:', err);
+    }
+  };
+
+  const stop = () => {
+    keyGenerationRef.current++;
+    if (keyExchangeTimeoutRef.current) clearTimeout(keyExchangeTimeoutRef.current);
+    myKeysRef.current = null;
+    sessionRef.current = null;
+    partnerKeyReadyRef.current?.resolve();
+  };
+
+  // For chats that can't be encrypted at all, like groups
+  const disable = () => {
+    stop();
+    setPartnerKeyStatus('missing');
+  };
+
+  const updateSafetyNumber = async (generation: number, session: crypto.RatchetSession) => {
+    try {
+      const number = await crypto.computeSafetyNumber(session.localPublicKey, session.remotePublicKey);
+      if (generation === keyGenerationRef.current && sessionRef.current === session) setSafetyNumber(number);
+    } catch (err) {
+      console.error('Failed to compute safety number:', err);
+    }
+  };
+
+  const changeVerified = (next: boolean) => {
+    setVerified(next);
+    if (next) {
+      setKeyChangeBlocked(false);
+      onNoticeRef.current('You marked this chat as verified.');
+    }
+  };
+
+  const acceptKeyChange = () => {
+    setKeyChangeBlocked(false);
+    onNoticeRef.current("You accepted Stranger's new encryption key without verifying it.");
+  };
+
+  const toggle = () => {
+    const next = !enabled;
+    setEnabled(next);
+    try {
+      localStorage.setItem('stranger_encryption', next ? 'on' : 'off');
+    } catch (e) {
+      console.error('Failed to save to localStorage:', e);
+    }
+    onNoticeRef.current(next
+      ? 'End-to-end encryption turned on for your messages.'
+      : 'End-to-end encryption turned off. Your messages are sent in plaintext through the server.');
+  };
+
+  // Hand `emit` the content encrypted for the partner when both sides have keys, else in plaintext.
+  // Sends are queued so they reach the relay in the order they were made.
+  const seal = <T extends object>(content: T, emit: (fields: Sealed<T>) => void, onDropped?: () => void) => {
+    outgoingQueueRef.current = outgoingQueueRef.current.then(async () => {
+      if (enabledRef.current) await partnerKeyReadyRef.current?.promise;
+      if (keyChangedRef.current) {
+        onNoticeRef.current("Message not sent: confirm Stranger's new safety number first.");
+        onDropped?.();
+        return;
+      }
+      const session = sessionRef.current;
+      if (enabledRef.current && session) {
+        const encrypted = await crypto.encryptMessage(session, JSON.stringify(content));
+        emit({ encrypted });
+      } else {
+        emit(content);
+      }
+    }).catch((err) => {
+      console.error('Failed to send message:', err);
+      onNoticeRef.current('A message could not be encrypted and was not sent.');
+      onDropped?.();
+    });
+  };
+
+  const open = async (data: { encrypted?: EncryptedEnvelope }): Promise<unknown> => {
+    if (!data.encrypted) return data;
+    if (!sessionRef.current) throw new Error('No encryption session for this chat');
+    return JSON.parse(await crypto.decryptMessage(sessionRef.current, data.encrypted));
+  };
+
+  /**
+   * Open `data`, check its content with `read` and pass it to `handle`, in
+   * the order things arrived. `unencrypted` is set for plaintext that arrives
+   * once the chat is encrypted, which the server could have written, so it
+   * can be marked as such. Anything that fails along the way, including
+   * content `read` turns down, is reported as a message that couldn't be
+   * decrypted.
+   */
+  const receive = <T>(
+    data: { encrypted?: EncryptedEnvelope },
+    read: (content: unknown) => T | null,
+    handle: (content: T, unencrypted: boolean) => void | Promise<void>
+  ) => {
+    incomingQueueRef.current = incomingQueueRef.current.then(async () => {
+      try {
+        const content = read(await open(data));
+        if (content === null) throw new Error('Malformed content');
+        await handle(content, !data.encrypted && sessionRef.current !== null);
+      } catch (err) {
+        console.error('Failed to decrypt message:', err);
+        onNoticeRef.current(err instanceof crypto.UnsupportedEnvelopeError
+          ? "A message from Stranger couldn't be read because their app uses an incompatible encryption version."
+          : 'A message from Stranger could not be decrypted.');
+      }
+    });
+  };
+
+  // Handled on the incoming queue so messages sent right after the handshake wait for the session
+  useEffect(() => {
+    const socket = socketRef.current;
+    if (!socket) return;
+
+    const onPartnerKey: ServerToClientEvents['partner_public_key'] = (data) => {
+      const generation = keyGenerationRef.current;
+      incomingQueueRef.current = incomingQueueRef.current.then(async () => {
+        if (data.version !== crypto.PROTOCOL_VERSION) {
+          markUnavailable(generation, "Stranger is using an outdated version of the app, so this chat can't be end-to-end encrypted. Messages are sent in plaintext.");
+          return;
+        }
+        try {
+          const local = await myKeysRef.current;
+          if (!local || generation !== keyGenerationRef.current) return;
+          const previous = sessionRef.current;
+          if (previous?.remotePublicKey === data.publicKey) return;
+          const session = await crypto.createSession(local.keyPair, local.publicKey, data.publicKey);
+          if (generation !== keyGenerationRef.current) return;
+          sessionRef.current = session;
+          updateSafetyNumber(generation, session);
+
+          // A second, different key mid-chat is what a man-in-the-middle swap looks like
+          if (previous) {
+            setVerified(false);
+            setKeyChangeBlocked(true);
+            onNoticeRef.current("Stranger's encryption key changed. Sending is paused until you verify or accept the new safety number.");
+            return;
+          }
+
+          if (keyExchangeTimeoutRef.current) clearTimeout(keyExchangeTimeoutRef.current);
+          setPartnerKeyStatus('ready');
+          partnerKeyReadyRef.current?.resolve();
+        } catch (err) {
+          console.error('Key exchange failed:', err);
+        }
+      });
+    };
+
+    socket.on('partner_public_key', onPartnerKey);
+    return () => {
+      socket.off('partner_public_key', onPartnerKey);
+    };
+  }, [socketRef]);
+
+  return {
+    enabled, partnerKeyStatus, safetyNumber, verified, keyChanged,
+    start, stop, disable, toggle, changeVerified, acceptKeyChange, seal, receive
+  };
+}
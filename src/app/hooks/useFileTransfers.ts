@@ -0,0 +1,199 @@
+import { useRef } from 'react';
+import type { RefObject } from 'react';
+import * as crypto from '../../utils/crypto';
+import { LIMITS } from '../../../shared/protocol';
+import type { FileOfferContent, FileType, MediaReference } from '../../../shared/protocol';
+import { chunkCountFor, downloadFile, sendFile } from '../../utils/fileTransfer';
+import type { OutgoingTransfer } from '../../utils/fileTransfer';
+import type { TransferState } from '../components/chat/TransferProgress';
+import { localId } from './useChatLog';
+import type { ChatLog } from './useChatLog';
+import { useSocketEvents } from './useChatSocket';
+import type { ChatSocket } from './useChatSocket';
+import type { useEncryption } from './useEncryption';
+
+interface FileTransfersOptions {
+  roomId: string | null;
+  log: ChatLog;
+  encryption: ReturnType<typeof useEncryption>;
+  // Sent with downloads, so the server knows we're in the chat a file was sent in
+  resumeTokenRef: RefObject<string | null>;
+}
+
+/**
+ * Files sent to and received from the partner, with their progress shown on
+ * the messages in `log`. Uploads stream through the socket and downloads come
+ * from the server's media links, both into object URLs that last until the
+ * chat is replaced. Listens on the socket, so call it after the socket has
+ * been created.
+ */
+export function useFileTransfers(
+  socketRef: RefObject<ChatSocket | null>,
+  { roomId, log, encryption, resumeTokenRef }: FileTransfersOptions
+) {
+  const { setMessages, addSystemMessage, confirmMessage } = log;
+  const outgoingTransfersRef = useRef(new Map<string, OutgoingTransfer>());
+  // Downloads of the partner's files, by transfer ID
+  const downloadsRef = useRef(new Map<string, AbortController>());
+  // Object URLs for this chat's media, revoked when the chat is replaced
+  const objectUrlsRef = useRef<string[]>([]);
+
+  const updateTransfer = (transferId: string, patch: Partial<TransferState>) => {
+    setMessages((prev) => prev.map(msg => msg.transfer?.transferId === transferId
+      ? { ...msg, transfer: { ...msg.transfer, ...patch } }
+      : msg));
+  };
+
+  const trackObjectUrl = (blob: Blob) => {
+    const url = URL.createObjectURL(blob);
+    objectUrlsRef.current.push(url);
+    return url;
+  };
+
+  // Forget every transfer without telling the partner; the server drops them when the room ends
+  const abort = () => {
+    outgoingTransfersRef.current.forEach(transfer => transfer.abort());
+    outgoingTransfersRef.current.clear();
+    downloadsRef.current.forEach(download => download.abort());
+    downloadsRef.current.clear();
+    setMessages((prev) => prev.map(msg => msg.transfer?.status === 'active'
+      ? { ...msg, transfer: { ...msg.transfer, status: 'cancelled' } }
+      : msg));
+  };
+
+  // For a new chat: the old one's files go along with its messages
+  const reset = () => {
+    abort();
+    objectUrlsRef.current.forEach(url => URL.revokeObjectURL(url));
+    objectUrlsRef.current = [];
+  };
+
+  const cancel = (transferId: string) => {
+    const outgoing = outgoingTransfersRef.current.get(transferId);
+    if (outgoing) {
+      outgoing.cancel();
+      return;
+    }
+    downloadsRef.current.get(transferId)?.abort();
+  };
+
+  // Fetch a file the partner sent into an object URL, so the message keeps working after the link expires
+  const download = (media: MediaReference, key: CryptoKey | null) => {
+    const { transferId } = media;
+    // A replayed copy of a file we already have shouldn't be fetched again
+    if (downloadsRef.current.has(transferId)) return;
+    const resumeToken = resumeTokenRef.current;
+    if (!resumeToken) {
+      updateTransfer(transferId, { status: 'failed' });
+      return;
+    }
+    const controller = new AbortController();
+    downloadsRef.current.set(transferId, controller);
+    downloadFile({
+      media,
+      key,
+      resumeToken,
+      signal: controller.signal,
+      onProgress: (progress) => updateTransfer(transferId, progress)
+    }).then((blob) => {
+      const url = trackObjectUrl(blob);
+      setMessages((prev) => prev.map(msg => msg.transfer?.transferId === transferId
+        ? { ...msg, fileContent: url, transfer: { ...msg.transfer, transferred: msg.transfer.total, status: 'complete' } }
+        : msg));
+    }).catch((err) => {
+      if (controller.signal.aborted) {
+        updateTransfer(transferId, { status: 'cancelled' });
+        return;
+      }
+      console.error('File download failed:', err);
+      updateTransfer(transferId, { status: 'failed' });
+    }).finally(() => downloadsRef.current.delete(transferId));
+  };
+
+  // Offer the file, then stream it in chunks once the offer is on its way
+  const send = async (file: Blob, name: string, fileType: FileType) => {
+    if (!roomId || encryption.keyChanged) return;
+    if (file.size === 0 || file.size > LIMITS.FILE_SIZE) {
+      addSystemMessage(`Files must be smaller than ${LIMITS.FILE_SIZE / (1024 * 1024)}MB.`);
+      return;
+    }
+
+    const id = localId();
+    const transferId = window.crypto.randomUUID();
+    setMessages((prev) => [...prev, {
+      id,
+      text: name,
+      sender: 'user',
+      type: 'file',
+      fileContent: trackObjectUrl(file),
+      fileType,
+      transfer: { transferId, transferred: 0, total: file.size, status: 'active' }
+    }]);
+
+    const fileKey = await crypto.generateFileKey();
+    const offer: FileOfferContent = { text: name, key: await crypto.exportFileKey(fileKey) };
+    encryption.seal(offer, (fields) => {
+      const socket = socketRef.current;
+      if (!socket) return;
+      // Without an encryption session the key would travel in plaintext, so chunks go unencrypted
+      const encrypted = 'encrypted' in fields ? fields.encrypted : undefined;
+      socket.emit('file_offer', {
+        roomId,
+        transferId,
+        fileType,
+        mimeType: file.type || `${fileType}/unknown`,
+        size: file.size,
+        chunkCount: chunkCountFor(file.size),
+        ...(encrypted ? { encrypted } : { text: name })
+      });
+
+      const transfer = sendFile({
+        socket,
+        transferId,
+        file,
+        key: encrypted ? fileKey : null,
+        onProgress: (progress) => updateTransfer(transferId, progress)
+      });
+      outgoingTransfersRef.current.set(transferId, transfer);
+      // A complete upload is marked done once the server confirms it with file_stored
+      transfer.done
+        .then((result) => {
+          if (result === 'cancelled') updateTransfer(transferId, { status: 'cancelled' });
+        })
+        .catch((err) => {
+          console.error('File transfer failed:', err);
+          updateTransfer(transferId, { status: 'failed' });
+        })
+        .finally(() => outgoingTransfersRef.current.delete(transferId));
+    }, () => updateTransfer(transferId, { status: 'failed' }));
+  };
+
+  useSocketEvents(socketRef, {
+    file_chunk_ack: (data) => {
+      outgoingTransfersRef.current.get(data.transferId)?.handleAck(data.index, data.ok, data.retryAfterMs);
+    },
+
+    // The server has the whole file and has sent the partner a link to it
+    file_stored: ({ transferId, id, seq }) => {
+      updateTransfer(transferId, { status: 'complete' });
+      confirmMessage(msg => msg.transfer?.transferId === transferId, id, seq);
+    },
+
+    // Chunks sent while the connection was down may never have arrived
+    session_resumed: () => {
+      outgoingTransfersRef.current.forEach(transfer => transfer.resume());
+    },
+
+    server_error: ({ transferId, message }) => {
+      if (!transferId) return;
+      const outgoing = outgoingTransfersRef.current.get(transferId);
+      if (outgoing) {
+        outgoing.abort(new Error(message));
+      } else {
+        updateTransfer(transferId, { status: 'failed' });
+      }
+    }
+  });
+
+  return { send, cancel, download, abort, reset };
+}
@@ -0,0 +1,204 @@
+import type { RefObject } from 'react';
+import * as crypto from '../../utils/crypto';
+import { LIMITS } from '../../../shared/protocol';
+import type { ChatMember, MediaReference, MessageReactionPayload, ReactionContent, ReceiptStatus, ReplyPreview } from '../../../shared/protocol';
+import { readFileOfferContent, readMessageContent, readReactionContent, toReplyPreview } from '../../utils/sealedContent';
+import type { ChatMessage } from '../components/chat/MessageBubble';
+import { canAdvance } from '../components/chat/DeliveryStatus';
+import type { DeliveryState } from '../components/chat/DeliveryStatus';
+import { applyReaction } from '../components/chat/MessageReactions';
+import { localId } from './useChatLog';
+import type { ChatLog } from './useChatLog';
+import { useSocketEvents } from './useChatSocket';
+import type { ChatSocket } from './useChatSocket';
+import type { useEncryption } from './useEncryption';
+import type { useBackgroundAlerts } from './useBackgroundAlerts';
+
+// How long a sent message waits for the server's ack before it is marked failed
+const SEND_ACK_TIMEOUT_MS = 10000;
+
+// Place a partner message by its sequence number, ignoring one we already have.
+// Replays after a reconnect and retried sends can both deliver a message twice.
+function insertBySeq<M extends { id: string; seq?: number }>(messages: M[], message: M & { seq: number }): M[] {
+  if (messages.some(msg => msg.id === message.id)) return messages;
+  const index = messages.findIndex(msg => msg.seq !== undefined && msg.seq > message.seq);
+  return index === -1 ? [...messages, message] : [...messages.slice(0, index), message, ...messages.slice(index)];
+}
+
+// Reply previews travel without media; show the thumbnail from our own copy of the message
+const withReplyMedia = (replyTo: ReplyPreview | undefined, messages: ChatMessage[]) =>
+  replyTo && { ...replyTo, fileContent: messages.find(msg => msg.id === replyTo.id)?.fileContent };
+
+// Edits and deletes only ever apply to a message the same member sent, never to our own
+const isFrom = (msg: ChatMessage, { id, memberId }: { id: string; memberId: string }) =>
+  msg.id === id && msg.sender === 'other' && msg.memberId === memberId;
+
+interface MessagesOptions {
+  roomId: string | null;
+  log: ChatLog;
+  encryption: ReturnType<typeof useEncryption>;
+  // Starts fetching a file the partner sent, once its offer is opened
+  download: (media: MediaReference, key: CryptoKey | null) => void;
+  // The member a bubble names as its sender, if any
+  authorOf: (memberId: string) => ChatMember | undefined;
+  // How alerts refer to the sender
+  nameOf: (memberId: string) => string;
+  alert: ReturnType<typeof useBackgroundAlerts>;
+}
+
+/**
+ * Sending and receiving the chat's messages, with their edits, deletes,
+ * reactions and delivery receipts, all kept in `log`. Incoming content is
+ * opened through `encryption` in the order it arrived. Listens on the
+ * socket, so call it after the socket has been created.
+ */
+export function useMessages(
+  socketRef: RefObject<ChatSocket | null>,
+  { roomId, log, encryption, download, authorOf, nameOf, alert }: MessagesOptions
+) {
+  const { messages, setMessages, confirmMessage } = log;
+
+  const updateDelivery = (ids: string[], status: DeliveryState) => {
+    setMessages((prev) => prev.map(msg => msg.sender === 'user' && ids.includes(msg.id) && canAdvance(msg.status, status)
+      ? { ...msg, status }
+      : msg));
+  };
+
+  const sendReceipt = (ids: string[], status: ReceiptStatus) => {
+    for (let i = 0; i < ids.length; i += LIMITS.RECEIPT_IDS) {
+      socketRef.current?.emit('message_receipt', { ids: ids.slice(i, i + LIMITS.RECEIPT_IDS), status });
+    }
+  };
+
+  // The server acks once the message is on its way to the partner; receipts take it from there
+  const deliver = (id: string, text: string, replyTo?: ReplyPreview) => {
+    if (!roomId) return;
+    // Media stays local; the partner shows a reply thumbnail from their own copy
+    const preview = replyTo && toReplyPreview(replyTo);
+    encryption.seal({ text, replyTo: preview }, (fields) => {
+      // The local ID doubles as the clientId, so a retry can't be relayed as a second message
+      socketRef.current?.timeout(SEND_ACK_TIMEOUT_MS).emit('send_message', { roomId, type: 'text', clientId: id, ...fields }, (err, ack) => {
+        if (!err && ack.ok) confirmMessage(msg => msg.id === id, ack.id, ack.seq, ack.text);
+        else updateDelivery([id], 'failed');
+      });
+    }, () => updateDelivery([id], 'failed'));
+  };
+
+  // Whether the message went out; nothing is sent while the partner's new key is unconfirmed
+  const send = (text: string, replyTo?: ReplyPreview) => {
+    if (!roomId || encryption.keyChanged) return false;
+    const id = localId();
+    setMessages((prev) => [...prev, { id, text, sender: 'user', type: 'text', replyTo, status: 'sending' }]);
+    deliver(id, text, replyTo);
+    return true;
+  };
+
+  const retry = (msg: ChatMessage) => {
+    setMessages((prev) => prev.map(m => m.id === msg.id && m.sender === 'user' ? { ...m, status: 'sending' } : m));
+    deliver(msg.id, msg.text, msg.replyTo);
+  };
+
+  // Edits, deletes and reactions name a message by the ID the server assigned, which our own
+  // messages only have once their send is acked
+  const isConfirmed = (id: string) => messages.some(msg => msg.id === id && msg.seq !== undefined);
+
+  const edit = (id: string, text: string) => {
+    if (!roomId || encryption.keyChanged || !isConfirmed(id)) return false;
+    setMessages(prev => prev.map(msg => msg.id === id ? { ...msg, text, isEdited: true } : msg));
+    encryption.seal({ text }, (fields) => {
+      socketRef.current?.emit('edit_message', { roomId, id, ...fields });
+    });
+    return true;
+  };
+
+  const remove = (id: string) => {
+    if (!roomId || !isConfirmed(id)) return;
+    setMessages(prev => prev.map(msg => msg.id === id ? { ...msg, isDeleted: true } : msg));
+    socketRef.current?.emit('delete_message', { roomId, id });
+  };
+
+  // Add our reaction, or take it back if we already reacted with that emoji
+  const toggleReaction = (id: string, emoji: string) => {
+    if (!roomId || encryption.keyChanged || !isConfirmed(id)) return;
+    const reacted = messages.find(msg => msg.id === id)?.reactions?.some(reaction => reaction.emoji === emoji && reaction.memberId === null);
+    setMessages(prev => prev.map(msg => msg.id === id ? { ...msg, reactions: applyReaction(msg.reactions, emoji, null, !reacted) } : msg));
+    encryption.seal<ReactionContent>({ emoji }, (fields) => {
+      if (reacted) socketRef.current?.emit('unreact_message', { roomId, id, ...fields });
+      else socketRef.current?.emit('react_message', { roomId, id, ...fields });
+    });
+  };
+
+  // Queued with messages, so a reaction never lands before what it reacts to
+  const onReaction = (data: MessageReactionPayload, add: boolean) => {
+    encryption.receive(data, readReactionContent, ({ emoji }) => {
+      setMessages((prev) => prev.map(msg => msg.id === data.id
+        ? { ...msg, reactions: applyReaction(msg.reactions, emoji, data.memberId, add) }
+        : msg));
+    });
+  };
+
+  useSocketEvents(socketRef, {
+    // Decrypt in arrival order; insertBySeq puts each message where the server sequenced it
+    receive_message: (data) => {
+      if (data.media) {
+        const media = data.media;
+        encryption.receive(data, readFileOfferContent, async (content, unencrypted) => {
+          const key = data.encrypted && content.key ? await crypto.importFileKey(content.key) : null;
+          setMessages((prev) => insertBySeq(prev, {
+            id: data.id,
+            seq: data.seq,
+            type: 'file',
+            fileType: data.fileType,
+            text: content.text || 'File',
+            sender: 'other',
+            memberId: data.memberId,
+            unencrypted,
+            author: authorOf(data.memberId),
+            transfer: { transferId: media.transferId, transferred: 0, total: media.size, status: 'active' }
+          }));
+          download(media, key);
+          sendReceipt([data.id], 'delivered');
+          alert({
+            title: nameOf(data.memberId),
+            body: data.fileType === 'image' ? 'Sent a photo' : data.fileType === 'video' ? 'Sent a video' : data.fileType === 'audio' ? 'Sent an audio message' : 'Sent a file',
+            unread: true
+          });
+        });
+        return;
+      }
+
+      encryption.receive(data, readMessageContent, (content, unencrypted) => {
+        setMessages((prev) => insertBySeq(prev, {
+          id: data.id,
+          seq: data.seq,
+          type: data.type,
+          text: content.text || '',
+          replyTo: withReplyMedia(content.replyTo, prev),
+          sender: 'other',
+          memberId: data.memberId,
+          unencrypted,
+          author: authorOf(data.memberId)
+        }));
+        sendReceipt([data.id], 'delivered');
+        alert({ title: nameOf(data.memberId), body: 'Sent you a message', content: content.text, unread: true });
+      });
+    },
+
+    message_receipt: ({ ids, status }) => updateDelivery(ids, status),
+
+    message_edited: (data) => {
+      encryption.receive(data, readMessageContent, ({ text }, unencrypted) => {
+        setMessages((prev) => prev.map(msg => isFrom(msg, data) ? { ...msg, text: text || '', isEdited: true, unencrypted } : msg));
+      });
+    },
+
+    message_deleted: (data) => {
+      setMessages((prev) => prev.map(msg => isFrom(msg, data) ? { ...msg, isDeleted: true } : msg));
+    },
+
+    message_reacted: (data) => onReaction(data, true),
+    message_unreacted: (data) => onReaction(data, false)
+  });
+
+  return { send, retry, edit, remove, toggleReaction, sendReceipt };
+}
@@ -0,0 +1,61 @@
+import { useCallback, useEffect, useRef } from 'react';
+import type { RefObject } from 'react';
+
+/**
+ * Report the partner's messages as read once they are on screen in a focused
+ * tab. Messages opt in by rendering a `data-read-id` attribute inside
+ * `containerRef`; `items` is whatever changes when messages are added.
+ */
+export function useReadReceipts(
+  containerRef: RefObject<HTMLElement | null>,
+  items: unknown,
+  { enabled, onRead }: { enabled: boolean; onRead: (ids: string[]) => void }
+) {
+  const observerRef = useRef<IntersectionObserver | null>(null);
+  const visibleRef = useRef(new Set<string>());
+  const reportedRef = useRef(new Set<string>());
+  const enabledRef = useRef(enabled);
+  const onReadRef = useRef(onRead);
+  enabledRef.current = enabled;
+  onReadRef.current = onRead;
+
+  const flush = useCallback(() => {
+    if (!enabledRef.current || document.visibilityState !== 'visible' || !document.hasFocus()) return;
+    const ids = [...visibleRef.current].filter(id => !reportedRef.current.has(id));
+    if (ids.length === 0) return;
+    ids.forEach(id => reportedRef.current.add(id));
+    onReadRef.current(ids);
+  }, []);
+
+  useEffect(() => {
+    const observer = new IntersectionObserver((entries) => {
+      for (const entry of entries) {
+        const id = (entry.target as HTMLElement).dataset.readId!;
+        if (entry.isIntersecting) visibleRef.current.add(id);
+        else visibleRef.current.delete(id);
+      }
+      flush();
+    }, { threshold: 0.6 });
+    observerRef.current = observer;
+
+    window.addEventListener('focus', flush);
+    document.addEventListener('visibilitychange', flush);
+    return () => {
+      observer.disconnect();
+      window.removeEventListener('focus', flush);
+      document.removeEventListener('visibilitychange', flush);
+    };
+  }, [flush]);
+
+  // Observing an element twice is a no-op, so just pick up any new ones
+  useEffect(() => {
+    containerRef.current?.querySelectorAll<HTMLElement>('[data-read-id]').forEach((element) => {
+      if (!reportedRef.current.has(element.dataset.readId!)) observerRef.current?.observe(element);
+    });
+  }, [containerRef, items]);
+
+  // Turning receipts back on reports whatever is on screen now
+  useEffect(() => {
+    if (enabled) flush();
+  }, [enabled, flush]);
+}
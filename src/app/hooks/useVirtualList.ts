@@ -0,0 +1,196 @@
+import { useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react';
+import type { RefObject } from 'react';
+
+// How close to the bottom still counts as following along
+const BOTTOM_THRESHOLD_PX = 80;
+
+interface VirtualListOptions<T> {
+  getKey: (item: T) => string;
+  // Height to assume for an item until it has been rendered and measured
+  estimateHeight: (item: T) => number;
+  // How far past the edges of the viewport to keep items rendered, in pixels
+  overscan?: number;
+}
+
+/**
+ * Windowing for a scrolling list whose items vary in height. Only the items
+ * in or near the viewport are rendered; `before` and `after` are the
+ * heights of the spacers that stand in for the rest. Each rendered item
+ * needs `measure(key)` as its ref so its real height replaces the estimate,
+ * and whatever follows the items, like a typing indicator, needs
+ * `measureFooter` so it counts towards the list's height.
+ *
+ * While scrolled to the bottom the list stays there as items are added or
+ * resized. Anywhere else, the item at the top of the viewport is kept where
+ * it is, so nothing jumps while the user is reading.
+ */
+export function useVirtualList<T>(
+  containerRef: RefObject<HTMLElement | null>,
+  items: T[],
+  { getKey, estimateHeight, overscan = 800 }: VirtualListOptions<T>
+) {
+  const heightsRef = useRef(new Map<string, number>());
+  const elementsRef = useRef(new Map<string, HTMLElement>());
+  const measureRefs = useRef(new Map<string, (element: HTMLElement | null) => void>());
+  const observerRef = useRef<ResizeObserver | null>(null);
+  const footerRef = useRef<HTMLElement | null>(null);
+  const [, setMeasured] = useState(0);
+  const [viewport, setViewport] = useState({ top: 0, height: 0 });
+  const [atBottom, setAtBottom] = useState(true);
+  const atBottomRef = useRef(true);
+  // The item at the top of the viewport, and how far above the viewport's top it starts
+  const anchorRef = useRef<{ key: string; offset: number } | null>(null);
+
+  const keys = items.map(getKey);
+  // offsets[i] is where item i starts; the last entry is the total height, without the footer
+  const offsets = [0];
+  items.forEach((item, i) => offsets.push(offsets[i] + (heightsRef.current.get(keys[i]) ?? estimateHeight(item))));
+  const layoutRef = useRef({ keys, offsets });
+  layoutRef.current = { keys, offsets };
+
+  // First item that ends below `y`
+  const indexAt = (y: number) => {
+    let low = 0;
+    let high = items.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (offsets[mid + 1] > y) high = mid;
+      else low = mid + 1;
+    }
+    return low;
+  };
+
+  const start = indexAt(viewport.top - overscan);
+  const end = Math.min(items.length, indexAt(viewport.top + viewport.height + overscan) + 1);
+
+  // Measured to the end of the last item, so a footer showing up doesn't count as scrolling away
+  const isAtBottom = useCallback((container: HTMLElement) => {
+    const footerHeight = footerRef.current?.offsetHeight ?? 0;
+    return container.scrollHeight - footerHeight - container.scrollTop - container.clientHeight < BOTTOM_THRESHOLD_PX;
+  }, []);
+
+  const readScroll = useCallback(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const { keys, offsets } = layoutRef.current;
+    const bottom = isAtBottom(container);
+    atBottomRef.current = bottom;
+    setAtBottom(bottom);
+    setViewport({ top: container.scrollTop, height: container.clientHeight });
+
+    const index = offsets.findIndex((offset, i) => i > 0 && offset > container.scrollTop) - 1;
+    anchorRef.current = index >= 0 ? { key: keys[index], offset: container.scrollTop - offsets[index] } : null;
+  }, [containerRef, isAtBottom]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const observer = new ResizeObserver((entries) => {
+      let changed = false;
+      for (const entry of entries) {
+        const element = entry.target as HTMLElement;
+        if (element === container || element === footerRef.current) {
+          changed = true;
+          continue;
+        }
+        const key = element.dataset.virtualKey!;
+        if (heightsRef.current.get(key) !== element.offsetHeight) {
+          heightsRef.current.set(key, element.offsetHeight);
+          changed = true;
+        }
+      }
+      if (changed) {
+        setMeasured(count => count + 1);
+        setViewport({ top: container.scrollTop, height: container.clientHeight });
+      }
+    });
+    observerRef.current = observer;
+    observer.observe(container);
+    elementsRef.current.forEach(element => observer.observe(element));
+    if (footerRef.current) observer.observe(footerRef.current);
+
+    // The scroll position is read on every event, so a render never scrolls against the user
+    let frame = 0;
+    const handleScroll = () => {
+      atBottomRef.current = isAtBottom(container);
+      if (frame) return;
+      frame = requestAnimationFrame(() => {
+        frame = 0;
+        readScroll();
+      });
+    };
+    container.addEventListener('scroll', handleScroll, { passive: true });
+    readScroll();
+
+    return () => {
+      cancelAnimationFrame(frame);
+      container.removeEventListener('scroll', handleScroll);
+      observer.disconnect();
+      observerRef.current = null;
+    };
+  }, [containerRef, readScroll, isAtBottom]);
+
+  // Follow the bottom, or put the anchor item back where it was before this render
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    if (atBottomRef.current) {
+      container.scrollTop = container.scrollHeight;
+      return;
+    }
+    const anchor = anchorRef.current;
+    const index = anchor ? keys.indexOf(anchor.key) : -1;
+    if (!anchor || index === -1) return;
+    const top = offsets[index] + anchor.offset;
+    if (Math.abs(container.scrollTop - top) >= 1) container.scrollTop = top;
+  });
+
+  // Stable per key, so React doesn't detach and reattach every item on each render
+  const measure = (key: string) => {
+    let ref = measureRefs.current.get(key);
+    if (!ref) {
+      ref = (element: HTMLElement | null) => {
+        const previous = elementsRef.current.get(key);
+        if (previous && previous !== element) {
+          observerRef.current?.unobserve(previous);
+          elementsRef.current.delete(key);
+        }
+        if (element) {
+          element.dataset.virtualKey = key;
+          elementsRef.current.set(key, element);
+          observerRef.current?.observe(element);
+        } else {
+          measureRefs.current.delete(key);
+        }
+      };
+      measureRefs.current.set(key, ref);
+    }
+    return ref;
+  };
+
+  const measureFooter = useCallback((element: HTMLElement | null) => {
+    if (footerRef.current) observerRef.current?.unobserve(footerRef.current);
+    footerRef.current = element;
+    if (element) observerRef.current?.observe(element);
+  }, []);
+
+  const scrollToBottom = useCallback(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    atBottomRef.current = true;
+    setAtBottom(true);
+    container.scrollTop = container.scrollHeight;
+  }, [containerRef]);
+
+  return {
+    start,
+    end,
+    before: offsets[start],
+    after: offsets[items.length] - offsets[end],
+    atBottom,
+    measure,
+    measureFooter,
+    scrollToBottom
+  };
+}
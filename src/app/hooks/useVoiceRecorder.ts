@@ -0,0 +1,47 @@
+import { useEffect, useRef, useState } from 'react';
+
+/**
+ * Records a voice message from the microphone. `onRecorded` gets the audio
+ * once recording stops; the microphone is released as soon as it does.
+ */
+export function useVoiceRecorder(onRecorded: (audio: Blob) => void) {
+  const [isRecording, setIsRecording] = useState(false);
+  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
+  const onRecordedRef = useRef(onRecorded);
+  onRecordedRef.current = onRecorded;
+
+  const start = async () => {
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const mediaRecorder = new MediaRecorder(stream);
+      const chunks: Blob[] = [];
+      mediaRecorderRef.current = mediaRecorder;
+      mediaRecorder.ondataavailable = (event) => chunks.push(event.data);
+      mediaRecorder.onstop = () => onRecordedRef.current(new Blob(chunks, { type: 'audio/webm' }));
+      mediaRecorder.start();
+      setIsRecording(true);
+    } catch (err) {
+      console.error('Error accessing microphone:', err);
+    }
+  };
+
+  const stop = () => {
+    const mediaRecorder = mediaRecorderRef.current;
+    if (!mediaRecorder || !isRecording) return;
+    mediaRecorder.stop();
+    mediaRecorder.stream.getTracks().forEach(track => track.stop());
+    mediaRecorderRef.current = null;
+    setIsRecording(false);
+  };
+
+  // Leaving mid-recording throws the recording away
+  useEffect(() => () => {
+    const mediaRecorder = mediaRecorderRef.current;
+    if (!mediaRecorder) return;
+    mediaRecorder.onstop = null;
+    mediaRecorder.stop();
+    mediaRecorder.stream.getTracks().forEach(track => track.stop());
+  }, []);
+
+  return { isRecording, start, stop };
+}
@@ -1,7 +1,33 @@
 
+  import { Suspense, lazy, useEffect, useState } from "react";
   import { createRoot } from "react-dom/client";
   import App from "./app/App.tsx";
   import "./styles/index.css";
 
-  createRoot(document.getElementById("root")!).render(<App />);
+  // Only moderators load the admin console, so keep it out of the main bundle
+  const AdminConsole = lazy(() =>
+    import("./app/components/admin/AdminConsole.tsx").then((m) => ({ default: m.AdminConsole })),
+  );
+
+  const isAdminRoute = () => window.location.hash.startsWith("#/admin");
+
+  function Root() {
+    const [admin, setAdmin] = useState(isAdminRoute);
+
+    useEffect(() => {
+      const onHashChange = () => setAdmin(isAdminRoute());
+      window.addEventListener("hashchange", onHashChange);
+      return () => window.removeEventListener("hashchange", onHashChange);
+    }, []);
+
+    return admin ? (
+      <Suspense fallback={null}>
+        <AdminConsole />
+      </Suspense>
+    ) : (
+      <App />
+    );
+  }
+
+  createRoot(document.getElementById("root")!).render(<Root />);
   
\ No newline at end of file
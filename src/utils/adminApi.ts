@@ -0,0 +1,111 @@
+/**
+ * Client for the server's /admin moderation API
+ */
+
+export type BanKind = 'ban' | 'shadow' | 'mute';
+
+export interface AdminStats {
+    queueLength: number;
+    shadowQueueLength: number;
+    activeRooms: number;
+    connectedSockets: number;
+    openReports: number;
+}
+
+export interface AdminRoom {
+    roomId: string;
+    members: { socketId: string; username?: string }[];
+}
+
+export interface AdminSocket {
+    socketId: string;
+    username: string | null;
+    address: string;
+    deviceToken: string | null;
+    roomId: string | null;
+    queued: boolean;
+    connectedAt: number;
+}
+
+export interface AdminReport {
+    id: string;
+    reporterId: string;
+    reporterAddress: string;
+    reportedId: string;
+    reportedAddress: string;
+    reportedDeviceToken: string | null;
+    roomId: string;
+    messageId: string;
+    reason: string;
+    excerpt: string | null;
+    createdAt: number;
+    status: 'open' | 'actioned' | 'dismissed';
+    resolvedAt?: number;
+}
+
+export interface AdminBan {
+    id: string;
+    kind: BanKind;
+    address: string | null;
+    deviceToken: string | null;
+    reason: string;
+    createdAt: number;
+    expiresAt: number | null;
+}
+
+export interface MetricsPoint {
+    minute: number;
+    connections: number;
+    matches: number;
+}
+
+export interface BanRequest {
+    socketId?: string;
+    address?: string;
+    deviceToken?: string;
+    kind: BanKind;
+    reason: string;
+    durationMs?: number;
+}
+
+export class AdminApiError extends Error {
+    constructor(public status: number, message: string) {
+        super(message);
+        this.name = 'AdminApiError';
+    }
+}
+
+export function createAdminApi(apiKey: string) {
+    async function request<T>(method: string, path: string, body?: unknown): Promise<T> {
+        const response = await fetch(`/admin${path}`, {
+            method,
+            headers: {
+                'x-admin-key': apiKey,
+                ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+            },
+            body: body !== undefined ? JSON.stringify(body) : undefined,
+        });
+        const data = await response.json().catch(() => ({}));
+        if (!response.ok) {
+            throw new AdminApiError(response.status, data.error || `Request failed with status ${response.status}`);
+        }
+        return data as T;
+    }
+
+    return {
+        stats: () => request<AdminStats>('GET', '/stats'),
+        rooms: () => request<AdminRoom[]>('GET', '/rooms'),
+        sockets: () => request<AdminSocket[]>('GET', '/sockets'),
+        reports: (status?: AdminReport['status']) => request<AdminReport[]>('GET', status ? `/reports?status=${status}` : '/reports'),
+        bans: () => request<AdminBan[]>('GET', '/bans'),
+        metrics: () => request<MetricsPoint[]>('GET', '/metrics'),
+        endRoom: (roomId: string) => request<{ ok: true }>('POST', `/rooms/${encodeURIComponent(roomId)}/end`),
+        ban: (ban: BanRequest) => request<AdminBan>('POST', '/bans', ban),
+        unban: (banId: string) => request<{ ok: true }>('DELETE', `/bans/${encodeURIComponent(banId)}`),
+        resolveReport: (reportId: string, resolution: 'actioned' | 'dismissed') =>
+            request<AdminReport>('POST', `/reports/${encodeURIComponent(reportId)}/resolve`, { resolution }),
+        broadcast: (message: string) => request<{ ok: true }>('POST', '/broadcast', { message }),
+    };
+}
+
+export type AdminApi = ReturnType<typeof createAdminApi>;
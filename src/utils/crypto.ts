@@ -1,32 +1,101 @@
 /**
  * End-to-End Encryption Utilities
  * Uses Web Crypto API for secure message encryption
+ *
+ * Peers exchange ephemeral ECDH P-256 public keys, derive a shared secret and
+ * expand it with HKDF into one sending and one receiving chain key. Every
+ * message advances its chain with HMAC (a symmetric ratchet), so each message
+ * gets its own AES-GCM key and old keys are discarded once used: leaking the
+ * current state does not expose earlier messages.
  */
 
+/**
+ * Version of the key exchange and message envelope format.
+ * Bumped whenever either changes incompatibly.
+ */
+export const PROTOCOL_VERSION = 2;
+
+// How far ahead of the expected message number we are willing to ratchet
+const MAX_SKIP = 1000;
+// How many keys for skipped (out-of-order) messages we keep around
+const MAX_SKIPPED_KEYS = 100;
+
+const HKDF_INFO = 'codxell-ratchet-v2';
+
+// Hash iterations for the safety number, to make grinding for a lookalike key expensive
+const SAFETY_NUMBER_ITERATIONS = 5200;
+// 24 symbols of 6 bits is 144 bits, too many to find a lookalike key for
+const SAFETY_NUMBER_LENGTH = 24;
+
+// 64 symbols, so each one encodes 6 bits of the fingerprint
+const SAFETY_SYMBOLS: Array<{ emoji: string; word: string }> = [
+    { emoji: '🐶', word: 'dog' }, { emoji: '🐱', word: 'cat' }, { emoji: '🦁', word: 'lion' }, { emoji: '🐴', word: 'horse' },
+    { emoji: '🦄', word: 'unicorn' }, { emoji: '🐷', word: 'pig' }, { emoji: '🐘', word: 'elephant' }, { emoji: '🐰', word: 'rabbit' },
+    { emoji: '🐼', word: 'panda' }, { emoji: '🐓', word: 'rooster' }, { emoji: '🐧', word: 'penguin' }, { emoji: '🐢', word: 'turtle' },
+    { emoji: '🐟', word: 'fish' }, { emoji: '🐙', word: 'octopus' }, { emoji: '🦋', word: 'butterfly' }, { emoji: '🌷', word: 'tulip' },
+    { emoji: '🌳', word: 'tree' }, { emoji: '🌵', word: 'cactus' }, { emoji: '🍄', word: 'mushroom' }, { emoji: '🌏', word: 'globe' },
+    { emoji: '🌙', word: 'moon' }, { emoji: '☁️', word: 'cloud' }, { emoji: '🔥', word: 'fire' }, { emoji: '🍌', word: 'banana' },
+    { emoji: '🍎', word: 'apple' }, { emoji: '🍓', word: 'strawberry' }, { emoji: '🌽', word: 'corn' }, { emoji: '🍕', word: 'pizza' },
+    { emoji: '🎂', word: 'cake' }, { emoji: '❤️', word: 'heart' }, { emoji: '😀', word: 'smile' }, { emoji: '🤖', word: 'robot' },
+    { emoji: '🎩', word: 'hat' }, { emoji: '👓', word: 'glasses' }, { emoji: '🔧', word: 'wrench' }, { emoji: '🎅', word: 'santa' },
+    { emoji: '👍', word: 'thumbs up' }, { emoji: '☂️', word: 'umbrella' }, { emoji: '⌛', word: 'hourglass' }, { emoji: '⏰', word: 'clock' },
+    { emoji: '🎁', word: 'gift' }, { emoji: '💡', word: 'light bulb' }, { emoji: '📕', word: 'book' }, { emoji: '✏️', word: 'pencil' },
+    { emoji: '📎', word: 'paperclip' }, { emoji: '✂️', word: 'scissors' }, { emoji: '🔒', word: 'lock' }, { emoji: '🔑', word: 'key' },
+    { emoji: '🔨', word: 'hammer' }, { emoji: '☎️', word: 'telephone' }, { emoji: '🏁', word: 'flag' }, { emoji: '🚂', word: 'train' },
+    { emoji: '🚲', word: 'bicycle' }, { emoji: '✈️', word: 'airplane' }, { emoji: '🚀', word: 'rocket' }, { emoji: '🏆', word: 'trophy' },
+    { emoji: '⚽', word: 'ball' }, { emoji: '🎸', word: 'guitar' }, { emoji: '🎺', word: 'trumpet' }, { emoji: '🔔', word: 'bell' },
+    { emoji: '⚓', word: 'anchor' }, { emoji: '🎧', word: 'headphones' }, { emoji: '📁', word: 'folder' }, { emoji: '📌', word: 'pin' },
+];
+
 export interface KeyPair {
     publicKey: CryptoKey;
     privateKey: CryptoKey;
 }
 
 export interface EncryptedMessage {
-    encryptedData: string;
-    encryptedKey: string;
+    v: number;
+    n: number;
     iv: string;
+    ciphertext: string;
+}
+
+export interface SafetyNumber {
+    symbols: Array<{ emoji: string; word: string }>;
+    fingerprint: string;
+}
+
+export interface RatchetSession {
+    localPublicKey: string;
+    remotePublicKey: string;
+    sendChainKey: ArrayBuffer;
+    sendCounter: number;
+    receiveChainKey: ArrayBuffer;
+    receiveCounter: number;
+    skippedKeys: Map<number, CryptoKey>;
+    queue: Promise<unknown>;
+}
+
+/**
+ * Thrown for envelopes from clients speaking another protocol version
+ */
+export class UnsupportedEnvelopeError extends Error {
+    constructor(public version: unknown) {
+        super(`Unsupported encrypted message version: ${String(version)}`);
+        this.name = 'UnsupportedEnvelopeError';
+    }
 }
 
 /**
- * Generate RSA key pair for encryption
+ * Generate an ephemeral ECDH key pair for one chat
  */
 export async function generateKeyPair(): Promise<KeyPair> {
     const keyPair = await window.crypto.subtle.generateKey(
         {
-            name: 'RSA-OAEP',
-            modulusLength: 2048,
-            publicExponent: new Uint8Array([1, 0, 1]),
-            hash: 'SHA-256',
+            name: 'ECDH',
+            namedCurve: 'P-256',
         },
         true,
-        ['encrypt', 'decrypt']
+        ['deriveBits']
     );
 
     return {
@@ -52,133 +121,332 @@ export async function importPublicKey(base64Key: string): Promise<CryptoKey> {
         'spki',
         keyData,
         {
-            name: 'RSA-OAEP',
-            hash: 'SHA-256',
+            name: 'ECDH',
+            namedCurve: 'P-256',
         },
         true,
-        ['encrypt']
+        []
     );
 }
 
 /**
- * Encrypt a message using hybrid encryption (AES + RSA)
+ * Run the handshake: derive the shared secret and both ratchet chains.
+ * Both peers end up with mirrored chains because the key order is canonical.
  */
-export async function encryptMessage(
-    message: string,
-    recipientPublicKey: CryptoKey
-): Promise<EncryptedMessage> {
-    // Generate random AES key
-    const aesKey = await window.crypto.subtle.generateKey(
+export async function createSession(
+    localKeys: KeyPair,
+    localPublicKey: string,
+    remotePublicKey: string
+): Promise<RatchetSession> {
+    const remoteKey = await importPublicKey(remotePublicKey);
+    const sharedSecret = await window.crypto.subtle.deriveBits(
         {
-            name: 'AES-GCM',
-            length: 256,
+            name: 'ECDH',
+            public: remoteKey,
         },
-        true,
-        ['encrypt', 'decrypt']
+        localKeys.privateKey,
+        256
     );
 
-    // Generate random IV
-    const iv = window.crypto.getRandomValues(new Uint8Array(12));
+    // Bind the derived keys to both public keys, in a canonical order
+    const localFirst = localPublicKey < remotePublicKey;
+    const [first, second] = localFirst ? [localPublicKey, remotePublicKey] : [remotePublicKey, localPublicKey];
+    const salt = await window.crypto.subtle.digest('SHA-256', new TextEncoder().encode(first + second));
 
-    // Encrypt message with AES
-    const encodedMessage = new TextEncoder().encode(message);
-    const encryptedData = await window.crypto.subtle.encrypt(
+    const hkdfKey = await window.crypto.subtle.importKey('raw', sharedSecret, 'HKDF', false, ['deriveBits']);
+    const chains = await window.crypto.subtle.deriveBits(
         {
-            name: 'AES-GCM',
-            iv: iv,
+            name: 'HKDF',
+            hash: 'SHA-256',
+            salt,
+            info: new TextEncoder().encode(HKDF_INFO),
         },
-        aesKey,
-        encodedMessage
+        hkdfKey,
+        512
     );
 
-    // Export AES key
-    const exportedAesKey = await window.crypto.subtle.exportKey('raw', aesKey);
+    const firstChain = chains.slice(0, 32);
+    const secondChain = chains.slice(32, 64);
 
-    // Encrypt AES key with RSA public key
-    const encryptedKey = await window.crypto.subtle.encrypt(
-        {
-            name: 'RSA-OAEP',
-        },
-        recipientPublicKey,
-        exportedAesKey
-    );
+    return {
+        localPublicKey,
+        remotePublicKey,
+        sendChainKey: localFirst ? firstChain : secondChain,
+        sendCounter: 0,
+        receiveChainKey: localFirst ? secondChain : firstChain,
+        receiveCounter: 0,
+        skippedKeys: new Map(),
+        queue: Promise.resolve(),
+    };
+}
+
+/**
+ * Derive the safety number both peers should see for this pair of public keys.
+ * A relay that swaps keys in transit makes the two sides see different numbers.
+ */
+export async function computeSafetyNumber(
+    localPublicKey: string,
+    remotePublicKey: string
+): Promise<SafetyNumber> {
+    const [first, second] = [localPublicKey, remotePublicKey].sort();
+    const firstBytes = new Uint8Array(base64ToArrayBuffer(first));
+    const secondBytes = new Uint8Array(base64ToArrayBuffer(second));
+
+    const input = new Uint8Array(firstBytes.length + secondBytes.length);
+    input.set(firstBytes, 0);
+    input.set(secondBytes, firstBytes.length);
+
+    let hash = await window.crypto.subtle.digest('SHA-256', input);
+    for (let i = 1; i < SAFETY_NUMBER_ITERATIONS; i++) {
+        const next = new Uint8Array(hash.byteLength + input.length);
+        next.set(new Uint8Array(hash), 0);
+        next.set(input, hash.byteLength);
+        hash = await window.crypto.subtle.digest('SHA-256', next);
+    }
+
+    const bytes = new Uint8Array(hash);
+    const symbols = [];
+    for (let i = 0; i < SAFETY_NUMBER_LENGTH; i++) {
+        // Read 6 bits at a time, most significant first
+        const bit = i * 6;
+        const word = (bytes[bit >> 3] << 8) | bytes[(bit >> 3) + 1];
+        symbols.push(SAFETY_SYMBOLS[(word >> (10 - (bit & 7))) & 0x3f]);
+    }
 
     return {
-        encryptedData: arrayBufferToBase64(encryptedData),
-        encryptedKey: arrayBufferToBase64(encryptedKey),
-        iv: arrayBufferToBase64(iv),
+        symbols,
+        fingerprint: Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join(''),
     };
 }
 
 /**
- * Decrypt a message using hybrid decryption
+ * Encrypt a message with the next key of the sending chain
  */
-export async function decryptMessage(
-    encrypted: EncryptedMessage,
-    privateKey: CryptoKey
-): Promise<string> {
-    try {
-        // Decrypt AES key with RSA private key
-        const encryptedKeyBuffer = base64ToArrayBuffer(encrypted.encryptedKey);
-        const aesKeyBuffer = await window.crypto.subtle.decrypt(
-            {
-                name: 'RSA-OAEP',
-            },
-            privateKey,
-            encryptedKeyBuffer
-        );
+export function encryptMessage(
+    session: RatchetSession,
+    message: string
+): Promise<EncryptedMessage> {
+    return enqueue(session, async () => {
+        const { messageKey, nextChainKey } = await ratchetStep(session.sendChainKey);
+        const n = session.sendCounter;
+        session.sendChainKey = nextChainKey;
+        session.sendCounter++;
 
-        // Import AES key
-        const aesKey = await window.crypto.subtle.importKey(
-            'raw',
-            aesKeyBuffer,
+        const iv = window.crypto.getRandomValues(new Uint8Array(12));
+        const encryptedData = await window.crypto.subtle.encrypt(
             {
                 name: 'AES-GCM',
-                length: 256,
+                iv,
+                additionalData: envelopeHeader(n),
             },
-            false,
-            ['decrypt']
+            messageKey,
+            new TextEncoder().encode(message)
         );
 
-        // Decrypt message with AES
-        const encryptedDataBuffer = base64ToArrayBuffer(encrypted.encryptedData);
-        const ivBuffer = base64ToArrayBuffer(encrypted.iv);
+        return {
+            v: PROTOCOL_VERSION,
+            n,
+            iv: arrayBufferToBase64(iv.buffer),
+            ciphertext: arrayBufferToBase64(encryptedData),
+        };
+    });
+}
 
-        const decryptedData = await window.crypto.subtle.decrypt(
-            {
-                name: 'AES-GCM',
-                iv: ivBuffer,
-            },
-            aesKey,
-            encryptedDataBuffer
-        );
+/**
+ * Decrypt a message, ratcheting the receiving chain forward as needed.
+ * The session only advances once the message authenticates.
+ */
+export function decryptMessage(
+    session: RatchetSession,
+    encrypted: unknown
+): Promise<string> {
+    const envelope = parseEnvelope(encrypted);
+
+    return enqueue(session, async () => {
+        try {
+            let messageKey: CryptoKey;
+            let chainKey = session.receiveChainKey;
+            let counter = session.receiveCounter;
+            const skipped = new Map<number, CryptoKey>();
 
-        return new TextDecoder().decode(decryptedData);
-    } catch (error) {
-        console.error('Decryption failed:', error);
-        throw new Error('Failed to decrypt message');
+            if (envelope.n < counter) {
+                const key = session.skippedKeys.get(envelope.n);
+                if (!key) throw new Error(`Message ${envelope.n} was already decrypted or expired`);
+                messageKey = key;
+            } else {
+                if (envelope.n - counter > MAX_SKIP) throw new Error('Too many skipped messages');
+                while (counter < envelope.n) {
+                    const step = await ratchetStep(chainKey);
+                    skipped.set(counter, step.messageKey);
+                    chainKey = step.nextChainKey;
+                    counter++;
+                }
+                const step = await ratchetStep(chainKey);
+                messageKey = step.messageKey;
+                chainKey = step.nextChainKey;
+                counter++;
+            }
+
+            const decryptedData = await window.crypto.subtle.decrypt(
+                {
+                    name: 'AES-GCM',
+                    iv: base64ToArrayBuffer(envelope.iv),
+                    additionalData: envelopeHeader(envelope.n),
+                },
+                messageKey,
+                base64ToArrayBuffer(envelope.ciphertext)
+            );
+
+            // Authenticated: commit the new chain state and forget the used key
+            session.skippedKeys.delete(envelope.n);
+            if (counter > session.receiveCounter) {
+                session.receiveChainKey = chainKey;
+                session.receiveCounter = counter;
+                skipped.forEach((key, n) => session.skippedKeys.set(n, key));
+                while (session.skippedKeys.size > MAX_SKIPPED_KEYS) {
+                    session.skippedKeys.delete(session.skippedKeys.keys().next().value!);
+                }
+            }
+
+            return new TextDecoder().decode(decryptedData);
+        } catch (error) {
+            console.error('Decryption failed:', error);
+            throw new Error('Failed to decrypt message');
+        }
+    });
+}
+
+/**
+ * Generate a one-off AES-GCM key for a file transfer. The key itself is sent
+ * to the partner inside a ratchet-encrypted file offer.
+ */
+export async function generateFileKey(): Promise<CryptoKey> {
+    return window.crypto.subtle.generateKey(
+        { name: 'AES-GCM', length: 256 },
+        true,
+        ['encrypt', 'decrypt']
+    );
+}
+
+export async function exportFileKey(key: CryptoKey): Promise<string> {
+    return arrayBufferToBase64(await window.crypto.subtle.exportKey('raw', key));
+}
+
+export async function importFileKey(base64Key: string): Promise<CryptoKey> {
+    return window.crypto.subtle.importKey(
+        'raw',
+        base64ToArrayBuffer(base64Key),
+        { name: 'AES-GCM' },
+        false,
+        ['encrypt', 'decrypt']
+    );
+}
+
+/**
+ * Encrypt one chunk of a file. The transfer ID and chunk index are
+ * authenticated, so chunks can't be swapped between positions or files.
+ */
+export async function encryptChunk(
+    key: CryptoKey,
+    transferId: string,
+    index: number,
+    data: ArrayBuffer
+): Promise<{ iv: string; data: ArrayBuffer }> {
+    const iv = window.crypto.getRandomValues(new Uint8Array(12));
+    const encryptedData = await window.crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv, additionalData: chunkHeader(transferId, index) },
+        key,
+        data
+    );
+    return { iv: arrayBufferToBase64(iv.buffer), data: encryptedData };
+}
+
+export async function decryptChunk(
+    key: CryptoKey,
+    transferId: string,
+    index: number,
+    iv: ArrayBuffer,
+    data: ArrayBuffer
+): Promise<ArrayBuffer> {
+    return window.crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv, additionalData: chunkHeader(transferId, index) },
+        key,
+        data
+    );
+}
+
+/**
+ * SHA-256 of a chunk as it goes over the wire, as lowercase hex
+ */
+export async function hashChunk(data: ArrayBuffer): Promise<string> {
+    const digest = new Uint8Array(await window.crypto.subtle.digest('SHA-256', data));
+    return Array.from(digest, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Validate the envelope shape and version before touching any keys
+ */
+function parseEnvelope(encrypted: unknown): EncryptedMessage {
+    const envelope = encrypted as Partial<EncryptedMessage> | null;
+    if (!envelope || typeof envelope !== 'object' || envelope.v !== PROTOCOL_VERSION) {
+        throw new UnsupportedEnvelopeError(envelope && typeof envelope === 'object' ? envelope.v : undefined);
+    }
+    if (!Number.isInteger(envelope.n) || envelope.n! < 0 || typeof envelope.iv !== 'string' || typeof envelope.ciphertext !== 'string') {
+        throw new Error('Malformed encrypted message');
     }
+    return envelope as EncryptedMessage;
 }
 
 /**
- * Encrypt file content
+ * Advance a chain: derive this step's message key and the next chain key
  */
-export async function encryptFile(
-    fileContent: string,
-    recipientPublicKey: CryptoKey
-): Promise<EncryptedMessage> {
-    // Files are base64 encoded, so we encrypt them the same way as messages
-    return encryptMessage(fileContent, recipientPublicKey);
+async function ratchetStep(chainKey: ArrayBuffer): Promise<{ messageKey: CryptoKey; nextChainKey: ArrayBuffer }> {
+    const hmacKey = await window.crypto.subtle.importKey(
+        'raw',
+        chainKey,
+        {
+            name: 'HMAC',
+            hash: 'SHA-256',
+        },
+        false,
+        ['sign']
+    );
+
+    const messageKeyData = await window.crypto.subtle.sign('HMAC', hmacKey, new Uint8Array([0x01]));
+    const nextChainKey = await window.crypto.subtle.sign('HMAC', hmacKey, new Uint8Array([0x02]));
+
+    const messageKey = await window.crypto.subtle.importKey(
+        'raw',
+        messageKeyData,
+        {
+            name: 'AES-GCM',
+            length: 256,
+        },
+        false,
+        ['encrypt', 'decrypt']
+    );
+
+    return { messageKey, nextChainKey };
 }
 
 /**
- * Decrypt file content
+ * Authenticated header so the version and message number can't be altered
  */
-export async function decryptFile(
-    encrypted: EncryptedMessage,
-    privateKey: CryptoKey
-): Promise<string> {
-    return decryptMessage(encrypted, privateKey);
+function envelopeHeader(n: number) {
+    return new TextEncoder().encode(`v${PROTOCOL_VERSION}:${n}`);
+}
+
+function chunkHeader(transferId: string, index: number) {
+    return new TextEncoder().encode(`file:${transferId}:${index}`);
+}
+
+/**
+ * Run ratchet operations one at a time so chain state is never read mid-update
+ */
+function enqueue<T>(session: RatchetSession, task: () => Promise<T>): Promise<T> {
+    const result = session.queue.then(task);
+    session.queue = result.catch(() => undefined);
+    return result;
 }
 
 /**
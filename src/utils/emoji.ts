@@ -0,0 +1,1255 @@
+/**
+ * Emoji data for the picker, bundled with the app so nothing is fetched from
+ * a CDN. Names are the Unicode character names; `keywords` add the words
+ * people actually search for. `tones` marks emoji that take a skin tone.
+ */
+
+export interface EmojiEntry {
+    emoji: string;
+    name: string;
+    keywords?: string;
+    tones?: boolean;
+}
+
+export interface EmojiCategory {
+    id: string;
+    label: string;
+    emojis: EmojiEntry[];
+}
+
+export const SKIN_TONES = [
+    { id: 'default', label: 'Default', modifier: '' },
+    { id: 'light', label: 'Light', modifier: '\u{1F3FB}' },
+    { id: 'medium-light', label: 'Medium-light', modifier: '\u{1F3FC}' },
+    { id: 'medium', label: 'Medium', modifier: '\u{1F3FD}' },
+    { id: 'medium-dark', label: 'Medium-dark', modifier: '\u{1F3FE}' },
+    { id: 'dark', label: 'Dark', modifier: '\u{1F3FF}' }
+] as const;
+
+export type SkinTone = typeof SKIN_TONES[number]['id'];
+
+const RECENT_KEY = 'stranger_recent_emoji';
+const SKIN_TONE_KEY = 'stranger_emoji_skin_tone';
+const RECENT_LIMIT = 24;
+
+// The modifier goes straight after the base character, replacing any U+FE0F
+export function applySkinTone(entry: EmojiEntry, tone: SkinTone): string {
+    const modifier = SKIN_TONES.find(option => option.id === tone)?.modifier;
+    if (!entry.tones || !modifier) return entry.emoji;
+    const [base, ...rest] = Array.from(entry.emoji);
+    return base + modifier + rest.join('').replace(/^\uFE0F/, '');
+}
+
+export function searchEmoji(query: string): EmojiEntry[] {
+    const words = query.trim().toLowerCase().split(/\s+/).filter(Boolean);
+    if (words.length === 0) return [];
+    return EMOJI_CATEGORIES.flatMap(category => category.emojis).filter(entry => {
+        const haystack = `${entry.name} ${entry.keywords ?? ''}`;
+        return words.every(word => haystack.includes(word));
+    });
+}
+
+export function loadRecentEmoji(): string[] {
+    try {
+        const stored = JSON.parse(localStorage.getItem(RECENT_KEY) || '[]');
+        return Array.isArray(stored) ? stored.filter(item => typeof item === 'string').slice(0, RECENT_LIMIT) : [];
+    } catch {
+        return [];
+    }
+}
+
+// Moves `emoji` to the front of the recently used list and returns the new list
+export function rememberEmoji(emoji: string): string[] {
+    const recent = [emoji, ...loadRecentEmoji().filter(item => item !== emoji)].slice(0, RECENT_LIMIT);
+    try {
+        localStorage.setItem(RECENT_KEY, JSON.stringify(recent));
+    } catch (e) {
+        console.error('Failed to save to localStorage:', e);
+    }
+    return recent;
+}
+
+export function loadSkinTone(): SkinTone {
+    const stored = localStorage.getItem(SKIN_TONE_KEY);
+    return SKIN_TONES.find(option => option.id === stored)?.id ?? 'default';
+}
+
+export function saveSkinTone(tone: SkinTone) {
+    try {
+        localStorage.setItem(SKIN_TONE_KEY, tone);
+    } catch (e) {
+        console.error('Failed to save to localStorage:', e);
+    }
+}
+
+export const EMOJI_CATEGORIES: EmojiCategory[] = [
+    {
+        id: 'smileys',
+        label: 'Smileys & emotion',
+        emojis: [
+            { emoji: '😀', name: 'grinning face', keywords: 'smile happy' },
+            { emoji: '😁', name: 'grinning face with smiling eyes' },
+            { emoji: '😂', name: 'face with tears of joy', keywords: 'laugh lol crying' },
+            { emoji: '😃', name: 'smiling face with open mouth' },
+            { emoji: '😄', name: 'smiling face with open mouth and smiling eyes' },
+            { emoji: '😅', name: 'smiling face with open mouth and cold sweat', keywords: 'sweat nervous' },
+            { emoji: '😆', name: 'smiling face with open mouth and tightly-closed eyes' },
+            { emoji: '😇', name: 'smiling face with halo' },
+            { emoji: '😈', name: 'smiling face with horns' },
+            { emoji: '😉', name: 'winking face', keywords: 'wink' },
+            { emoji: '😊', name: 'smiling face with smiling eyes', keywords: 'blush happy' },
+            { emoji: '😋', name: 'face savouring delicious food' },
+            { emoji: '😌', name: 'relieved face' },
+            { emoji: '😍', name: 'smiling face with heart-shaped eyes', keywords: 'love crush' },
+            { emoji: '😎', name: 'smiling face with sunglasses', keywords: 'cool sunglasses' },
+            { emoji: '😏', name: 'smirking face', keywords: 'smirk' },
+            { emoji: '😐', name: 'neutral face', keywords: 'meh' },
+            { emoji: '😑', name: 'expressionless face' },
+            { emoji: '😒', name: 'unamused face', keywords: 'meh annoyed' },
+            { emoji: '😓', name: 'face with cold sweat' },
+            { emoji: '😔', name: 'pensive face' },
+            { emoji: '😕', name: 'confused face', keywords: 'confused' },
+            { emoji: '😖', name: 'confounded face' },
+            { emoji: '😗', name: 'kissing face' },
+            { emoji: '😘', name: 'face throwing a kiss', keywords: 'kiss' },
+            { emoji: '😙', name: 'kissing face with smiling eyes' },
+            { emoji: '😚', name: 'kissing face with closed eyes' },
+            { emoji: '😛', name: 'face with stuck-out tongue' },
+            { emoji: '😜', name: 'face with stuck-out tongue and winking eye', keywords: 'tongue joke' },
+            { emoji: '😝', name: 'face with stuck-out tongue and tightly-closed eyes' },
+            { emoji: '😞', name: 'disappointed face' },
+            { emoji: '😟', name: 'worried face' },
+            { emoji: '😠', name: 'angry face', keywords: 'angry mad' },
+            { emoji: '😡', name: 'pouting face', keywords: 'angry mad' },
+            { emoji: '😢', name: 'crying face', keywords: 'cry sad' },
+            { emoji: '😣', name: 'persevering face' },
+            { emoji: '😤', name: 'face with look of triumph' },
+            { emoji: '😥', name: 'disappointed but relieved face' },
+            { emoji: '😦', name: 'frowning face with open mouth' },
+            { emoji: '😧', name: 'anguished face' },
+            { emoji: '😨', name: 'fearful face' },
+            { emoji: '😩', name: 'weary face' },
+            { emoji: '😪', name: 'sleepy face' },
+            { emoji: '😫', name: 'tired face' },
+            { emoji: '😬', name: 'grimacing face', keywords: 'awkward' },
+            { emoji: '😭', name: 'loudly crying face', keywords: 'cry sad sob' },
+            { emoji: '😮', name: 'face with open mouth' },
+            { emoji: '😯', name: 'hushed face' },
+            { emoji: '😰', name: 'face with open mouth and cold sweat' },
+            { emoji: '😱', name: 'face screaming in fear', keywords: 'scream shock' },
+            { emoji: '😲', name: 'astonished face' },
+            { emoji: '😳', name: 'flushed face', keywords: 'embarrassed' },
+            { emoji: '😴', name: 'sleeping face', keywords: 'sleep tired zzz' },
+            { emoji: '😵', name: 'dizzy face' },
+            { emoji: '😶', name: 'face without mouth' },
+            { emoji: '😷', name: 'face with medical mask' },
+            { emoji: '🙁', name: 'slightly frowning face' },
+            { emoji: '🙂', name: 'slightly smiling face' },
+            { emoji: '🙃', name: 'upside-down face', keywords: 'sarcasm silly' },
+            { emoji: '🙄', name: 'face with rolling eyes', keywords: 'eyeroll whatever' },
+            { emoji: '🤐', name: 'zipper-mouth face' },
+            { emoji: '🤑', name: 'money-mouth face' },
+            { emoji: '🤒', name: 'face with thermometer' },
+            { emoji: '🤓', name: 'nerd face' },
+            { emoji: '🤔', name: 'thinking face', keywords: 'hmm think' },
+            { emoji: '🤕', name: 'face with head-bandage' },
+            { emoji: '🤗', name: 'hugging face' },
+            { emoji: '🤠', name: 'face with cowboy hat' },
+            { emoji: '🤡', name: 'clown face' },
+            { emoji: '🤢', name: 'nauseated face' },
+            { emoji: '🤣', name: 'rolling on the floor laughing', keywords: 'laugh lol rofl' },
+            { emoji: '🤤', name: 'drooling face' },
+            { emoji: '🤥', name: 'lying face' },
+            { emoji: '🤧', name: 'sneezing face' },
+            { emoji: '🤨', name: 'face with one eyebrow raised' },
+            { emoji: '🤩', name: 'grinning face with star eyes', keywords: 'wow star' },
+            { emoji: '🤪', name: 'grinning face with one large and one small eye' },
+            { emoji: '🤫', name: 'face with finger covering closed lips' },
+            { emoji: '🤬', name: 'serious face with symbols covering mouth' },
+            { emoji: '🤭', name: 'smiling face with smiling eyes and hand covering mouth' },
+            { emoji: '🤮', name: 'face with open mouth vomiting' },
+            { emoji: '🤯', name: 'shocked face with exploding head', keywords: 'mind blown' },
+            { emoji: '🥰', name: 'smiling face with smiling eyes and three hearts' },
+            { emoji: '🥱', name: 'yawning face', keywords: 'bored tired' },
+            { emoji: '🥲', name: 'smiling face with tear' },
+            { emoji: '🥳', name: 'face with party horn and party hat', keywords: 'party celebrate birthday' },
+            { emoji: '🥴', name: 'face with uneven eyes and wavy mouth' },
+            { emoji: '🥵', name: 'overheated face' },
+            { emoji: '🥶', name: 'freezing face' },
+            { emoji: '🥸', name: 'disguised face' },
+            { emoji: '🥹', name: 'face holding back tears' },
+            { emoji: '🥺', name: 'face with pleading eyes', keywords: 'please puppy eyes' },
+            { emoji: '🧐', name: 'face with monocle' },
+            { emoji: '☺️', name: 'white smiling face' },
+            { emoji: '🫠', name: 'melting face' },
+            { emoji: '🫡', name: 'saluting face' },
+            { emoji: '🫢', name: 'face with open eyes and hand over mouth' },
+            { emoji: '🫣', name: 'face with peeking eye' },
+            { emoji: '🫤', name: 'face with diagonal mouth' },
+            { emoji: '🫥', name: 'dotted line face' },
+            { emoji: '🫦', name: 'biting lip' },
+            { emoji: '🫧', name: 'bubbles' },
+            { emoji: '👿', name: 'imp' },
+            { emoji: '👹', name: 'japanese ogre' },
+            { emoji: '👺', name: 'japanese goblin' },
+            { emoji: '💀', name: 'skull', keywords: 'dead skull lol' },
+            { emoji: '👻', name: 'ghost', keywords: 'ghost boo' },
+            { emoji: '👽', name: 'extraterrestrial alien' },
+            { emoji: '👾', name: 'alien monster' },
+            { emoji: '🤖', name: 'robot face', keywords: 'robot bot' },
+            { emoji: '💩', name: 'pile of poo', keywords: 'poop' },
+            { emoji: '😸', name: 'grinning cat face with smiling eyes' },
+            { emoji: '😹', name: 'cat face with tears of joy' },
+            { emoji: '😺', name: 'smiling cat face with open mouth' },
+            { emoji: '😻', name: 'smiling cat face with heart-shaped eyes' },
+            { emoji: '😼', name: 'cat face with wry smile' },
+            { emoji: '😽', name: 'kissing cat face with closed eyes' },
+            { emoji: '😾', name: 'pouting cat face' },
+            { emoji: '😿', name: 'crying cat face' },
+            { emoji: '🙀', name: 'weary cat face' },
+            { emoji: '🙈', name: 'see-no-evil monkey' },
+            { emoji: '🙉', name: 'hear-no-evil monkey' },
+            { emoji: '🙊', name: 'speak-no-evil monkey' },
+            { emoji: '💋', name: 'kiss mark' },
+            { emoji: '💌', name: 'love letter' },
+            { emoji: '❤️', name: 'heavy black heart', keywords: 'love heart red' },
+            { emoji: '🧡', name: 'orange heart' },
+            { emoji: '💛', name: 'yellow heart' },
+            { emoji: '💚', name: 'green heart' },
+            { emoji: '💙', name: 'blue heart' },
+            { emoji: '💜', name: 'purple heart' },
+            { emoji: '🤎', name: 'brown heart' },
+            { emoji: '🖤', name: 'black heart' },
+            { emoji: '🤍', name: 'white heart' },
+            { emoji: '💓', name: 'beating heart' },
+            { emoji: '💔', name: 'broken heart', keywords: 'heartbreak sad' },
+            { emoji: '💕', name: 'two hearts', keywords: 'love' },
+            { emoji: '💖', name: 'sparkling heart', keywords: 'love sparkle' },
+            { emoji: '💗', name: 'growing heart' },
+            { emoji: '💘', name: 'heart with arrow' },
+            { emoji: '💝', name: 'heart with ribbon' },
+            { emoji: '💞', name: 'revolving hearts' },
+            { emoji: '💟', name: 'heart decoration' },
+            { emoji: '💯', name: 'hundred points symbol', keywords: 'hundred perfect' },
+            { emoji: '💢', name: 'anger symbol' },
+            { emoji: '💥', name: 'collision symbol' },
+            { emoji: '💫', name: 'dizzy symbol' },
+            { emoji: '💦', name: 'splashing sweat symbol' },
+            { emoji: '💨', name: 'dash symbol' },
+            { emoji: '💬', name: 'speech balloon' },
+            { emoji: '💭', name: 'thought balloon' },
+            { emoji: '💤', name: 'sleeping symbol' }
+        ]
+    },
+    {
+        id: 'people',
+        label: 'People & body',
+        emojis: [
+            { emoji: '👋', name: 'waving hand sign', keywords: 'hi hello bye wave', tones: true },
+            { emoji: '🤚', name: 'raised back of hand', tones: true },
+            { emoji: '🖐️', name: 'raised hand with fingers splayed', tones: true },
+            { emoji: '✋', name: 'raised hand', tones: true },
+            { emoji: '🖖', name: 'raised hand with part between middle and ring fingers', tones: true },
+            { emoji: '🫱', name: 'rightwards hand', tones: true },
+            { emoji: '🫲', name: 'leftwards hand', tones: true },
+            { emoji: '🫳', name: 'palm down hand', tones: true },
+            { emoji: '🫴', name: 'palm up hand', tones: true },
+            { emoji: '👌', name: 'ok hand sign', keywords: 'ok perfect', tones: true },
+            { emoji: '🤌', name: 'pinched fingers', tones: true },
+            { emoji: '🤏', name: 'pinching hand', tones: true },
+            { emoji: '✌️', name: 'victory hand', keywords: 'peace victory', tones: true },
+            { emoji: '🤞', name: 'hand with index and middle fingers crossed', tones: true },
+            { emoji: '🫰', name: 'hand with index finger and thumb crossed', tones: true },
+            { emoji: '🤟', name: 'i love you hand sign', tones: true },
+            { emoji: '🤘', name: 'sign of the horns', tones: true },
+            { emoji: '🤙', name: 'call me hand', tones: true },
+            { emoji: '👈', name: 'white left pointing backhand index', tones: true },
+            { emoji: '👉', name: 'white right pointing backhand index', tones: true },
+            { emoji: '👆', name: 'white up pointing backhand index', tones: true },
+            { emoji: '🖕', name: 'reversed hand with middle finger extended', tones: true },
+            { emoji: '👇', name: 'white down pointing backhand index', tones: true },
+            { emoji: '☝️', name: 'white up pointing index', tones: true },
+            { emoji: '🫵', name: 'index pointing at the viewer', tones: true },
+            { emoji: '👍', name: 'thumbs up sign', keywords: 'yes ok like approve', tones: true },
+            { emoji: '👎', name: 'thumbs down sign', keywords: 'no dislike', tones: true },
+            { emoji: '✊', name: 'raised fist', tones: true },
+            { emoji: '👊', name: 'fisted hand sign', tones: true },
+            { emoji: '🤛', name: 'left-facing fist', tones: true },
+            { emoji: '🤜', name: 'right-facing fist', tones: true },
+            { emoji: '👏', name: 'clapping hands sign', keywords: 'clap applause bravo', tones: true },
+            { emoji: '🙌', name: 'person raising both hands in celebration', keywords: 'hooray celebrate', tones: true },
+            { emoji: '🫶', name: 'heart hands', keywords: 'love heart', tones: true },
+            { emoji: '👐', name: 'open hands sign', tones: true },
+            { emoji: '🤲', name: 'palms up together', tones: true },
+            { emoji: '🤝', name: 'handshake', keywords: 'deal agreement', tones: true },
+            { emoji: '🙏', name: 'person with folded hands', keywords: 'please thanks pray', tones: true },
+            { emoji: '✍️', name: 'writing hand', tones: true },
+            { emoji: '💅', name: 'nail polish', tones: true },
+            { emoji: '🤳', name: 'selfie', tones: true },
+            { emoji: '💪', name: 'flexed biceps', keywords: 'strong muscle flex', tones: true },
+            { emoji: '🦵', name: 'leg', tones: true },
+            { emoji: '🦶', name: 'foot', tones: true },
+            { emoji: '👂', name: 'ear', tones: true },
+            { emoji: '🦻', name: 'ear with hearing aid', tones: true },
+            { emoji: '👃', name: 'nose', tones: true },
+            { emoji: '🧠', name: 'brain' },
+            { emoji: '👀', name: 'eyes', keywords: 'look see' },
+            { emoji: '👅', name: 'tongue' },
+            { emoji: '👄', name: 'mouth' },
+            { emoji: '👶', name: 'baby', tones: true },
+            { emoji: '🧒', name: 'child', tones: true },
+            { emoji: '👦', name: 'boy', tones: true },
+            { emoji: '👧', name: 'girl', tones: true },
+            { emoji: '🧑', name: 'adult', tones: true },
+            { emoji: '👨', name: 'man', tones: true },
+            { emoji: '👩', name: 'woman', tones: true },
+            { emoji: '🧓', name: 'older adult', tones: true },
+            { emoji: '👴', name: 'older man', tones: true },
+            { emoji: '👵', name: 'older woman', tones: true },
+            { emoji: '🙍', name: 'person frowning', tones: true },
+            { emoji: '🙎', name: 'person with pouting face', tones: true },
+            { emoji: '🙅', name: 'face with no good gesture', tones: true },
+            { emoji: '🙆', name: 'face with ok gesture', tones: true },
+            { emoji: '💁', name: 'information desk person', tones: true },
+            { emoji: '🙋', name: 'happy person raising one hand', tones: true },
+            { emoji: '🙇', name: 'person bowing deeply', tones: true },
+            { emoji: '🤦', name: 'face palm', keywords: 'facepalm', tones: true },
+            { emoji: '🤷', name: 'shrug', keywords: 'dunno whatever', tones: true },
+            { emoji: '👮', name: 'police officer', tones: true },
+            { emoji: '💂', name: 'guardsman', tones: true },
+            { emoji: '👷', name: 'construction worker', tones: true },
+            { emoji: '🫅', name: 'person with crown', tones: true },
+            { emoji: '🤴', name: 'prince', tones: true },
+            { emoji: '👸', name: 'princess', tones: true },
+            { emoji: '👳', name: 'man with turban', tones: true },
+            { emoji: '👲', name: 'man with gua pi mao', tones: true },
+            { emoji: '🧕', name: 'person with headscarf', tones: true },
+            { emoji: '👰', name: 'bride with veil', tones: true },
+            { emoji: '🤰', name: 'pregnant woman', tones: true },
+            { emoji: '🫃', name: 'pregnant man', tones: true },
+            { emoji: '🤱', name: 'breast-feeding', tones: true },
+            { emoji: '👼', name: 'baby angel', tones: true },
+            { emoji: '🎅', name: 'father christmas', tones: true },
+            { emoji: '🤶', name: 'mother christmas', tones: true },
+            { emoji: '🦸', name: 'superhero', tones: true },
+            { emoji: '🦹', name: 'supervillain', tones: true },
+            { emoji: '🧙', name: 'mage', tones: true },
+            { emoji: '🧚', name: 'fairy', tones: true },
+            { emoji: '🧛', name: 'vampire', tones: true },
+            { emoji: '🧜', name: 'merperson', tones: true },
+            { emoji: '🧝', name: 'elf', tones: true },
+            { emoji: '🧞', name: 'genie' },
+            { emoji: '🧟', name: 'zombie' },
+            { emoji: '💆', name: 'face massage', tones: true },
+            { emoji: '💇', name: 'haircut', tones: true },
+            { emoji: '🚶', name: 'pedestrian', tones: true },
+            { emoji: '🧍', name: 'standing person', tones: true },
+            { emoji: '🧎', name: 'kneeling person', tones: true },
+            { emoji: '🏃', name: 'runner', tones: true },
+            { emoji: '💃', name: 'dancer', tones: true },
+            { emoji: '🕺', name: 'man dancing', tones: true },
+            { emoji: '👯', name: 'woman with bunny ears' },
+            { emoji: '🧖', name: 'person in steamy room', tones: true },
+            { emoji: '🧗', name: 'person climbing', tones: true },
+            { emoji: '🏇', name: 'horse racing', tones: true },
+            { emoji: '🏂', name: 'snowboarder', tones: true },
+            { emoji: '🏄', name: 'surfer', tones: true },
+            { emoji: '🚣', name: 'rowboat', tones: true },
+            { emoji: '🏊', name: 'swimmer', tones: true },
+            { emoji: '🚴', name: 'bicyclist', tones: true },
+            { emoji: '🚵', name: 'mountain bicyclist', tones: true },
+            { emoji: '🤸', name: 'person doing cartwheel', tones: true },
+            { emoji: '🤼', name: 'wrestlers' },
+            { emoji: '🤽', name: 'water polo', tones: true },
+            { emoji: '🤾', name: 'handball', tones: true },
+            { emoji: '🤹', name: 'juggling', tones: true },
+            { emoji: '🧘', name: 'person in lotus position', tones: true },
+            { emoji: '🛀', name: 'bath', tones: true },
+            { emoji: '🛌', name: 'sleeping accommodation', tones: true },
+            { emoji: '👭', name: 'two women holding hands', tones: true },
+            { emoji: '👫', name: 'man and woman holding hands', tones: true },
+            { emoji: '👬', name: 'two men holding hands', tones: true },
+            { emoji: '💏', name: 'kiss', tones: true },
+            { emoji: '💑', name: 'couple with heart', tones: true },
+            { emoji: '👪', name: 'family' },
+            { emoji: '👤', name: 'bust in silhouette' },
+            { emoji: '👥', name: 'busts in silhouette' },
+            { emoji: '👣', name: 'footprints' }
+        ]
+    },
+    {
+        id: 'nature',
+        label: 'Animals & nature',
+        emojis: [
+            { emoji: '🐵', name: 'monkey face' },
+            { emoji: '🐒', name: 'monkey' },
+            { emoji: '🦍', name: 'gorilla' },
+            { emoji: '🦧', name: 'orangutan' },
+            { emoji: '🐶', name: 'dog face', keywords: 'dog puppy' },
+            { emoji: '🐕', name: 'dog' },
+            { emoji: '🦮', name: 'guide dog' },
+            { emoji: '🐩', name: 'poodle' },
+            { emoji: '🐺', name: 'wolf face' },
+            { emoji: '🦊', name: 'fox face' },
+            { emoji: '🦝', name: 'raccoon' },
+            { emoji: '🐱', name: 'cat face', keywords: 'cat kitty' },
+            { emoji: '🐈', name: 'cat' },
+            { emoji: '🦁', name: 'lion face' },
+            { emoji: '🐯', name: 'tiger face' },
+            { emoji: '🐅', name: 'tiger' },
+            { emoji: '🐆', name: 'leopard' },
+            { emoji: '🐴', name: 'horse face' },
+            { emoji: '🐎', name: 'horse' },
+            { emoji: '🦄', name: 'unicorn face' },
+            { emoji: '🦓', name: 'zebra face' },
+            { emoji: '🦌', name: 'deer' },
+            { emoji: '🦬', name: 'bison' },
+            { emoji: '🐮', name: 'cow face' },
+            { emoji: '🐂', name: 'ox' },
+            { emoji: '🐃', name: 'water buffalo' },
+            { emoji: '🐄', name: 'cow' },
+            { emoji: '🐷', name: 'pig face' },
+            { emoji: '🐖', name: 'pig' },
+            { emoji: '🐗', name: 'boar' },
+            { emoji: '🐽', name: 'pig nose' },
+            { emoji: '🐏', name: 'ram' },
+            { emoji: '🐑', name: 'sheep' },
+            { emoji: '🐐', name: 'goat' },
+            { emoji: '🐪', name: 'dromedary camel' },
+            { emoji: '🐫', name: 'bactrian camel' },
+            { emoji: '🦙', name: 'llama' },
+            { emoji: '🦒', name: 'giraffe face' },
+            { emoji: '🐘', name: 'elephant' },
+            { emoji: '🦣', name: 'mammoth' },
+            { emoji: '🦏', name: 'rhinoceros' },
+            { emoji: '🦛', name: 'hippopotamus' },
+            { emoji: '🐭', name: 'mouse face' },
+            { emoji: '🐁', name: 'mouse' },
+            { emoji: '🐀', name: 'rat' },
+            { emoji: '🐹', name: 'hamster face' },
+            { emoji: '🐰', name: 'rabbit face' },
+            { emoji: '🐇', name: 'rabbit' },
+            { emoji: '🦔', name: 'hedgehog' },
+            { emoji: '🦇', name: 'bat' },
+            { emoji: '🐻', name: 'bear face' },
+            { emoji: '🐨', name: 'koala' },
+            { emoji: '🐼', name: 'panda face' },
+            { emoji: '🦥', name: 'sloth' },
+            { emoji: '🦦', name: 'otter' },
+            { emoji: '🦨', name: 'skunk' },
+            { emoji: '🦘', name: 'kangaroo' },
+            { emoji: '🦡', name: 'badger' },
+            { emoji: '🐾', name: 'paw prints' },
+            { emoji: '🦃', name: 'turkey' },
+            { emoji: '🐔', name: 'chicken' },
+            { emoji: '🐓', name: 'rooster' },
+            { emoji: '🐣', name: 'hatching chick' },
+            { emoji: '🐤', name: 'baby chick' },
+            { emoji: '🐥', name: 'front-facing baby chick' },
+            { emoji: '🐦', name: 'bird' },
+            { emoji: '🐧', name: 'penguin' },
+            { emoji: '🦅', name: 'eagle' },
+            { emoji: '🦆', name: 'duck' },
+            { emoji: '🦢', name: 'swan' },
+            { emoji: '🦉', name: 'owl' },
+            { emoji: '🦤', name: 'dodo' },
+            { emoji: '🪶', name: 'feather' },
+            { emoji: '🦩', name: 'flamingo' },
+            { emoji: '🦚', name: 'peacock' },
+            { emoji: '🦜', name: 'parrot' },
+            { emoji: '🐸', name: 'frog face' },
+            { emoji: '🐊', name: 'crocodile' },
+            { emoji: '🐢', name: 'turtle' },
+            { emoji: '🦎', name: 'lizard' },
+            { emoji: '🐍', name: 'snake' },
+            { emoji: '🐲', name: 'dragon face' },
+            { emoji: '🐉', name: 'dragon' },
+            { emoji: '🦕', name: 'sauropod' },
+            { emoji: '🦖', name: 't-rex' },
+            { emoji: '🐳', name: 'spouting whale' },
+            { emoji: '🐋', name: 'whale' },
+            { emoji: '🐬', name: 'dolphin' },
+            { emoji: '🦭', name: 'seal' },
+            { emoji: '🐟', name: 'fish' },
+            { emoji: '🐠', name: 'tropical fish' },
+            { emoji: '🐡', name: 'blowfish' },
+            { emoji: '🦈', name: 'shark' },
+            { emoji: '🐙', name: 'octopus' },
+            { emoji: '🐚', name: 'spiral shell' },
+            { emoji: '🐌', name: 'snail' },
+            { emoji: '🦋', name: 'butterfly' },
+            { emoji: '🐛', name: 'bug' },
+            { emoji: '🐜', name: 'ant' },
+            { emoji: '🐝', name: 'honeybee' },
+            { emoji: '🪲', name: 'beetle' },
+            { emoji: '🐞', name: 'lady beetle' },
+            { emoji: '🦗', name: 'cricket' },
+            { emoji: '🪳', name: 'cockroach' },
+            { emoji: '🦂', name: 'scorpion' },
+            { emoji: '🦟', name: 'mosquito' },
+            { emoji: '🪰', name: 'fly' },
+            { emoji: '🪱', name: 'worm' },
+            { emoji: '🦠', name: 'microbe' },
+            { emoji: '💐', name: 'bouquet' },
+            { emoji: '🌸', name: 'cherry blossom' },
+            { emoji: '💮', name: 'white flower' },
+            { emoji: '🌹', name: 'rose' },
+            { emoji: '🥀', name: 'wilted flower' },
+            { emoji: '🌺', name: 'hibiscus' },
+            { emoji: '🌻', name: 'sunflower' },
+            { emoji: '🌼', name: 'blossom' },
+            { emoji: '🌷', name: 'tulip' },
+            { emoji: '🌱', name: 'seedling' },
+            { emoji: '🪴', name: 'potted plant' },
+            { emoji: '🌲', name: 'evergreen tree' },
+            { emoji: '🌳', name: 'deciduous tree' },
+            { emoji: '🌴', name: 'palm tree' },
+            { emoji: '🌵', name: 'cactus' },
+            { emoji: '🌾', name: 'ear of rice' },
+            { emoji: '🌿', name: 'herb' },
+            { emoji: '🍀', name: 'four leaf clover' },
+            { emoji: '🍁', name: 'maple leaf' },
+            { emoji: '🍂', name: 'fallen leaf' },
+            { emoji: '🍃', name: 'leaf fluttering in wind' },
+            { emoji: '🍄', name: 'mushroom' },
+            { emoji: '🪹', name: 'empty nest' },
+            { emoji: '🪺', name: 'nest with eggs' },
+            { emoji: '🌰', name: 'chestnut' },
+            { emoji: '🌍', name: 'earth globe europe-africa' },
+            { emoji: '🌎', name: 'earth globe americas' },
+            { emoji: '🌏', name: 'earth globe asia-australia' },
+            { emoji: '🌑', name: 'new moon symbol' },
+            { emoji: '🌒', name: 'waxing crescent moon symbol' },
+            { emoji: '🌓', name: 'first quarter moon symbol' },
+            { emoji: '🌔', name: 'waxing gibbous moon symbol' },
+            { emoji: '🌕', name: 'full moon symbol' },
+            { emoji: '🌖', name: 'waning gibbous moon symbol' },
+            { emoji: '🌗', name: 'last quarter moon symbol' },
+            { emoji: '🌘', name: 'waning crescent moon symbol' },
+            { emoji: '🌙', name: 'crescent moon', keywords: 'moon night' },
+            { emoji: '🌚', name: 'new moon with face' },
+            { emoji: '🌛', name: 'first quarter moon with face' },
+            { emoji: '🌜', name: 'last quarter moon with face' },
+            { emoji: '🌝', name: 'full moon with face' },
+            { emoji: '🌞', name: 'sun with face', keywords: 'sun sunny' },
+            { emoji: '⭐', name: 'white medium star', keywords: 'star' },
+            { emoji: '🌟', name: 'glowing star' },
+            { emoji: '🌠', name: 'shooting star' },
+            { emoji: '☁️', name: 'cloud' },
+            { emoji: '⛅', name: 'sun behind cloud' },
+            { emoji: '🌈', name: 'rainbow', keywords: 'rainbow pride' },
+            { emoji: '❄️', name: 'snowflake' },
+            { emoji: '☃️', name: 'snowman' },
+            { emoji: '⛄', name: 'snowman without snow' },
+            { emoji: '⚡', name: 'high voltage sign', keywords: 'lightning zap' },
+            { emoji: '🔥', name: 'fire', keywords: 'fire lit hot' },
+            { emoji: '💧', name: 'droplet' },
+            { emoji: '🌊', name: 'water wave' },
+            { emoji: '☔', name: 'umbrella with rain drops' }
+        ]
+    },
+    {
+        id: 'food',
+        label: 'Food & drink',
+        emojis: [
+            { emoji: '🍅', name: 'tomato' },
+            { emoji: '🍆', name: 'aubergine' },
+            { emoji: '🍇', name: 'grapes' },
+            { emoji: '🍈', name: 'melon' },
+            { emoji: '🍉', name: 'watermelon' },
+            { emoji: '🍊', name: 'tangerine' },
+            { emoji: '🍋', name: 'lemon' },
+            { emoji: '🍌', name: 'banana' },
+            { emoji: '🍍', name: 'pineapple' },
+            { emoji: '🍎', name: 'red apple' },
+            { emoji: '🍏', name: 'green apple' },
+            { emoji: '🍐', name: 'pear' },
+            { emoji: '🍑', name: 'peach' },
+            { emoji: '🍒', name: 'cherries' },
+            { emoji: '🍓', name: 'strawberry' },
+            { emoji: '🍔', name: 'hamburger' },
+            { emoji: '🍕', name: 'slice of pizza', keywords: 'pizza' },
+            { emoji: '🍖', name: 'meat on bone' },
+            { emoji: '🍗', name: 'poultry leg' },
+            { emoji: '🍘', name: 'rice cracker' },
+            { emoji: '🍙', name: 'rice ball' },
+            { emoji: '🍚', name: 'cooked rice' },
+            { emoji: '🍛', name: 'curry and rice' },
+            { emoji: '🍜', name: 'steaming bowl' },
+            { emoji: '🍝', name: 'spaghetti' },
+            { emoji: '🍞', name: 'bread' },
+            { emoji: '🍟', name: 'french fries' },
+            { emoji: '🍠', name: 'roasted sweet potato' },
+            { emoji: '🍡', name: 'dango' },
+            { emoji: '🍢', name: 'oden' },
+            { emoji: '🍣', name: 'sushi' },
+            { emoji: '🍤', name: 'fried shrimp' },
+            { emoji: '🍥', name: 'fish cake with swirl design' },
+            { emoji: '🍦', name: 'soft ice cream' },
+            { emoji: '🍧', name: 'shaved ice' },
+            { emoji: '🍨', name: 'ice cream' },
+            { emoji: '🍩', name: 'doughnut' },
+            { emoji: '🍪', name: 'cookie' },
+            { emoji: '🍫', name: 'chocolate bar' },
+            { emoji: '🍬', name: 'candy' },
+            { emoji: '🍭', name: 'lollipop' },
+            { emoji: '🍮', name: 'custard' },
+            { emoji: '🍯', name: 'honey pot' },
+            { emoji: '🍰', name: 'shortcake' },
+            { emoji: '🍱', name: 'bento box' },
+            { emoji: '🍲', name: 'pot of food' },
+            { emoji: '🍳', name: 'cooking' },
+            { emoji: '🍴', name: 'fork and knife' },
+            { emoji: '🍵', name: 'teacup without handle' },
+            { emoji: '🍶', name: 'sake bottle and cup' },
+            { emoji: '🍷', name: 'wine glass' },
+            { emoji: '🍸', name: 'cocktail glass' },
+            { emoji: '🍹', name: 'tropical drink' },
+            { emoji: '🍺', name: 'beer mug', keywords: 'beer drink' },
+            { emoji: '🍻', name: 'clinking beer mugs' },
+            { emoji: '🍼', name: 'baby bottle' },
+            { emoji: '🍽️', name: 'fork and knife with plate' },
+            { emoji: '🍾', name: 'bottle with popping cork' },
+            { emoji: '🍿', name: 'popcorn' },
+            { emoji: '🥐', name: 'croissant' },
+            { emoji: '🥑', name: 'avocado' },
+            { emoji: '🥒', name: 'cucumber' },
+            { emoji: '🥓', name: 'bacon' },
+            { emoji: '🥔', name: 'potato' },
+            { emoji: '🥕', name: 'carrot' },
+            { emoji: '🥖', name: 'baguette bread' },
+            { emoji: '🥗', name: 'green salad' },
+            { emoji: '🥘', name: 'shallow pan of food' },
+            { emoji: '🥙', name: 'stuffed flatbread' },
+            { emoji: '🥚', name: 'egg' },
+            { emoji: '🥛', name: 'glass of milk' },
+            { emoji: '🥜', name: 'peanuts' },
+            { emoji: '🥝', name: 'kiwifruit' },
+            { emoji: '🥞', name: 'pancakes' },
+            { emoji: '🥟', name: 'dumpling' },
+            { emoji: '🥠', name: 'fortune cookie' },
+            { emoji: '🥡', name: 'takeout box' },
+            { emoji: '🥢', name: 'chopsticks' },
+            { emoji: '🥣', name: 'bowl with spoon' },
+            { emoji: '🥤', name: 'cup with straw' },
+            { emoji: '🥥', name: 'coconut' },
+            { emoji: '🥦', name: 'broccoli' },
+            { emoji: '🥧', name: 'pie' },
+            { emoji: '🥨', name: 'pretzel' },
+            { emoji: '🥩', name: 'cut of meat' },
+            { emoji: '🥪', name: 'sandwich' },
+            { emoji: '🥫', name: 'canned food' },
+            { emoji: '🥬', name: 'leafy green' },
+            { emoji: '🥭', name: 'mango' },
+            { emoji: '🥮', name: 'moon cake' },
+            { emoji: '🥯', name: 'bagel' },
+            { emoji: '🧀', name: 'cheese wedge' },
+            { emoji: '🧁', name: 'cupcake' },
+            { emoji: '🧂', name: 'salt shaker' },
+            { emoji: '🧃', name: 'beverage box' },
+            { emoji: '🧄', name: 'garlic' },
+            { emoji: '🧅', name: 'onion' },
+            { emoji: '🧆', name: 'falafel' },
+            { emoji: '🧇', name: 'waffle' },
+            { emoji: '🧈', name: 'butter' },
+            { emoji: '🧉', name: 'mate drink' },
+            { emoji: '🧊', name: 'ice cube' },
+            { emoji: '🧋', name: 'bubble tea' },
+            { emoji: '🫐', name: 'blueberries' },
+            { emoji: '🫑', name: 'bell pepper' },
+            { emoji: '🫒', name: 'olive' },
+            { emoji: '🫓', name: 'flatbread' },
+            { emoji: '🫔', name: 'tamale' },
+            { emoji: '🫕', name: 'fondue' },
+            { emoji: '🫖', name: 'teapot' },
+            { emoji: '🫗', name: 'pouring liquid' },
+            { emoji: '🫘', name: 'beans' },
+            { emoji: '🫙', name: 'jar' },
+            { emoji: '☕', name: 'hot beverage', keywords: 'coffee tea' }
+        ]
+    },
+    {
+        id: 'activities',
+        label: 'Activities',
+        emojis: [
+            { emoji: '⚽', name: 'soccer ball' },
+            { emoji: '⚾', name: 'baseball' },
+            { emoji: '🥎', name: 'softball' },
+            { emoji: '🏀', name: 'basketball and hoop' },
+            { emoji: '🏐', name: 'volleyball' },
+            { emoji: '🏈', name: 'american football' },
+            { emoji: '🏉', name: 'rugby football' },
+            { emoji: '🎾', name: 'tennis racquet and ball' },
+            { emoji: '🥏', name: 'flying disc' },
+            { emoji: '🎳', name: 'bowling' },
+            { emoji: '🏑', name: 'field hockey stick and ball' },
+            { emoji: '🏒', name: 'ice hockey stick and puck' },
+            { emoji: '🥍', name: 'lacrosse stick and ball' },
+            { emoji: '🏓', name: 'table tennis paddle and ball' },
+            { emoji: '🏸', name: 'badminton racquet and shuttlecock' },
+            { emoji: '🥊', name: 'boxing glove' },
+            { emoji: '🥋', name: 'martial arts uniform' },
+            { emoji: '🥅', name: 'goal net' },
+            { emoji: '⛳', name: 'flag in hole' },
+            { emoji: '🎣', name: 'fishing pole and fish' },
+            { emoji: '🤿', name: 'diving mask' },
+            { emoji: '🎽', name: 'running shirt with sash' },
+            { emoji: '🎿', name: 'ski and ski boot' },
+            { emoji: '🛷', name: 'sled' },
+            { emoji: '🥌', name: 'curling stone' },
+            { emoji: '🎯', name: 'direct hit' },
+            { emoji: '🪀', name: 'yo-yo' },
+            { emoji: '🪁', name: 'kite' },
+            { emoji: '🎱', name: 'billiards' },
+            { emoji: '🔮', name: 'crystal ball' },
+            { emoji: '🪄', name: 'magic wand' },
+            { emoji: '🎮', name: 'video game', keywords: 'game gaming' },
+            { emoji: '🎰', name: 'slot machine' },
+            { emoji: '🎲', name: 'game die' },
+            { emoji: '🧩', name: 'jigsaw puzzle piece' },
+            { emoji: '🧸', name: 'teddy bear' },
+            { emoji: '🪅', name: 'pinata' },
+            { emoji: '🪆', name: 'nesting dolls' },
+            { emoji: '🃏', name: 'playing card black joker' },
+            { emoji: '🀄', name: 'mahjong tile red dragon' },
+            { emoji: '🎴', name: 'flower playing cards' },
+            { emoji: '🎭', name: 'performing arts' },
+            { emoji: '🎨', name: 'artist palette' },
+            { emoji: '🧵', name: 'spool of thread' },
+            { emoji: '🪡', name: 'sewing needle' },
+            { emoji: '🧶', name: 'ball of yarn' },
+            { emoji: '🪢', name: 'knot' },
+            { emoji: '🎼', name: 'musical score' },
+            { emoji: '🎵', name: 'musical note', keywords: 'music note' },
+            { emoji: '🎶', name: 'multiple musical notes', keywords: 'music notes song' },
+            { emoji: '🎤', name: 'microphone' },
+            { emoji: '🎧', name: 'headphone' },
+            { emoji: '📻', name: 'radio' },
+            { emoji: '🎷', name: 'saxophone' },
+            { emoji: '🪗', name: 'accordion' },
+            { emoji: '🎸', name: 'guitar' },
+            { emoji: '🎹', name: 'musical keyboard' },
+            { emoji: '🎺', name: 'trumpet' },
+            { emoji: '🎻', name: 'violin' },
+            { emoji: '🪕', name: 'banjo' },
+            { emoji: '🥁', name: 'drum with drumsticks' },
+            { emoji: '🪘', name: 'long drum' },
+            { emoji: '🎬', name: 'clapper board' },
+            { emoji: '🏆', name: 'trophy' },
+            { emoji: '🏅', name: 'sports medal' },
+            { emoji: '🥇', name: 'first place medal' },
+            { emoji: '🥈', name: 'second place medal' },
+            { emoji: '🥉', name: 'third place medal' },
+            { emoji: '🎫', name: 'ticket' },
+            { emoji: '🎪', name: 'circus tent' },
+            { emoji: '🎉', name: 'party popper', keywords: 'party celebrate tada' },
+            { emoji: '🎊', name: 'confetti ball' },
+            { emoji: '🎈', name: 'balloon' },
+            { emoji: '🎁', name: 'wrapped present', keywords: 'gift present' },
+            { emoji: '🎀', name: 'ribbon' },
+            { emoji: '🎃', name: 'jack-o-lantern' },
+            { emoji: '🎄', name: 'christmas tree' },
+            { emoji: '🎆', name: 'fireworks' },
+            { emoji: '🎇', name: 'firework sparkler' },
+            { emoji: '🧨', name: 'firecracker' },
+            { emoji: '✨', name: 'sparkles', keywords: 'sparkles magic' },
+            { emoji: '🎋', name: 'tanabata tree' },
+            { emoji: '🎍', name: 'pine decoration' },
+            { emoji: '🎎', name: 'japanese dolls' },
+            { emoji: '🎏', name: 'carp streamer' },
+            { emoji: '🎐', name: 'wind chime' },
+            { emoji: '🎑', name: 'moon viewing ceremony' },
+            { emoji: '🧧', name: 'red gift envelope' }
+        ]
+    },
+    {
+        id: 'travel',
+        label: 'Travel & places',
+        emojis: [
+            { emoji: '🚗', name: 'automobile' },
+            { emoji: '🚕', name: 'taxi' },
+            { emoji: '🚙', name: 'recreational vehicle' },
+            { emoji: '🚌', name: 'bus' },
+            { emoji: '🚎', name: 'trolleybus' },
+            { emoji: '🚓', name: 'police car' },
+            { emoji: '🚑', name: 'ambulance' },
+            { emoji: '🚒', name: 'fire engine' },
+            { emoji: '🚐', name: 'minibus' },
+            { emoji: '🛻', name: 'pickup truck' },
+            { emoji: '🚚', name: 'delivery truck' },
+            { emoji: '🚛', name: 'articulated lorry' },
+            { emoji: '🚜', name: 'tractor' },
+            { emoji: '🛵', name: 'motor scooter' },
+            { emoji: '🚲', name: 'bicycle' },
+            { emoji: '🛴', name: 'scooter' },
+            { emoji: '🛹', name: 'skateboard' },
+            { emoji: '🛼', name: 'roller skate' },
+            { emoji: '🚏', name: 'bus stop' },
+            { emoji: '🚨', name: 'police cars revolving light' },
+            { emoji: '🚔', name: 'oncoming police car' },
+            { emoji: '🚍', name: 'oncoming bus' },
+            { emoji: '🚘', name: 'oncoming automobile' },
+            { emoji: '🚖', name: 'oncoming taxi' },
+            { emoji: '🚡', name: 'aerial tramway' },
+            { emoji: '🚠', name: 'mountain cableway' },
+            { emoji: '🚟', name: 'suspension railway' },
+            { emoji: '🚃', name: 'railway car' },
+            { emoji: '🚋', name: 'tram car' },
+            { emoji: '🚞', name: 'mountain railway' },
+            { emoji: '🚝', name: 'monorail' },
+            { emoji: '🚄', name: 'high-speed train' },
+            { emoji: '🚅', name: 'high-speed train with bullet nose' },
+            { emoji: '🚈', name: 'light rail' },
+            { emoji: '🚂', name: 'steam locomotive' },
+            { emoji: '🚆', name: 'train' },
+            { emoji: '🚇', name: 'metro' },
+            { emoji: '🚊', name: 'tram' },
+            { emoji: '🚉', name: 'station' },
+            { emoji: '✈️', name: 'airplane' },
+            { emoji: '🛫', name: 'airplane departure' },
+            { emoji: '🛬', name: 'airplane arriving' },
+            { emoji: '💺', name: 'seat' },
+            { emoji: '🚁', name: 'helicopter' },
+            { emoji: '🚀', name: 'rocket', keywords: 'rocket launch' },
+            { emoji: '🛸', name: 'flying saucer' },
+            { emoji: '🛶', name: 'canoe' },
+            { emoji: '⛵', name: 'sailboat' },
+            { emoji: '🚤', name: 'speedboat' },
+            { emoji: '🚢', name: 'ship' },
+            { emoji: '⚓', name: 'anchor' },
+            { emoji: '🪝', name: 'hook' },
+            { emoji: '⛽', name: 'fuel pump' },
+            { emoji: '🚧', name: 'construction sign' },
+            { emoji: '🚦', name: 'vertical traffic light' },
+            { emoji: '🚥', name: 'horizontal traffic light' },
+            { emoji: '🗿', name: 'moyai' },
+            { emoji: '🗽', name: 'statue of liberty' },
+            { emoji: '🗼', name: 'tokyo tower' },
+            { emoji: '🏰', name: 'european castle' },
+            { emoji: '🏯', name: 'japanese castle' },
+            { emoji: '🎡', name: 'ferris wheel' },
+            { emoji: '🎢', name: 'roller coaster' },
+            { emoji: '🎠', name: 'carousel horse' },
+            { emoji: '⛲', name: 'fountain' },
+            { emoji: '🌋', name: 'volcano' },
+            { emoji: '🗻', name: 'mount fuji' },
+            { emoji: '⛺', name: 'tent' },
+            { emoji: '🛖', name: 'hut' },
+            { emoji: '🏠', name: 'house building' },
+            { emoji: '🏡', name: 'house with garden' },
+            { emoji: '🏭', name: 'factory' },
+            { emoji: '🏢', name: 'office building' },
+            { emoji: '🏬', name: 'department store' },
+            { emoji: '🏣', name: 'japanese post office' },
+            { emoji: '🏤', name: 'european post office' },
+            { emoji: '🏥', name: 'hospital' },
+            { emoji: '🏦', name: 'bank' },
+            { emoji: '🏨', name: 'hotel' },
+            { emoji: '🏪', name: 'convenience store' },
+            { emoji: '🏫', name: 'school' },
+            { emoji: '🏩', name: 'love hotel' },
+            { emoji: '💒', name: 'wedding' },
+            { emoji: '⛪', name: 'church' },
+            { emoji: '🕌', name: 'mosque' },
+            { emoji: '🛕', name: 'hindu temple' },
+            { emoji: '🕍', name: 'synagogue' },
+            { emoji: '🕋', name: 'kaaba' },
+            { emoji: '🌁', name: 'foggy' },
+            { emoji: '🌃', name: 'night with stars' },
+            { emoji: '🌄', name: 'sunrise over mountains' },
+            { emoji: '🌅', name: 'sunrise' },
+            { emoji: '🌆', name: 'cityscape at dusk' },
+            { emoji: '🌇', name: 'sunset over buildings' },
+            { emoji: '🌉', name: 'bridge at night' },
+            { emoji: '🌌', name: 'milky way' },
+            { emoji: '🗾', name: 'silhouette of japan' },
+            { emoji: '⌚', name: 'watch' },
+            { emoji: '⏰', name: 'alarm clock' },
+            { emoji: '⏳', name: 'hourglass with flowing sand' },
+            { emoji: '⌛', name: 'hourglass' }
+        ]
+    },
+    {
+        id: 'objects',
+        label: 'Objects',
+        emojis: [
+            { emoji: '📱', name: 'mobile phone', keywords: 'phone mobile' },
+            { emoji: '📲', name: 'mobile phone with rightwards arrow at left' },
+            { emoji: '💻', name: 'personal computer', keywords: 'laptop computer' },
+            { emoji: '💽', name: 'minidisc' },
+            { emoji: '💾', name: 'floppy disk' },
+            { emoji: '💿', name: 'optical disc' },
+            { emoji: '📀', name: 'dvd' },
+            { emoji: '📼', name: 'videocassette' },
+            { emoji: '📷', name: 'camera' },
+            { emoji: '📸', name: 'camera with flash' },
+            { emoji: '📹', name: 'video camera' },
+            { emoji: '🎥', name: 'movie camera' },
+            { emoji: '📞', name: 'telephone receiver' },
+            { emoji: '📟', name: 'pager' },
+            { emoji: '📠', name: 'fax machine' },
+            { emoji: '📺', name: 'television' },
+            { emoji: '📡', name: 'satellite antenna' },
+            { emoji: '🔋', name: 'battery' },
+            { emoji: '🪫', name: 'low battery' },
+            { emoji: '🔌', name: 'electric plug' },
+            { emoji: '💡', name: 'electric light bulb', keywords: 'idea' },
+            { emoji: '🔦', name: 'electric torch' },
+            { emoji: '🪔', name: 'diya lamp' },
+            { emoji: '🧯', name: 'fire extinguisher' },
+            { emoji: '💸', name: 'money with wings' },
+            { emoji: '💵', name: 'banknote with dollar sign' },
+            { emoji: '💴', name: 'banknote with yen sign' },
+            { emoji: '💶', name: 'banknote with euro sign' },
+            { emoji: '💷', name: 'banknote with pound sign' },
+            { emoji: '🪙', name: 'coin' },
+            { emoji: '💰', name: 'money bag', keywords: 'money' },
+            { emoji: '💳', name: 'credit card' },
+            { emoji: '💎', name: 'gem stone' },
+            { emoji: '🪜', name: 'ladder' },
+            { emoji: '🧰', name: 'toolbox' },
+            { emoji: '🪛', name: 'screwdriver' },
+            { emoji: '🔧', name: 'wrench' },
+            { emoji: '🔨', name: 'hammer' },
+            { emoji: '🪓', name: 'axe' },
+            { emoji: '🔩', name: 'nut and bolt' },
+            { emoji: '🧱', name: 'brick' },
+            { emoji: '🧲', name: 'magnet' },
+            { emoji: '🔫', name: 'pistol' },
+            { emoji: '💣', name: 'bomb' },
+            { emoji: '🔪', name: 'hocho' },
+            { emoji: '🚬', name: 'smoking symbol' },
+            { emoji: '🪦', name: 'headstone' },
+            { emoji: '🏺', name: 'amphora' },
+            { emoji: '📿', name: 'prayer beads' },
+            { emoji: '🧿', name: 'nazar amulet' },
+            { emoji: '🪬', name: 'hamsa' },
+            { emoji: '💈', name: 'barber pole' },
+            { emoji: '🔭', name: 'telescope' },
+            { emoji: '🔬', name: 'microscope' },
+            { emoji: '🩹', name: 'adhesive bandage' },
+            { emoji: '🩺', name: 'stethoscope' },
+            { emoji: '💊', name: 'pill' },
+            { emoji: '💉', name: 'syringe' },
+            { emoji: '🩸', name: 'drop of blood' },
+            { emoji: '🧬', name: 'dna double helix' },
+            { emoji: '🧫', name: 'petri dish' },
+            { emoji: '🧪', name: 'test tube' },
+            { emoji: '🧹', name: 'broom' },
+            { emoji: '🪠', name: 'plunger' },
+            { emoji: '🧺', name: 'basket' },
+            { emoji: '🧻', name: 'roll of paper' },
+            { emoji: '🚽', name: 'toilet' },
+            { emoji: '🚿', name: 'shower' },
+            { emoji: '🛁', name: 'bathtub' },
+            { emoji: '🧼', name: 'bar of soap' },
+            { emoji: '🪥', name: 'toothbrush' },
+            { emoji: '🪒', name: 'razor' },
+            { emoji: '🧽', name: 'sponge' },
+            { emoji: '🪣', name: 'bucket' },
+            { emoji: '🧴', name: 'lotion bottle' },
+            { emoji: '🔑', name: 'key' },
+            { emoji: '🚪', name: 'door' },
+            { emoji: '🪑', name: 'chair' },
+            { emoji: '🪞', name: 'mirror' },
+            { emoji: '🪟', name: 'window' },
+            { emoji: '🛒', name: 'shopping trolley' },
+            { emoji: '🏮', name: 'izakaya lantern' },
+            { emoji: '📩', name: 'envelope with downwards arrow above' },
+            { emoji: '📨', name: 'incoming envelope' },
+            { emoji: '📧', name: 'e-mail symbol' },
+            { emoji: '📥', name: 'inbox tray' },
+            { emoji: '📤', name: 'outbox tray' },
+            { emoji: '📦', name: 'package' },
+            { emoji: '🪧', name: 'placard' },
+            { emoji: '📪', name: 'closed mailbox with lowered flag' },
+            { emoji: '📫', name: 'closed mailbox with raised flag' },
+            { emoji: '📬', name: 'open mailbox with raised flag' },
+            { emoji: '📭', name: 'open mailbox with lowered flag' },
+            { emoji: '📮', name: 'postbox' },
+            { emoji: '📯', name: 'postal horn' },
+            { emoji: '📜', name: 'scroll' },
+            { emoji: '📃', name: 'page with curl' },
+            { emoji: '📄', name: 'page facing up' },
+            { emoji: '📑', name: 'bookmark tabs' },
+            { emoji: '🧾', name: 'receipt' },
+            { emoji: '📊', name: 'bar chart' },
+            { emoji: '📈', name: 'chart with upwards trend' },
+            { emoji: '📉', name: 'chart with downwards trend' },
+            { emoji: '📆', name: 'tear-off calendar' },
+            { emoji: '📅', name: 'calendar' },
+            { emoji: '📇', name: 'card index' },
+            { emoji: '📋', name: 'clipboard' },
+            { emoji: '📁', name: 'file folder' },
+            { emoji: '📂', name: 'open file folder' },
+            { emoji: '📰', name: 'newspaper' },
+            { emoji: '📓', name: 'notebook' },
+            { emoji: '📔', name: 'notebook with decorative cover' },
+            { emoji: '📒', name: 'ledger' },
+            { emoji: '📕', name: 'closed book' },
+            { emoji: '📗', name: 'green book' },
+            { emoji: '📘', name: 'blue book' },
+            { emoji: '📙', name: 'orange book' },
+            { emoji: '📚', name: 'books' },
+            { emoji: '📖', name: 'open book' },
+            { emoji: '🔖', name: 'bookmark' },
+            { emoji: '🧷', name: 'safety pin' },
+            { emoji: '🔗', name: 'link symbol' },
+            { emoji: '📎', name: 'paperclip' },
+            { emoji: '📐', name: 'triangular ruler' },
+            { emoji: '📏', name: 'straight ruler' },
+            { emoji: '🧮', name: 'abacus' },
+            { emoji: '📌', name: 'pushpin' },
+            { emoji: '📍', name: 'round pushpin' },
+            { emoji: '✂️', name: 'black scissors' },
+            { emoji: '📝', name: 'memo' },
+            { emoji: '✏️', name: 'pencil' },
+            { emoji: '🔍', name: 'left-pointing magnifying glass' },
+            { emoji: '🔎', name: 'right-pointing magnifying glass' },
+            { emoji: '🔏', name: 'lock with ink pen' },
+            { emoji: '🔐', name: 'closed lock with key' },
+            { emoji: '🔒', name: 'lock' },
+            { emoji: '🔓', name: 'open lock' },
+            { emoji: '👑', name: 'crown' },
+            { emoji: '👒', name: 'womans hat' },
+            { emoji: '🎩', name: 'top hat' },
+            { emoji: '🎓', name: 'graduation cap' },
+            { emoji: '🧢', name: 'billed cap' },
+            { emoji: '👓', name: 'eyeglasses' },
+            { emoji: '🕶️', name: 'dark sunglasses' },
+            { emoji: '🥽', name: 'goggles' },
+            { emoji: '👔', name: 'necktie' },
+            { emoji: '👕', name: 't-shirt' },
+            { emoji: '👖', name: 'jeans' },
+            { emoji: '🧣', name: 'scarf' },
+            { emoji: '🧤', name: 'gloves' },
+            { emoji: '🧥', name: 'coat' },
+            { emoji: '🧦', name: 'socks' },
+            { emoji: '👗', name: 'dress' },
+            { emoji: '👘', name: 'kimono' },
+            { emoji: '🥻', name: 'sari' },
+            { emoji: '🩱', name: 'one-piece swimsuit' },
+            { emoji: '🩲', name: 'briefs' },
+            { emoji: '🩳', name: 'shorts' },
+            { emoji: '👙', name: 'bikini' },
+            { emoji: '👚', name: 'womans clothes' },
+            { emoji: '👛', name: 'purse' },
+            { emoji: '👜', name: 'handbag' },
+            { emoji: '👝', name: 'pouch' },
+            { emoji: '🎒', name: 'school satchel' },
+            { emoji: '🩴', name: 'thong sandal' },
+            { emoji: '👞', name: 'mans shoe' },
+            { emoji: '👟', name: 'athletic shoe' },
+            { emoji: '🥾', name: 'hiking boot' },
+            { emoji: '🥿', name: 'flat shoe' },
+            { emoji: '👠', name: 'high-heeled shoe' },
+            { emoji: '👡', name: 'womans sandal' },
+            { emoji: '🩰', name: 'ballet shoes' },
+            { emoji: '👢', name: 'womans boots' },
+            { emoji: '💄', name: 'lipstick' },
+            { emoji: '💍', name: 'ring' }
+        ]
+    },
+    {
+        id: 'symbols',
+        label: 'Symbols',
+        emojis: [
+            { emoji: '🏧', name: 'automated teller machine' },
+            { emoji: '🚮', name: 'put litter in its place symbol' },
+            { emoji: '🚰', name: 'potable water symbol' },
+            { emoji: '♿', name: 'wheelchair symbol' },
+            { emoji: '🚹', name: 'mens symbol' },
+            { emoji: '🚺', name: 'womens symbol' },
+            { emoji: '🚻', name: 'restroom' },
+            { emoji: '🚼', name: 'baby symbol' },
+            { emoji: '🚾', name: 'water closet' },
+            { emoji: '🛂', name: 'passport control' },
+            { emoji: '🛃', name: 'customs' },
+            { emoji: '🛄', name: 'baggage claim' },
+            { emoji: '🛅', name: 'left luggage' },
+            { emoji: '⚠️', name: 'warning sign' },
+            { emoji: '🚸', name: 'children crossing' },
+            { emoji: '⛔', name: 'no entry' },
+            { emoji: '🚫', name: 'no entry sign' },
+            { emoji: '🚳', name: 'no bicycles' },
+            { emoji: '🚭', name: 'no smoking symbol' },
+            { emoji: '🚯', name: 'do not litter symbol' },
+            { emoji: '🚱', name: 'non-potable water symbol' },
+            { emoji: '🚷', name: 'no pedestrians' },
+            { emoji: '📵', name: 'no mobile phones' },
+            { emoji: '🔞', name: 'no one under eighteen symbol' },
+            { emoji: '♈', name: 'aries' },
+            { emoji: '♉', name: 'taurus' },
+            { emoji: '♊', name: 'gemini' },
+            { emoji: '♋', name: 'cancer' },
+            { emoji: '♌', name: 'leo' },
+            { emoji: '♍', name: 'virgo' },
+            { emoji: '♎', name: 'libra' },
+            { emoji: '♏', name: 'scorpius' },
+            { emoji: '♐', name: 'sagittarius' },
+            { emoji: '♑', name: 'capricorn' },
+            { emoji: '♒', name: 'aquarius' },
+            { emoji: '♓', name: 'pisces' },
+            { emoji: '⛎', name: 'ophiuchus' },
+            { emoji: '🔀', name: 'twisted rightwards arrows' },
+            { emoji: '🔁', name: 'clockwise rightwards and leftwards open circle arrows' },
+            { emoji: '🔂', name: 'clockwise rightwards and leftwards open circle arrows with circled one overlay' },
+            { emoji: '⏩', name: 'black right-pointing double triangle' },
+            { emoji: '⏪', name: 'black left-pointing double triangle' },
+            { emoji: '🔼', name: 'up-pointing small red triangle' },
+            { emoji: '⏫', name: 'black up-pointing double triangle' },
+            { emoji: '🔽', name: 'down-pointing small red triangle' },
+            { emoji: '⏬', name: 'black down-pointing double triangle' },
+            { emoji: '🎦', name: 'cinema' },
+            { emoji: '🔅', name: 'low brightness symbol' },
+            { emoji: '🔆', name: 'high brightness symbol' },
+            { emoji: '📶', name: 'antenna with bars' },
+            { emoji: '📳', name: 'vibration mode' },
+            { emoji: '📴', name: 'mobile phone off' },
+            { emoji: '➕', name: 'heavy plus sign' },
+            { emoji: '➖', name: 'heavy minus sign' },
+            { emoji: '➗', name: 'heavy division sign' },
+            { emoji: '❓', name: 'black question mark ornament', keywords: 'question' },
+            { emoji: '❔', name: 'white question mark ornament' },
+            { emoji: '❕', name: 'white exclamation mark ornament' },
+            { emoji: '❗', name: 'heavy exclamation mark symbol', keywords: 'exclamation important' },
+            { emoji: '💱', name: 'currency exchange' },
+            { emoji: '💲', name: 'heavy dollar sign' },
+            { emoji: '🔱', name: 'trident emblem' },
+            { emoji: '📛', name: 'name badge' },
+            { emoji: '🔰', name: 'japanese symbol for beginner' },
+            { emoji: '⭕', name: 'heavy large circle' },
+            { emoji: '✅', name: 'white heavy check mark', keywords: 'done yes check' },
+            { emoji: '❌', name: 'cross mark', keywords: 'no wrong cross' },
+            { emoji: '❎', name: 'negative squared cross mark' },
+            { emoji: '➰', name: 'curly loop' },
+            { emoji: '➿', name: 'double curly loop' },
+            { emoji: '🔟', name: 'keycap ten' },
+            { emoji: '🔠', name: 'input symbol for latin capital letters' },
+            { emoji: '🔡', name: 'input symbol for latin small letters' },
+            { emoji: '🔢', name: 'input symbol for numbers' },
+            { emoji: '🔣', name: 'input symbol for symbols' },
+            { emoji: '🔤', name: 'input symbol for latin letters' },
+            { emoji: '🆎', name: 'negative squared ab' },
+            { emoji: '🆑', name: 'squared cl' },
+            { emoji: '🆒', name: 'squared cool' },
+            { emoji: '🆓', name: 'squared free' },
+            { emoji: '🆔', name: 'squared id' },
+            { emoji: '🆕', name: 'squared new' },
+            { emoji: '🆖', name: 'squared ng' },
+            { emoji: '🆗', name: 'squared ok' },
+            { emoji: '🆘', name: 'squared sos' },
+            { emoji: '🆙', name: 'squared up with exclamation mark' },
+            { emoji: '🆚', name: 'squared vs' },
+            { emoji: '🈁', name: 'squared katakana koko' },
+            { emoji: '🈲', name: 'squared cjk unified ideograph-7981' },
+            { emoji: '🈳', name: 'squared cjk unified ideograph-7a7a' },
+            { emoji: '🈴', name: 'squared cjk unified ideograph-5408' },
+            { emoji: '🈵', name: 'squared cjk unified ideograph-6e80' },
+            { emoji: '🈶', name: 'squared cjk unified ideograph-6709' },
+            { emoji: '🈸', name: 'squared cjk unified ideograph-7533' },
+            { emoji: '🈹', name: 'squared cjk unified ideograph-5272' },
+            { emoji: '🈺', name: 'squared cjk unified ideograph-55b6' },
+            { emoji: '🉐', name: 'circled ideograph advantage' },
+            { emoji: '🉑', name: 'circled ideograph accept' },
+            { emoji: '🔴', name: 'large red circle' },
+            { emoji: '🟠', name: 'large orange circle' },
+            { emoji: '🟡', name: 'large yellow circle' },
+            { emoji: '🟢', name: 'large green circle' },
+            { emoji: '🔵', name: 'large blue circle' },
+            { emoji: '🟣', name: 'large purple circle' },
+            { emoji: '🟤', name: 'large brown circle' },
+            { emoji: '⚫', name: 'medium black circle' },
+            { emoji: '⚪', name: 'medium white circle' },
+            { emoji: '🟥', name: 'large red square' },
+            { emoji: '🟧', name: 'large orange square' },
+            { emoji: '🟨', name: 'large yellow square' },
+            { emoji: '🟩', name: 'large green square' },
+            { emoji: '🟦', name: 'large blue square' },
+            { emoji: '🟪', name: 'large purple square' },
+            { emoji: '🟫', name: 'large brown square' },
+            { emoji: '⬛', name: 'black large square' },
+            { emoji: '⬜', name: 'white large square' },
+            { emoji: '◾', name: 'black medium small square' },
+            { emoji: '◽', name: 'white medium small square' },
+            { emoji: '🔶', name: 'large orange diamond' },
+            { emoji: '🔷', name: 'large blue diamond' },
+            { emoji: '🔸', name: 'small orange diamond' },
+            { emoji: '🔹', name: 'small blue diamond' },
+            { emoji: '🔺', name: 'up-pointing red triangle' },
+            { emoji: '🔻', name: 'down-pointing red triangle' },
+            { emoji: '💠', name: 'diamond shape with a dot inside' },
+            { emoji: '🔘', name: 'radio button' },
+            { emoji: '🔳', name: 'white square button' },
+            { emoji: '🔲', name: 'black square button' }
+        ]
+    },
+    {
+        id: 'flags',
+        label: 'Flags',
+        emojis: [
+            { emoji: '🏁', name: 'chequered flag' },
+            { emoji: '🚩', name: 'triangular flag' },
+            { emoji: '🎌', name: 'crossed flags' },
+            { emoji: '🏴', name: 'black flag' },
+            { emoji: '🏳️', name: 'white flag' },
+            { emoji: '🏳️‍🌈', name: 'rainbow flag', keywords: 'pride lgbt' },
+            { emoji: '🏳️‍⚧️', name: 'transgender flag', keywords: 'pride trans' },
+            { emoji: '🏴‍☠️', name: 'pirate flag' },
+            { emoji: '🇦🇷', name: 'flag: Argentina', keywords: 'ar' },
+            { emoji: '🇦🇺', name: 'flag: Australia', keywords: 'au' },
+            { emoji: '🇦🇹', name: 'flag: Austria', keywords: 'at' },
+            { emoji: '🇧🇩', name: 'flag: Bangladesh', keywords: 'bd' },
+            { emoji: '🇧🇪', name: 'flag: Belgium', keywords: 'be' },
+            { emoji: '🇧🇷', name: 'flag: Brazil', keywords: 'br' },
+            { emoji: '🇨🇦', name: 'flag: Canada', keywords: 'ca' },
+            { emoji: '🇨🇱', name: 'flag: Chile', keywords: 'cl' },
+            { emoji: '🇨🇳', name: 'flag: China', keywords: 'cn' },
+            { emoji: '🇨🇴', name: 'flag: Colombia', keywords: 'co' },
+            { emoji: '🇨🇿', name: 'flag: Czechia', keywords: 'cz' },
+            { emoji: '🇩🇰', name: 'flag: Denmark', keywords: 'dk' },
+            { emoji: '🇪🇬', name: 'flag: Egypt', keywords: 'eg' },
+            { emoji: '🇫🇮', name: 'flag: Finland', keywords: 'fi' },
+            { emoji: '🇫🇷', name: 'flag: France', keywords: 'fr' },
+            { emoji: '🇩🇪', name: 'flag: Germany', keywords: 'de' },
+            { emoji: '🇬🇷', name: 'flag: Greece', keywords: 'gr' },
+            { emoji: '🇭🇺', name: 'flag: Hungary', keywords: 'hu' },
+            { emoji: '🇮🇳', name: 'flag: India', keywords: 'in' },
+            { emoji: '🇮🇩', name: 'flag: Indonesia', keywords: 'id' },
+            { emoji: '🇮🇪', name: 'flag: Ireland', keywords: 'ie' },
+            { emoji: '🇮🇱', name: 'flag: Israel', keywords: 'il' },
+            { emoji: '🇮🇹', name: 'flag: Italy', keywords: 'it' },
+            { emoji: '🇯🇵', name: 'flag: Japan', keywords: 'jp' },
+            { emoji: '🇰🇪', name: 'flag: Kenya', keywords: 'ke' },
+            { emoji: '🇲🇾', name: 'flag: Malaysia', keywords: 'my' },
+            { emoji: '🇲🇽', name: 'flag: Mexico', keywords: 'mx' },
+            { emoji: '🇲🇦', name: 'flag: Morocco', keywords: 'ma' },
+            { emoji: '🇳🇱', name: 'flag: Netherlands', keywords: 'nl' },
+            { emoji: '🇳🇿', name: 'flag: New Zealand', keywords: 'nz' },
+            { emoji: '🇳🇬', name: 'flag: Nigeria', keywords: 'ng' },
+            { emoji: '🇳🇴', name: 'flag: Norway', keywords: 'no' },
+            { emoji: '🇵🇰', name: 'flag: Pakistan', keywords: 'pk' },
+            { emoji: '🇵🇪', name: 'flag: Peru', keywords: 'pe' },
+            { emoji: '🇵🇭', name: 'flag: Philippines', keywords: 'ph' },
+            { emoji: '🇵🇱', name: 'flag: Poland', keywords: 'pl' },
+            { emoji: '🇵🇹', name: 'flag: Portugal', keywords: 'pt' },
+            { emoji: '🇷🇴', name: 'flag: Romania', keywords: 'ro' },
+            { emoji: '🇷🇺', name: 'flag: Russia', keywords: 'ru' },
+            { emoji: '🇸🇦', name: 'flag: Saudi Arabia', keywords: 'sa' },
+            { emoji: '🇸🇬', name: 'flag: Singapore', keywords: 'sg' },
+            { emoji: '🇿🇦', name: 'flag: South Africa', keywords: 'za' },
+            { emoji: '🇰🇷', name: 'flag: South Korea', keywords: 'kr' },
+            { emoji: '🇪🇸', name: 'flag: Spain', keywords: 'es' },
+            { emoji: '🇸🇪', name: 'flag: Sweden', keywords: 'se' },
+            { emoji: '🇨🇭', name: 'flag: Switzerland', keywords: 'ch' },
+            { emoji: '🇹🇼', name: 'flag: Taiwan', keywords: 'tw' },
+            { emoji: '🇹🇭', name: 'flag: Thailand', keywords: 'th' },
+            { emoji: '🇹🇷', name: 'flag: Turkey', keywords: 'tr' },
+            { emoji: '🇺🇦', name: 'flag: Ukraine', keywords: 'ua' },
+            { emoji: '🇦🇪', name: 'flag: United Arab Emirates', keywords: 'ae' },
+            { emoji: '🇬🇧', name: 'flag: United Kingdom', keywords: 'gb' },
+            { emoji: '🇺🇸', name: 'flag: United States', keywords: 'us' },
+            { emoji: '🇻🇳', name: 'flag: Vietnam', keywords: 'vn' }
+        ]
+    }
+];
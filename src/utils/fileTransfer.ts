@@ -0,0 +1,207 @@
+/**
+ * Chunked file upload over the chat socket, and download from the server
+ *
+ * The sender offers a file, then streams it in LIMITS.FILE_CHUNK_SIZE chunks
+ * with up to SEND_WINDOW chunks awaiting an ack. The server checks each
+ * chunk's SHA-256 before storing and acking it; a failed check or a missing
+ * ack gets the chunk sent again. A transfer only outlives a dropped
+ * connection if the new socket resumes the old one's seat in the chat (see
+ * server/sessions.js); then the sender resends everything still
+ * unacknowledged and the server overwrites duplicates. If the seat is gone,
+ * so is the chat, and the transfer ends with it.
+ *
+ * The partner then gets a short-lived URL to download the file from.
+ */
+
+import type { Socket } from 'socket.io-client';
+import { LIMITS } from '../../shared/protocol';
+import type { ClientToServerEvents, MediaReference, ServerToClientEvents } from '../../shared/protocol';
+import * as crypto from './crypto';
+
+type ChatSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+
+// Chunks sent but not yet acked
+const SEND_WINDOW = 8;
+const ACK_TIMEOUT_MS = 10000;
+const MAX_ATTEMPTS = 5;
+// Bytes of IV stored ahead of each encrypted chunk on the server
+const IV_LENGTH = 12;
+
+export interface TransferProgress {
+    transferred: number;
+    total: number;
+}
+
+export type TransferResult = 'complete' | 'cancelled';
+
+export interface OutgoingTransfer {
+    handleAck(index: number, ok: boolean, retryAfterMs?: number): void;
+    // Resend every unacknowledged chunk, e.g. after the socket resumes its seat
+    resume(): void;
+    // Stop and tell the partner
+    cancel(): void;
+    // Stop without telling the partner, e.g. because they cancelled. With an
+    // error, `done` rejects with it instead of resolving as cancelled.
+    abort(error?: Error): void;
+    done: Promise<TransferResult>;
+}
+
+export function chunkCountFor(size: number): number {
+    return Math.ceil(size / LIMITS.FILE_CHUNK_SIZE);
+}
+
+/**
+ * Stream a file that has already been offered. `key` encrypts each chunk;
+ * pass null for unencrypted chats.
+ */
+export function sendFile({ socket, transferId, file, key, onProgress }: {
+    socket: ChatSocket;
+    transferId: string;
+    file: Blob;
+    key: CryptoKey | null;
+    onProgress: (progress: TransferProgress) => void;
+}): OutgoingTransfer {
+    const chunkCount = chunkCountFor(file.size);
+    const inFlight = new Map<number, { sentAt: number; attempts: number }>();
+    let nextIndex = 0;
+    let acked = 0;
+    let finished = false;
+
+    let resolveDone!: (result: TransferResult) => void;
+    let rejectDone!: (error: Error) => void;
+    const done = new Promise<TransferResult>((resolve, reject) => {
+        resolveDone = resolve;
+        rejectDone = reject;
+    });
+
+    const finish = (result: TransferResult | Error) => {
+        if (finished) return;
+        finished = true;
+        clearInterval(retryTimer);
+        if (result instanceof Error) rejectDone(result);
+        else resolveDone(result);
+    };
+
+    const fail = (error: Error) => {
+        socket.emit('file_cancel', { transferId });
+        finish(error);
+    };
+
+    const sendChunk = async (index: number, isRetry: boolean) => {
+        const entry = inFlight.get(index) ?? { sentAt: 0, attempts: 0 };
+        if (isRetry) entry.attempts++;
+        if (entry.attempts >= MAX_ATTEMPTS) {
+            fail(new Error(`Chunk ${index} was not delivered after ${MAX_ATTEMPTS} attempts`));
+            return;
+        }
+        entry.sentAt = Date.now();
+        inFlight.set(index, entry);
+
+        try {
+            const start = index * LIMITS.FILE_CHUNK_SIZE;
+            let data = await file.slice(start, start + LIMITS.FILE_CHUNK_SIZE).arrayBuffer();
+            let iv: string | undefined;
+            if (key) ({ iv, data } = await crypto.encryptChunk(key, transferId, index, data));
+            const hash = await crypto.hashChunk(data);
+            if (!finished) socket.emit('file_chunk', { transferId, index, iv, hash, data });
+        } catch (err) {
+            fail(err instanceof Error ? err : new Error(String(err)));
+        }
+    };
+
+    const pump = () => {
+        while (!finished && inFlight.size < SEND_WINDOW && nextIndex < chunkCount) {
+            sendChunk(nextIndex++, false);
+        }
+    };
+
+    const retryTimer = setInterval(() => {
+        const now = Date.now();
+        inFlight.forEach((entry, index) => {
+            if (now - entry.sentAt > ACK_TIMEOUT_MS) sendChunk(index, true);
+        });
+    }, ACK_TIMEOUT_MS / 2);
+
+    pump();
+
+    return {
+        handleAck(index, ok, retryAfterMs) {
+            const entry = inFlight.get(index);
+            if (finished || !entry) return;
+            // Going over the rate limit isn't a failed attempt, just a reason to wait
+            if (!ok && retryAfterMs !== undefined) {
+                entry.sentAt = Date.now() + retryAfterMs;
+                setTimeout(() => {
+                    if (!finished && inFlight.get(index) === entry) sendChunk(index, false);
+                }, retryAfterMs);
+                return;
+            }
+            if (!ok) {
+                sendChunk(index, true);
+                return;
+            }
+            inFlight.delete(index);
+            acked++;
+            onProgress({ transferred: Math.min(acked * LIMITS.FILE_CHUNK_SIZE, file.size), total: file.size });
+            if (acked === chunkCount) {
+                socket.emit('file_complete', { transferId });
+                finish('complete');
+            } else {
+                pump();
+            }
+        },
+        resume() {
+            if (finished) return;
+            inFlight.forEach((_, index) => sendChunk(index, false));
+        },
+        cancel() {
+            if (finished) return;
+            socket.emit('file_cancel', { transferId });
+            finish('cancelled');
+        },
+        abort(error) {
+            finish(error ?? 'cancelled');
+        },
+        done,
+    };
+}
+
+/**
+ * Download a file from the server, decrypting it chunk by chunk when `key`
+ * is set. `resumeToken` is this member's token for the chat, which the server
+ * checks the file was sent in. Rejects with an AbortError if `signal` fires.
+ */
+export async function downloadFile({ media, key, resumeToken, signal, onProgress }: {
+    media: MediaReference;
+    key: CryptoKey | null;
+    resumeToken: string;
+    signal: AbortSignal;
+    onProgress: (progress: TransferProgress) => void;
+}): Promise<Blob> {
+    const response = await fetch(media.url, { signal, headers: { Authorization: `Bearer ${resumeToken}` } });
+    if (!response.ok || !response.body) throw new Error(`Download failed with status ${response.status}`);
+
+    // Encrypted files are larger on the server; report progress against the original size
+    const storedSize = Number(response.headers.get('Content-Length')) || media.size;
+    const reader = response.body.getReader();
+    const parts: BlobPart[] = [];
+    let received = 0;
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        parts.push(value);
+        received += value.byteLength;
+        onProgress({ transferred: Math.min(Math.round(received / storedSize * media.size), media.size), total: media.size });
+    }
+
+    const stored = new Blob(parts);
+    if (!key) return new Blob([stored], { type: media.mimeType });
+
+    const slot = IV_LENGTH + LIMITS.FILE_CHUNK_SIZE + LIMITS.FILE_CHUNK_OVERHEAD;
+    const chunks: ArrayBuffer[] = [];
+    for (let index = 0; index * slot < stored.size; index++) {
+        const bytes = await stored.slice(index * slot, (index + 1) * slot).arrayBuffer();
+        chunks.push(await crypto.decryptChunk(key, media.transferId, index, bytes.slice(0, IV_LENGTH), bytes.slice(IV_LENGTH)));
+    }
+    return new Blob(chunks, { type: media.mimeType });
+}
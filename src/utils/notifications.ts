@@ -21,7 +21,7 @@ export async function requestNotificationPermission(): Promise<NotificationPermi
 }
 
 export function showNotification(title: string, options?: NotificationOptions) {
-    if (Notification.permission === 'granted') {
+    if ('Notification' in window && Notification.permission === 'granted') {
         const notification = new Notification(title, {
             icon: '/favicon.ico',
             badge: '/favicon.ico',
@@ -41,3 +41,69 @@ export function showNotification(title: string, options?: NotificationOptions) {
 export function isTabFocused(): boolean {
     return document.hasFocus();
 }
+
+let originalFavicon: string | null | undefined;
+
+/**
+ * Draw `count` as a badge on the tab's favicon, or restore the original at 0.
+ * Without a favicon of its own the page gets a plain round icon to badge.
+ */
+export function setFaviconBadge(count: number) {
+    let link = document.querySelector<HTMLLinkElement>('link[rel~="icon"]');
+    if (originalFavicon === undefined) originalFavicon = link?.href ?? null;
+
+    if (count === 0) {
+        if (originalFavicon) link?.setAttribute('href', originalFavicon);
+        else link?.remove();
+        return;
+    }
+
+    const size = 64;
+    const canvas = document.createElement('canvas');
+    canvas.width = size;
+    canvas.height = size;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const draw = (icon?: HTMLImageElement) => {
+        ctx.clearRect(0, 0, size, size);
+        if (icon) {
+            ctx.drawImage(icon, 0, 0, size, size);
+        } else {
+            const gradient = ctx.createLinearGradient(0, 0, size, size);
+            gradient.addColorStop(0, '#a855f7');
+            gradient.addColorStop(1, '#ec4899');
+            ctx.fillStyle = gradient;
+            ctx.beginPath();
+            ctx.arc(size / 2, size / 2, size / 2, 0, Math.PI * 2);
+            ctx.fill();
+        }
+
+        const label = count > 99 ? '99+' : String(count);
+        ctx.fillStyle = '#ef4444';
+        ctx.beginPath();
+        ctx.arc(size * 0.68, size * 0.32, size * 0.32, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.fillStyle = '#ffffff';
+        ctx.font = `bold ${label.length > 2 ? 20 : 30}px sans-serif`;
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillText(label, size * 0.68, size * 0.34);
+
+        if (!link) {
+            link = document.createElement('link');
+            link.rel = 'icon';
+            document.head.appendChild(link);
+        }
+        link.href = canvas.toDataURL('image/png');
+    };
+
+    if (!originalFavicon) {
+        draw();
+        return;
+    }
+    const icon = new Image();
+    icon.onload = () => draw(icon);
+    icon.onerror = () => draw();
+    icon.src = originalFavicon;
+}
@@ -0,0 +1,100 @@
+/**
+ * WebRTC peer connections signalled over the chat socket
+ *
+ * Media goes straight between the two browsers. The side that starts the
+ * call creates the offer once the other side has accepted; after that both
+ * trade ICE candidates through the server. Candidates that arrive before the
+ * remote description are held until it is set.
+ *
+ * ICE servers come from the server's config. Without any, peers on the same
+ * network connect through their host candidates alone.
+ */
+
+import type { CallSignalPayload } from '../../shared/protocol';
+
+export type PeerSignal = Omit<CallSignalPayload, 'callId'>;
+
+export interface PeerLink {
+    // Apply a description or candidate from the other side
+    handleSignal(signal: PeerSignal): Promise<void>;
+    close(): void;
+}
+
+// getUserMedia and getDisplayMedia only exist in secure contexts (https or localhost)
+export function canUseMedia(): boolean {
+    return Boolean(navigator.mediaDevices);
+}
+
+/**
+ * Connect to the other side of a call. `localStream` is sent to them; pass
+ * null to only receive. `initiator` makes this side send the offer.
+ */
+export function connectPeer({ iceServers, initiator, localStream, onSignal, onTrack, onStateChange }: {
+    iceServers: RTCIceServer[];
+    initiator: boolean;
+    localStream: MediaStream | null;
+    onSignal: (signal: PeerSignal) => void;
+    onTrack: (stream: MediaStream) => void;
+    onStateChange: (state: RTCPeerConnectionState) => void;
+}): PeerLink {
+    const pc = new RTCPeerConnection({ iceServers });
+    const pendingCandidates: RTCIceCandidateInit[] = [];
+    let closed = false;
+
+    localStream?.getTracks().forEach(track => pc.addTrack(track, localStream));
+
+    pc.onicecandidate = (event) => {
+        if (event.candidate) onSignal({ candidate: event.candidate.toJSON() });
+    };
+    pc.ontrack = (event) => onTrack(event.streams[0] ?? new MediaStream([event.track]));
+    pc.onconnectionstatechange = () => {
+        if (!closed) onStateChange(pc.connectionState);
+    };
+
+    const fail = (err: unknown) => {
+        console.error('Call negotiation failed:', err);
+        if (!closed) onStateChange('failed');
+    };
+
+    const sendDescription = () => {
+        const { type, sdp } = pc.localDescription!;
+        onSignal({ description: { type: type as 'offer' | 'answer', sdp } });
+    };
+
+    if (initiator) {
+        pc.createOffer()
+            .then(offer => pc.setLocalDescription(offer))
+            .then(sendDescription)
+            .catch(fail);
+    }
+
+    async function handleSignal({ description, candidate }: PeerSignal) {
+        if (closed) return;
+        try {
+            if (description) {
+                await pc.setRemoteDescription(description);
+                if (description.type === 'offer') {
+                    await pc.setLocalDescription(await pc.createAnswer());
+                    sendDescription();
+                }
+                for (const queued of pendingCandidates.splice(0)) await pc.addIceCandidate(queued);
+            }
+            if (candidate) {
+                if (pc.remoteDescription) {
+                    await pc.addIceCandidate(candidate);
+                } else {
+                    pendingCandidates.push(candidate);
+                }
+            }
+        } catch (err) {
+            fail(err);
+        }
+    }
+
+    function close() {
+        closed = true;
+        pc.close();
+    }
+
+    return { handleSignal, close };
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import type { ReplyPreview } from '../../shared/protocol';
+import { readFileOfferContent, readMessageContent, readReactionContent, readReplyPreview, toReplyPreview } from './sealedContent';
+
+const reply: ReplyPreview = { id: 'AAAAAAAAAAAAAAAA', text: 'hello', sender: 'user', type: 'file', fileType: 'image' };
+
+describe('readMessageContent', () => {
+    it('keeps text and a well-formed reply', () => {
+        expect(readMessageContent({ text: 'hi', replyTo: reply })).toEqual({ text: 'hi', replyTo: reply });
+    });
+
+    it('turns down text that is not a string or is too long', () => {
+        expect(readMessageContent({ text: {} })).toBeNull();
+        expect(readMessageContent({ text: 'x'.repeat(2001) })).toBeNull();
+        expect(readMessageContent('hi')).toBeNull();
+    });
+
+    it('turns down a malformed reply', () => {
+        expect(readMessageContent({ text: 'hi', replyTo: { ...reply, text: 1 } })).toBeNull();
+        expect(readMessageContent({ text: 'hi', replyTo: { ...reply, fileType: 'pdf' } })).toBeNull();
+    });
+});
+
+describe('readReplyPreview', () => {
+    it('drops everything but the quoted fields', () => {
+        const nested = { ...reply, reactions: [], seq: 1, replyTo: reply, fileContent: 'blob:x' };
+        expect(readReplyPreview(nested)).toEqual(reply);
+        expect(toReplyPreview(nested)).toEqual(reply);
+    });
+});
+
+describe('readFileOfferContent', () => {
+    it('checks the name and key', () => {
+        expect(readFileOfferContent({ text: 'cat.png', key: 'AAAA' })).toEqual({ text: 'cat.png', key: 'AAAA' });
+        expect(readFileOfferContent({ text: ['cat.png'] })).toBeNull();
+        expect(readFileOfferContent({ key: 'A'.repeat(65) })).toBeNull();
+    });
+});
+
+describe('readReactionContent', () => {
+    it('needs a short, non-empty emoji', () => {
+        expect(readReactionContent({ emoji: '👍' })).toEqual({ emoji: '👍' });
+        expect(readReactionContent({ emoji: '' })).toBeNull();
+        expect(readReactionContent({})).toBeNull();
+    });
+});
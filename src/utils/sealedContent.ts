@@ -0,0 +1,58 @@
+/**
+ * Checks for content opened from an encrypted envelope
+ *
+ * The server validates plaintext against the shared schemas, but it can't
+ * see inside an envelope, so whatever the partner's app sealed arrives
+ * unchecked. These apply the same limits after decryption. Each returns the
+ * content with only the known fields, or null if it doesn't fit.
+ */
+
+import { FILE_TYPES, LIMITS, MESSAGE_TYPES } from '../../shared/protocol';
+import type { FileOfferContent, FileType, MessageContent, MessageType, ReactionContent, ReplyPreview } from '../../shared/protocol';
+
+// Message IDs and the reply's sender label are short; see protocol.js
+const ID_LENGTH = 16;
+const SENDER_LENGTH = 16;
+// A base64 AES-256 key is 44 characters
+const FILE_KEY_LENGTH = 64;
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isText = (value: unknown, max: number): value is string => typeof value === 'string' && value.length <= max;
+const isOptionalText = (value: unknown, max: number): value is string | undefined => value === undefined || isText(value, max);
+
+/**
+ * The fields of a message a reply quotes. Used for what we send as well, so
+ * nothing else about the message, like its reactions or its own reply, is
+ * sealed along with it.
+ */
+export function toReplyPreview({ id, text, sender, type, fileType }: ReplyPreview): ReplyPreview {
+    return { id, text, sender, ...(type && { type }), ...(fileType && { fileType }) };
+}
+
+export function readReplyPreview(value: unknown): ReplyPreview | null {
+    if (!isObject(value)) return null;
+    const { id, text, sender, type, fileType } = value;
+    if (!isText(id, ID_LENGTH) || !isText(text, LIMITS.TEXT_LENGTH) || !isText(sender, SENDER_LENGTH)) return null;
+    if (type !== undefined && !MESSAGE_TYPES.includes(type as MessageType)) return null;
+    if (fileType !== undefined && !FILE_TYPES.includes(fileType as FileType)) return null;
+    return toReplyPreview({ id, text, sender, type: type as MessageType | undefined, fileType: fileType as FileType | undefined });
+}
+
+export function readMessageContent(value: unknown): MessageContent | null {
+    if (!isObject(value) || !isOptionalText(value.text, LIMITS.TEXT_LENGTH)) return null;
+    if (value.replyTo === undefined) return { text: value.text };
+    const replyTo = readReplyPreview(value.replyTo);
+    return replyTo && { text: value.text, replyTo };
+}
+
+export function readFileOfferContent(value: unknown): FileOfferContent | null {
+    if (!isObject(value)) return null;
+    const { text, key } = value;
+    if (!isOptionalText(text, LIMITS.FILE_NAME_LENGTH) || !isOptionalText(key, FILE_KEY_LENGTH)) return null;
+    return { text, key };
+}
+
+export function readReactionContent(value: unknown): Required<ReactionContent> | null {
+    if (!isObject(value) || !isText(value.emoji, LIMITS.REACTION_LENGTH) || !value.emoji) return null;
+    return { emoji: value.emoji };
+}
@@ -1,4 +1,6 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite'
+import { configDefaults } from 'vitest/config'
 import path from 'path'
 import tailwindcss from '@tailwindcss/vite'
 import react from '@vitejs/plugin-react'
@@ -24,6 +26,16 @@ export default defineConfig({
         target: 'http://localhost:3000',
         ws: true,
       },
+      '/admin': {
+        target: 'http://localhost:3000',
+      },
+      '/media': {
+        target: 'http://localhost:3000',
+      },
     },
   },
+  test: {
+    // The server has its own tests, run with node:test from server/
+    exclude: [...configDefaults.exclude, 'server/**'],
+  },
 })